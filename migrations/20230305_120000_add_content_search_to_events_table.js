@@ -0,0 +1,15 @@
+exports.up = function (knex) {
+  return knex.schema
+    .raw(`ALTER TABLE events
+      ADD COLUMN event_content_tsv tsvector
+      GENERATED ALWAYS AS (to_tsvector('simple', event_content)) STORED;`)
+    .raw('CREATE INDEX event_content_tsv_idx ON events USING GIN (event_content_tsv);')
+}
+
+exports.down = function (knex) {
+  return knex.schema
+    .raw('DROP INDEX IF EXISTS event_content_tsv_idx;')
+    .alterTable('events', function (table) {
+      table.dropColumn('event_content_tsv')
+    })
+}
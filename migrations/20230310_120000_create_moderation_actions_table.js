@@ -0,0 +1,16 @@
+exports.up = function (knex) {
+  return knex.schema.createTable('moderation_actions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'))
+    table.text('type').notNullable()
+    table.binary('moderator_pubkey').notNullable()
+    table.binary('pubkey').notNullable().index()
+    table.binary('event_id')
+    table.binary('report_event_id').notNullable()
+    table.text('reason')
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.fn.now())
+  })
+}
+
+exports.down = function (knex) {
+  return knex.schema.dropTable('moderation_actions')
+}
@@ -0,0 +1,15 @@
+exports.up = function (knex) {
+  return knex.schema.createTable('bans', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'))
+    table.binary('pubkey').unique()
+    table.text('ip_address').unique()
+    table.text('reason')
+    table.datetime('expires_at', { useTz: false, precision: 3 })
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.fn.now())
+    table.datetime('updated_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.fn.now())
+  })
+}
+
+exports.down = function (knex) {
+  return knex.schema.dropTable('bans')
+}
@@ -0,0 +1,14 @@
+exports.up = function (knex) {
+  return knex.schema.createTable('charges', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'))
+    table.binary('pubkey').notNullable().index()
+    table.binary('event_id')
+    table.text('fee_schedule').notNullable()
+    table.bigint('amount').notNullable()
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.fn.now())
+  })
+}
+
+exports.down = function (knex) {
+  return knex.schema.dropTable('charges')
+}
@@ -0,0 +1,42 @@
+exports.up = async function (knex) {
+  await knex.schema.createTable('ledger_entries', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'))
+    table.binary('pubkey').notNullable().index()
+    table.text('type').notNullable()
+    table.bigint('amount').notNullable()
+    table.text('invoice_id')
+    table.binary('event_id')
+    table.text('description')
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.fn.now())
+    // An invoice is credited at most once
+    table.unique(['type', 'invoice_id'])
+  })
+
+  await knex.raw(`INSERT INTO ledger_entries (pubkey, type, amount, event_id, created_at)
+SELECT pubkey, 'publication_fee', -amount, event_id, created_at FROM charges`)
+
+  // Balances accrued before the ledger existed
+  await knex.raw(`INSERT INTO ledger_entries (pubkey, type, amount, description)
+SELECT users.pubkey, 'opening_balance', users.balance - COALESCE(SUM(ledger_entries.amount), 0), 'Opening balance'
+FROM users LEFT JOIN ledger_entries ON ledger_entries.pubkey = users.pubkey
+GROUP BY users.pubkey, users.balance
+HAVING users.balance - COALESCE(SUM(ledger_entries.amount), 0) <> 0`)
+
+  await knex.schema.dropTable('charges')
+}
+
+exports.down = async function (knex) {
+  await knex.schema.createTable('charges', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'))
+    table.binary('pubkey').notNullable().index()
+    table.binary('event_id')
+    table.text('fee_schedule').notNullable()
+    table.bigint('amount').notNullable()
+    table.datetime('created_at', { useTz: false, precision: 3 }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.raw(`INSERT INTO charges (pubkey, event_id, fee_schedule, amount, created_at)
+SELECT pubkey, event_id, 'publication', -amount, created_at FROM ledger_entries WHERE type = 'publication_fee'`)
+
+  await knex.schema.dropTable('ledger_entries')
+}
@@ -0,0 +1,13 @@
+exports.up = function (knex) {
+  return knex.schema.alterTable('users', (table) => {
+    table.datetime('admitted_until', { useTz: false, precision: 3 }).nullable().index()
+    table.datetime('admission_reminded_at', { useTz: false, precision: 3 }).nullable()
+  })
+}
+
+exports.down = function (knex) {
+  return knex.schema.alterTable('users', (table) => {
+    table.dropColumn('admitted_until')
+    table.dropColumn('admission_reminded_at')
+  })
+}
@@ -0,0 +1,18 @@
+exports.up = async function (knex) {
+  await knex.raw('ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check')
+  await knex.raw(`ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+CHECK (status IN ('pending', 'completed', 'expired', 'cancelled'))`)
+  await knex.schema.alterTable('invoices', (table) => {
+    table.index(['status', 'created_at'], 'invoices_status_created_at_idx')
+  })
+}
+
+exports.down = async function (knex) {
+  await knex.schema.alterTable('invoices', (table) => {
+    table.dropIndex(['status', 'created_at'], 'invoices_status_created_at_idx')
+  })
+  await knex('invoices').where('status', 'cancelled').update({ status: 'expired' })
+  await knex.raw('ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check')
+  await knex.raw(`ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+CHECK (status IN ('pending', 'completed', 'expired'))`)
+}
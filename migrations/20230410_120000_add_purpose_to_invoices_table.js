@@ -0,0 +1,12 @@
+exports.up = async function (knex) {
+  await knex.schema.alterTable('invoices', (table) => {
+    table.enum('purpose', ['admission', 'top_up']).notNullable().defaultTo('admission')
+  })
+  await knex('invoices').where('description', 'like', '% Balance Top-up for %').update({ purpose: 'top_up' })
+}
+
+exports.down = function (knex) {
+  return knex.schema.alterTable('invoices', (table) => {
+    table.dropColumn('purpose')
+  })
+}
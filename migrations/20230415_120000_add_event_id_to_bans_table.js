@@ -0,0 +1,11 @@
+exports.up = function (knex) {
+  return knex.schema.alterTable('bans', (table) => {
+    table.binary('event_id').unique()
+  })
+}
+
+exports.down = function (knex) {
+  return knex.schema.alterTable('bans', (table) => {
+    table.dropColumn('event_id')
+  })
+}
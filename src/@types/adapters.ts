@@ -1,4 +1,5 @@
 import { EventEmitter } from 'node:stream'
+import { Pubkey } from './base'
 import { SubscriptionFilter } from './subscription'
 
 export interface IWebSocketServerAdapter extends EventEmitter, IWebServerAdapter {
@@ -16,12 +17,17 @@ export type IWebSocketAdapter = EventEmitter & {
   getClientId(): string
   getClientAddress(): string
   getSubscriptions(): Map<string, SubscriptionFilter[]>
+  getAuthChallenge(): string
+  getAuthenticatedPubkeys(): Set<Pubkey>
+  hasBackpressure(): boolean
 }
 
 export interface ICacheAdapter {
   getKey(key: string): Promise<string>
   hasKey(key: string): Promise<boolean>
   setKey(key: string, value: string): Promise<boolean>
+  setKeyIfNotExists(key: string, value: string, expiry: number): Promise<boolean>
+  deleteKey(key: string): Promise<number>
   addToSortedSet(key: string, set: Record<string, string> | Record<string, string>[]): Promise<number>
   removeRangeByScoreFromSortedSet(key: string, min: number, max: number): Promise<number>
   getRangeFromSortedSet(key: string, start: number, stop: number): Promise<string[]>
@@ -0,0 +1,23 @@
+import { EventId, Pubkey } from './base'
+
+export interface Ban {
+  id?: string
+  pubkey?: Pubkey
+  ipAddress?: string
+  eventId?: EventId
+  reason?: string
+  expiresAt?: Date | null
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export interface DBBan {
+  id: string
+  pubkey: Buffer | null
+  ip_address: string | null
+  event_id: Buffer | null
+  reason: string | null
+  expires_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
@@ -33,6 +33,12 @@ export interface ParameterizedReplaceableEvent extends Event {
   [EventDeduplicationMetadataKey]: string[]
 }
 
+export interface EventAddress {
+  kind: EventKinds
+  pubkey: Pubkey
+  identifier: string
+}
+
 export interface DBEvent {
   id: string
   event_id: Buffer
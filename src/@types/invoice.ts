@@ -8,7 +8,14 @@ export enum InvoiceUnit {
 
 export enum InvoiceStatus {
   PENDING = 'pending',
-  COMPLETED = 'completed'
+  COMPLETED = 'completed',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled',
+}
+
+export enum InvoicePurpose {
+  ADMISSION = 'admission',
+  TOP_UP = 'top_up',
 }
 
 export interface Invoice {
@@ -19,6 +26,7 @@ export interface Invoice {
   amountPaid?: bigint
   unit: InvoiceUnit
   status: InvoiceStatus
+  purpose: InvoicePurpose
   description: string
   confirmedAt?: Date | null
   expiresAt: Date | null
@@ -35,6 +43,7 @@ export interface DBInvoice {
   amount_paid: bigint
   unit: InvoiceUnit
   status: InvoiceStatus,
+  purpose: InvoicePurpose
   description: string
   confirmed_at: Date
   expires_at: Date
@@ -0,0 +1,39 @@
+import { EventId, Pubkey } from './base'
+
+export enum LedgerEntryType {
+  OpeningBalance = 'opening_balance',
+  InvoicePayment = 'invoice_payment',
+  PublicationFee = 'publication_fee',
+  AdminAdjustment = 'admin_adjustment',
+}
+
+export interface LedgerEntry {
+  id?: string
+  pubkey: Pubkey
+  type: LedgerEntryType
+  /**
+   * Amount in msats. Credits are positive and debits are negative.
+   */
+  amount: bigint
+  invoiceId?: string
+  eventId?: EventId
+  description?: string
+  createdAt?: Date
+}
+
+export interface DBLedgerEntry {
+  id: string
+  pubkey: Buffer
+  type: LedgerEntryType
+  amount: string
+  invoice_id: string | null
+  event_id: Buffer | null
+  description: string | null
+  created_at: Date
+}
+
+export interface BalanceMismatch {
+  pubkey: Pubkey
+  balance: bigint
+  ledgerBalance: bigint
+}
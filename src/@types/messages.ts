@@ -9,13 +9,18 @@ export enum MessageType {
   CLOSE = 'CLOSE',
   NOTICE = 'NOTICE',
   EOSE = 'EOSE',
-  OK = 'OK'
+  OK = 'OK',
+  AUTH = 'AUTH',
+  COUNT = 'COUNT',
+  CLOSED = 'CLOSED',
 }
 
 export type IncomingMessage = (
   | SubscribeMessage
   | IncomingEventMessage
   | UnsubscribeMessage
+  | IncomingAuthMessage
+  | CountMessage
   ) & {
     [ContextMetadataKey]?: ContextMetadata
   }
@@ -26,6 +31,9 @@ export type OutgoingMessage =
   | EndOfStoredEventsNotice
   | NoticeMessage
   | CommandResult
+  | AuthChallengeMessage
+  | CountResultMessage
+  | ClosedMessage
 
 export type SubscribeMessage = {
   [index in Range<2, 100>]: SubscriptionFilter
@@ -71,3 +79,31 @@ export interface EndOfStoredEventsNotice {
   0: MessageType.EOSE
   1: SubscriptionId
 }
+
+export interface ClosedMessage {
+  0: MessageType.CLOSED
+  1: SubscriptionId
+  2: string
+}
+
+// NIP-42
+export type IncomingAuthMessage = [MessageType.AUTH, Event]
+
+export interface AuthChallengeMessage {
+  0: MessageType.AUTH
+  1: string
+}
+
+// NIP-45
+export type CountMessage = {
+  [index in Range<2, 100>]: SubscriptionFilter
+} & {
+  0: MessageType.COUNT
+  1: SubscriptionId
+} & Array<SubscriptionFilter>
+
+export interface CountResultMessage {
+  0: MessageType.COUNT
+  1: SubscriptionId
+  2: { count: number }
+}
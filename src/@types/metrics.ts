@@ -0,0 +1,54 @@
+import { MetricsEvent } from '../constants/metrics'
+
+export type MetricLabels = Record<string, string>
+
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+export interface MetricSample {
+  labels: MetricLabels
+  value: number
+}
+
+export interface HistogramSample {
+  labels: MetricLabels
+  /**
+   * Cumulative counts matching the buckets of the histogram
+   */
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+export interface MetricSnapshot {
+  name: string
+  help: string
+  type: MetricType
+  buckets?: number[]
+  samples: (MetricSample | HistogramSample)[]
+}
+
+export interface ICounter {
+  inc(labels?: MetricLabels, value?: number): void
+}
+
+export interface IGauge {
+  set(labels: MetricLabels, value: number): void
+}
+
+export interface IHistogram {
+  observe(labels: MetricLabels, value: number): void
+  startTimer(labels?: MetricLabels): () => void
+}
+
+export interface IMetricsRegistry {
+  counter(name: string, help: string): ICounter
+  gauge(name: string, help: string): IGauge
+  histogram(name: string, help: string, buckets?: number[]): IHistogram
+  getSnapshots(): MetricSnapshot[]
+}
+
+export interface MetricsMessage {
+  eventName: MetricsEvent
+  requestId: string
+  metrics?: MetricSnapshot[]
+}
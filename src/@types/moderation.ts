@@ -0,0 +1,28 @@
+import { EventId, Pubkey } from './base'
+
+export enum ModerationActionType {
+  DeleteEvent = 'delete_event',
+  BanPubkey = 'ban_pubkey',
+}
+
+export interface ModerationAction {
+  id?: string
+  type: ModerationActionType
+  moderatorPubkey: Pubkey
+  pubkey: Pubkey
+  eventId?: EventId
+  reportEventId: EventId
+  reason?: string
+  createdAt?: Date
+}
+
+export interface DBModerationAction {
+  id: string
+  type: ModerationActionType
+  moderator_pubkey: Buffer
+  pubkey: Buffer
+  event_id: Buffer | null
+  report_event_id: Buffer
+  reason: string | null
+  created_at: Date
+}
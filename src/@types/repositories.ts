@@ -1,8 +1,13 @@
 import { PassThrough } from 'stream'
 
+import { BalanceMismatch, LedgerEntry } from './ledger'
 import { DatabaseClient, EventId, Pubkey } from './base'
-import { DBEvent, Event } from './event'
+import { DBEvent, Event, EventAddress } from './event'
+import { Ban } from './ban'
+import { EventKinds } from '../constants/base'
+import { EventKindsRange } from './settings'
 import { Invoice } from './invoice'
+import { ModerationAction } from './moderation'
 import { SubscriptionFilter } from './subscription'
 import { User } from './user'
 
@@ -12,16 +17,40 @@ export interface IQueryResult<T> extends Pick<Promise<T>, keyof Promise<T> & Exp
   stream(options?: Record<string, any>): PassThrough & AsyncIterable<T>
 }
 
+export interface FindByFiltersOptions {
+  /**
+   * Event kinds only readable by their author or their p-tagged recipients
+   */
+  protectedKinds?: (EventKinds | EventKindsRange)[]
+  /**
+   * Public keys the reading client has authenticated as (NIP-42)
+   */
+  authenticatedPubkeys?: Pubkey[]
+  /**
+   * Cancels the query on the database when aborted
+   */
+  signal?: AbortSignal
+}
+
 export interface IEventRepository {
-  create(event: Event): Promise<number>
-  upsert(event: Event): Promise<number>
-  findByFilters(filters: SubscriptionFilter[]): IQueryResult<DBEvent[]>
+  create(event: Event, client?: DatabaseClient): Promise<number>
+  upsert(event: Event, client?: DatabaseClient): Promise<number>
+  findByFilters(filters: SubscriptionFilter[], options?: FindByFiltersOptions): IQueryResult<DBEvent[]>
+  countByFilters(filters: SubscriptionFilter[], options?: FindByFiltersOptions): Promise<number>
+  isDeleted(eventId: EventId, pubkey: Pubkey): Promise<boolean>
+  isAddressDeleted(pubkey: Pubkey, address: string, since: number): Promise<boolean>
+  isDelegationRevoked(delegator: Pubkey, token: string): Promise<boolean>
   insertStubs(pubkey: string, eventIdsToDelete: EventId[]): Promise<number>
   deleteByPubkeyAndIds(pubkey: Pubkey, ids: EventId[]): Promise<number>
+  deleteByIds(ids: EventId[]): Promise<number>
+  deleteByPubkeyAndIdsReturningIds(pubkey: Pubkey, ids: EventId[], client?: DatabaseClient): Promise<EventId[]>
+  deleteByPubkeyAndAddresses(pubkey: Pubkey, addresses: EventAddress[], until: number): Promise<number>
+  deleteExpiredEvents(limit: number): Promise<number>
 }
 
 export interface IInvoiceRepository {
   findById(id: string, client?: DatabaseClient): Promise<Invoice | undefined>
+  findByIdForUpdate(id: string, client: DatabaseClient): Promise<Invoice | undefined>
   upsert(invoice: Partial<Invoice>, client?: DatabaseClient): Promise<number>
   confirmInvoice(
     invoiceId: string,
@@ -40,4 +69,29 @@ export interface IUserRepository {
   findByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<User | undefined>
   upsert(user: Partial<User>, client?: DatabaseClient): Promise<number>
   getBalanceByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<bigint>
+  adjustBalance(pubkey: Pubkey, amount: bigint, client?: DatabaseClient): Promise<bigint | undefined>
+  findByAdmissionExpiringBefore(date: Date, limit: number, client?: DatabaseClient): Promise<User[]>
+  setAdmissionRemindedAt(pubkey: Pubkey, date: Date, client?: DatabaseClient): Promise<number>
+}
+
+export interface IModerationActionRepository {
+  create(actions: ModerationAction[], client?: DatabaseClient): Promise<number>
+}
+
+export interface IBanRepository {
+  findActive(client?: DatabaseClient): Promise<Ban[]>
+  findActiveByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<Ban | undefined>
+  findActiveByIpAddress(ipAddress: string, client?: DatabaseClient): Promise<Ban | undefined>
+  findActiveByEventId(eventId: EventId, client?: DatabaseClient): Promise<Ban | undefined>
+  upsert(ban: Ban, client?: DatabaseClient): Promise<Ban>
+  deleteByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<number>
+  deleteByIpAddress(ipAddress: string, client?: DatabaseClient): Promise<number>
+  deleteByEventId(eventId: EventId, client?: DatabaseClient): Promise<number>
+}
+
+export interface ILedgerRepository {
+  create(entry: LedgerEntry, client?: DatabaseClient): Promise<number>
+  findByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<LedgerEntry[]>
+  getBalanceByPubkey(pubkey: Pubkey, client?: DatabaseClient): Promise<bigint>
+  findBalanceMismatches(client?: DatabaseClient): Promise<BalanceMismatch[]>
 }
@@ -1,5 +1,93 @@
-import { Invoice } from './invoice'
-import { Pubkey } from './base'
+import { DatabaseClient, EventId, Pubkey } from './base'
+import { Invoice, InvoicePurpose } from './invoice'
+import { Ban } from './ban'
+import { Event } from './event'
+import { InfoRetention } from './settings'
+import { User } from './user'
+
+export interface Nip05Document {
+  names?: Record<string, Pubkey>
+  relays?: Record<Pubkey, string[]>
+}
+
+export type Nip05Fetcher = (domain: string, name: string) => Promise<Nip05Document>
+
+export interface INip05VerificationService {
+  isPubkeyVerified(pubkey: Pubkey): Promise<boolean>
+}
+
+export interface IBanService {
+  getPubkeyBan(pubkey: Pubkey): Promise<Ban | undefined>
+  getIpAddressBan(ipAddress: string): Promise<Ban | undefined>
+  /**
+   * Bans written with a client are not cached: call cacheBan once its transaction commits
+   */
+  banPubkey(pubkey: Pubkey, reason?: string, expiresAt?: Date, client?: DatabaseClient): Promise<Ban>
+  unbanPubkey(pubkey: Pubkey): Promise<void>
+  banIpAddress(ipAddress: string, reason?: string, expiresAt?: Date): Promise<void>
+  unbanIpAddress(ipAddress: string): Promise<void>
+  getEventBan(eventId: EventId): Promise<Ban | undefined>
+  banEvent(eventId: EventId, reason?: string): Promise<void>
+  unbanEvent(eventId: EventId): Promise<void>
+  cacheBan(ban: Ban): Promise<void>
+}
+
+export interface IPublicationFeeService {
+  getPublicationFee(event: Event): bigint
+  /**
+   * Runs the write in a transaction debiting the publication fee from the author's balance.
+   * Resolves undefined if the author's balance is insufficient.
+   */
+  chargePublicationFee(
+    event: Event,
+    write: (client: DatabaseClient) => Promise<number>,
+  ): Promise<number | undefined>
+}
+
+export interface RelayInformationFee {
+  amount: number
+  unit: string
+  period?: number
+}
+
+export interface RelayInformationDocument {
+  name: string
+  description: string
+  pubkey: string
+  contact: string
+  icon?: string
+  supported_nips: number[]
+  supported_nip_extensions: string[]
+  software: string
+  version: string
+  limitation: {
+    max_message_length?: number
+    max_subscriptions?: number
+    max_filters?: number
+    max_limit?: number
+    max_subid_length?: number
+    min_prefix?: number
+    max_event_tags?: number
+    max_content_length?: number
+    min_pow_difficulty?: number
+    auth_required: boolean
+    payment_required: boolean
+    restricted_writes: boolean
+    created_at_lower_limit?: number
+    created_at_upper_limit?: number
+  }
+  retention?: InfoRetention[]
+  relay_countries?: string[]
+  language_tags?: string[]
+  tags?: string[]
+  posting_policy?: string
+  payments_url?: string
+  fees?: Record<string, RelayInformationFee[]>
+}
+
+export interface IRelayInformationService {
+  getRelayInformationDocument(): RelayInformationDocument
+}
 
 export interface IPaymentsService {
   getInvoiceFromPaymentsProcessor(invoice: string | Invoice): Promise<Partial<Invoice>>
@@ -7,6 +95,7 @@ export interface IPaymentsService {
     pubkey: Pubkey,
     amount: bigint,
     description: string,
+    purpose: InvoicePurpose,
   ): Promise<Invoice>
   updateInvoice(invoice: Partial<Invoice>): Promise<void>
   updateInvoiceStatus(invoice: Partial<Invoice>): Promise<void>
@@ -14,5 +103,7 @@ export interface IPaymentsService {
     invoice: Pick<Invoice, 'id' | 'amountPaid' | 'confirmedAt'>,
   ): Promise<void>
   sendInvoiceUpdateNotification(invoice: Invoice): Promise<void>
-  getPendingInvoices(): Promise<Invoice[]>
+  getPendingInvoices(offset: number, limit: number): Promise<Invoice[]>
+  getUsersWithExpiringAdmission(expiringBefore: Date): Promise<User[]>
+  sendAdmissionExpiryReminder(user: User): Promise<void>
 }
@@ -3,12 +3,42 @@ import { EventKinds } from '../constants/base'
 import { MessageType } from './messages'
 import { SubscriptionFilter } from './subscription'
 
+export interface InfoRetention {
+  kinds?: (EventKinds | EventKindsRange)[]
+  /**
+   * Number of seconds events are kept for. Use null for forever
+   */
+  time?: number | null
+  /**
+   * Maximum number of events kept
+   */
+  count?: number
+}
+
 export interface Info {
   relay_url: string
   name: string
   description: string
   pubkey: string
   contact: string
+  icon?: string
+  posting_policy?: string
+  relay_countries?: string[]
+  language_tags?: string[]
+  tags?: string[]
+  retention?: InfoRetention[]
+}
+
+export interface Authentication {
+  enabled: boolean
+  /**
+   * Reject any message other than AUTH until the client has authenticated
+   */
+  required?: boolean
+  /**
+   * Maximum number of seconds an AUTH event's created_at can deviate from the current unix timestamp
+   */
+  maxCreatedAtDelta?: number
 }
 
 export interface Network {
@@ -26,11 +56,32 @@ export interface EventIdLimits {
   minLeadingZeroBits?: number
 }
 
+export interface Nip05Limits {
+  enabled: boolean
+  /**
+   * Only accept NIP-05 identifiers on these domains
+   */
+  domainWhitelist?: string[]
+  /**
+   * Never accept NIP-05 identifiers on these domains
+   */
+  domainBlacklist?: string[]
+  /**
+   * Number of seconds a successful verification is cached for
+   */
+  cacheTtl?: number
+  /**
+   * Number of seconds a failed verification is cached for
+   */
+  failureCacheTtl?: number
+}
+
 export interface PubkeyLimits {
   minBalance: bigint
   minLeadingZeroBits: number
   whitelist?: Pubkey[]
   blacklist?: Pubkey[]
+  nip05?: Nip05Limits
 }
 
 export type EventKindsRange = [EventKinds, EventKinds]
@@ -59,9 +110,42 @@ export interface ContentLimits {
   description?: string
   kinds?: (EventKinds | EventKindsRange)[]
   /**
-   * Maximum number of characters allowed on events
+   * Maximum length of content allowed on events
    */
   maxLength?: number
+  /**
+   * Whether maxLength counts characters (UTF-16 code units) or UTF-8 bytes. Defaults to characters
+   */
+  unit?: 'characters' | 'bytes'
+}
+
+export interface SizeLimits {
+  description?: string
+  kinds?: (EventKinds | EventKindsRange)[]
+  /**
+   * Maximum number of bytes of the JSON-serialized event
+   */
+  maxBytes?: number
+}
+
+export interface TagLimits {
+  description?: string
+  /**
+   * Event kinds this limit overrides the default limit for
+   */
+  kinds?: (EventKinds | EventKindsRange)[]
+  /**
+   * Maximum number of tags allowed on events
+   */
+  maxTags?: number
+  /**
+   * Maximum number of characters allowed on each tag value
+   */
+  maxTagValueLength?: number
+  /**
+   * Tag names ignored by this limit
+   */
+  whitelist?: string[]
 }
 
 export interface EventWhitelists {
@@ -69,14 +153,24 @@ export interface EventWhitelists {
   ipAddresses?: string[]
 }
 
+export interface DelegationLimits {
+  /**
+   * Apply event rate limits and pubkey whitelists/blacklists to the delegator of delegated events too
+   */
+  applyLimitsToDelegator?: boolean
+}
+
 export interface EventLimits {
   eventId?: EventIdLimits
   pubkey?: PubkeyLimits
   kind?: KindLimits
   createdAt?: CreatedAtLimits
   content?: ContentLimits | ContentLimits[]
+  size?: SizeLimits[]
+  tags?: TagLimits[]
   rateLimits?: EventRateLimit[]
   whitelists?: EventWhitelists
+  delegation?: DelegationLimits
 }
 
 export interface ClientSubscriptionLimits {
@@ -86,10 +180,26 @@ export interface ClientSubscriptionLimits {
   maxLimit?: number
   minPrefixLength?: number
   maxSubscriptionIdLength?: number
+  /**
+   * Event kinds only delivered to clients authenticated (NIP-42) as their author or a p-tagged recipient
+   */
+  protectedKinds?: (EventKinds | EventKindsRange)[]
+}
+
+export interface ClientBackpressureLimits {
+  /**
+   * Number of bytes buffered for a client above which historical event streams are paused
+   */
+  highWaterMark?: number
+  /**
+   * Milliseconds a client may stay above the high-water mark before being disconnected
+   */
+  slowClientTimeout?: number
 }
 
 export interface ClientLimits {
   subscription?: ClientSubscriptionLimits
+  backpressure?: ClientBackpressureLimits
 }
 
 export interface MessageRateLimit extends RateLimit {
@@ -135,15 +245,40 @@ export interface FeeSchedule {
   whitelists?: FeeScheduleWhitelists
 }
 
+export interface AdmissionFeeSchedule extends FeeSchedule {
+  /**
+   * Number of seconds admission lasts. Admission is permanent if omitted.
+   */
+  duration?: number
+}
+
+export interface PublicationFeeSchedule extends FeeSchedule {
+  kinds?: (EventKinds | EventKindsRange)[]
+  amountPerByte?: bigint
+}
+
 export interface FeeSchedules {
-  admission: FeeSchedule[]
-  publication: FeeSchedule[]
+  admission: AdmissionFeeSchedule[]
+  publication: PublicationFeeSchedule[]
+}
+
+export interface TopUp {
+  enabled: boolean
+  /**
+   * Minimum top-up amount in msats
+   */
+  minAmount?: bigint
+  /**
+   * Maximum top-up amount in msats
+   */
+  maxAmount?: bigint
 }
 
 export interface Payments {
   enabled: boolean
   processor: keyof PaymentsProcessors
   feeSchedules: FeeSchedules
+  topUp?: TopUp
 }
 
 export interface LnurlPaymentsProcessor {
@@ -185,12 +320,58 @@ export interface Mirroring {
   static?: Mirror[]
 }
 
+export interface ExpiredEventsPurge {
+  enabled: boolean
+  /**
+   * Maximum number of expired events deleted per query
+   */
+  batchSize?: number
+  /**
+   * Number of milliseconds between purges
+   */
+  interval?: number
+}
+
+export interface BalanceReconciliation {
+  enabled: boolean
+  /**
+   * Number of milliseconds between reconciliations
+   */
+  interval?: number
+}
+
+export interface AdmissionExpiryReminders {
+  enabled: boolean
+  /**
+   * Number of milliseconds between checks for expiring admissions
+   */
+  interval?: number
+  /**
+   * Number of seconds before admission expires to send a reminder
+   */
+  notice?: number
+}
+
+export interface Maintenance {
+  purgeExpiredEvents?: ExpiredEventsPurge
+  reconcileBalances?: BalanceReconciliation
+  admissionExpiryReminders?: AdmissionExpiryReminders
+}
+
+export interface Admin {
+  pubkeys: Pubkey[]
+  banReportedPubkeys?: boolean
+}
+
 export interface Settings {
   info: Info
+  admin?: Admin
   payments?: Payments
   paymentsProcessors?: PaymentsProcessors
   network: Network
+  authentication?: Authentication
   workers?: Worker
   limits?: Limits
   mirroring?: Mirroring
+  maintenance?: Maintenance
 }
@@ -3,6 +3,11 @@ import { Pubkey } from './base'
 export interface User {
   pubkey: Pubkey
   isAdmitted: boolean
+  /**
+   * Admission expires at this date unless null
+   */
+  admittedUntil?: Date | null
+  admissionRemindedAt?: Date | null
   balance: bigint
   tosAcceptedAt?: Date | null
   createdAt: Date
@@ -12,6 +17,8 @@ export interface User {
 export interface DBUser {
   pubkey: Buffer
   is_admitted: boolean
+  admitted_until: Date | null
+  admission_reminded_at: Date | null
   balance: bigint
   created_at: Date
   updated_at: Date
@@ -64,6 +64,18 @@ export class RedisAdapter implements ICacheAdapter {
     return 'OK' === await this.client.set(key, value)
   }
 
+  public async setKeyIfNotExists(key: string, value: string, expiry: number): Promise<boolean> {
+    await this.connection
+    debug('set %s key if not exists, expiring in %d seconds', key, expiry)
+    return 'OK' === await this.client.set(key, value, { NX: true, EX: expiry })
+  }
+
+  public async deleteKey(key: string): Promise<number> {
+    await this.connection
+    debug('delete %s key', key)
+    return this.client.del(key)
+  }
+
   public async removeRangeByScoreFromSortedSet(key: string, min: number, max: number): Promise<number> {
     await this.connection
     debug('remove %d..%d range from sorted set %s', min, max, key)
@@ -1,14 +1,23 @@
 import cluster from 'cluster'
 import { EventEmitter } from 'stream'
 import { IncomingMessage as IncomingHttpMessage } from 'http'
+import { randomBytes } from 'crypto'
 import { WebSocket } from 'ws'
 
-import { ContextMetadata, Factory } from '../@types/base'
-import { createNoticeMessage, createOutgoingEventMessage } from '../utils/messages'
+import { ContextMetadata, Factory, Pubkey } from '../@types/base'
+import {
+  createAuthChallengeMessage,
+  createClosedMessage,
+  createCommandResult,
+  createNoticeMessage,
+  createOutgoingEventMessage,
+} from '../utils/messages'
 import { IAbortable, IMessageHandler } from '../@types/message-handlers'
-import { IncomingMessage, OutgoingMessage } from '../@types/messages'
+import { IncomingMessage, MessageType, OutgoingMessage } from '../@types/messages'
+import { isEventAccessible, isEventMatchingFilter } from '../utils/event'
 import { IWebSocketAdapter, IWebSocketServerAdapter } from '../@types/adapters'
 import { SubscriptionFilter, SubscriptionId } from '../@types/subscription'
+import { subscriptionsClosedCounter, subscriptionsOpenedCounter } from '../utils/metrics'
 import { WebSocketAdapterEvent, WebSocketServerAdapterEvent } from '../constants/adapter'
 import { attemptValidation } from '../utils/validation'
 import { ContextMetadataKey } from '../constants/base'
@@ -16,7 +25,6 @@ import { createLogger } from '../factories/logger-factory'
 import { Event } from '../@types/event'
 import { getRemoteAddress } from '../utils/http'
 import { IRateLimiter } from '../@types/utils'
-import { isEventMatchingFilter } from '../utils/event'
 import { messageSchema } from '../schemas/message-schema'
 import { Settings } from '../@types/settings'
 import { SocketAddress } from 'net'
@@ -27,11 +35,17 @@ const debugHeartbeat = debug.extend('heartbeat')
 
 const abortableMessageHandlers: WeakMap<WebSocket, IAbortable[]> = new WeakMap()
 
+const DEFAULT_HIGH_WATER_MARK = 1048576
+const DEFAULT_SLOW_CLIENT_TIMEOUT = 30000
+
 export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter {
   public clientId: string
   private clientAddress: SocketAddress
   private alive: boolean
   private subscriptions: Map<SubscriptionId, SubscriptionFilter[]>
+  private authChallenge: string
+  private authenticatedPubkeys: Set<Pubkey>
+  private slowClientTimer: NodeJS.Timeout | undefined
 
   public constructor(
     private readonly client: WebSocket,
@@ -44,6 +58,8 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
     super()
     this.alive = true
     this.subscriptions = new Map()
+    this.authChallenge = randomBytes(16).toString('hex')
+    this.authenticatedPubkeys = new Set()
 
     this.clientId = Buffer.from(this.request.headers['sec-websocket-key'] as string, 'base64').toString('hex')
 
@@ -78,8 +94,13 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
       .on(WebSocketAdapterEvent.Event, this.onSendEvent.bind(this))
       .on(WebSocketAdapterEvent.Broadcast, this.onBroadcast.bind(this))
       .on(WebSocketAdapterEvent.Message, this.sendMessage.bind(this))
+      .on(WebSocketAdapterEvent.Authenticate, this.onAuthenticated.bind(this))
 
     debug('client %s connected from %s', this.clientId, this.clientAddress.address)
+
+    if (this.settings().authentication?.enabled) {
+      this.sendMessage(createAuthChallengeMessage(this.authChallenge))
+    }
   }
 
   public getClientId(): string {
@@ -92,12 +113,30 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
 
   public onUnsubscribed(subscriptionId: string): void {
     debug('client %s unsubscribed %s', this.clientId, subscriptionId)
-    this.subscriptions.delete(subscriptionId)
+    if (this.subscriptions.delete(subscriptionId)) {
+      subscriptionsClosedCounter.inc()
+    }
   }
 
   public onSubscribed(subscriptionId: string, filters: SubscriptionFilter[]): void {
     debug('client %s subscribed %s to %o', this.clientId, subscriptionId, filters)
+    if (this.subscriptions.has(subscriptionId)) {
+      subscriptionsClosedCounter.inc()
+    }
     this.subscriptions.set(subscriptionId, filters)
+    subscriptionsOpenedCounter.inc()
+  }
+
+  public getAuthChallenge(): string {
+    return this.authChallenge
+  }
+
+  public getAuthenticatedPubkeys(): Set<Pubkey> {
+    return new Set(this.authenticatedPubkeys)
+  }
+
+  public onAuthenticated(pubkey: Pubkey): void {
+    this.authenticatedPubkeys.add(pubkey)
   }
 
   public onBroadcast(event: Event): void {
@@ -111,6 +150,11 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
   }
 
   public onSendEvent(event: Event): void {
+    const protectedKinds = this.settings().limits?.client?.subscription?.protectedKinds ?? []
+    if (!isEventAccessible(protectedKinds, Array.from(this.authenticatedPubkeys))(event)) {
+      return
+    }
+
     this.subscriptions.forEach((filters, subscriptionId) => {
       if (
         filters.map(isEventMatchingFilter).some((isMatch) => isMatch(event))
@@ -121,11 +165,43 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
     })
   }
 
+  public hasBackpressure(): boolean {
+    const highWaterMark = this.settings().limits?.client?.backpressure?.highWaterMark ?? DEFAULT_HIGH_WATER_MARK
+
+    return highWaterMark > 0 && this.client.bufferedAmount > highWaterMark
+  }
+
   private sendMessage(message: OutgoingMessage): void {
     if (this.client.readyState !== WebSocket.OPEN) {
       return
     }
     this.client.send(JSON.stringify(message))
+
+    this.watchSlowClient()
+  }
+
+  private watchSlowClient(): void {
+    const slowClientTimeout = this.settings().limits?.client?.backpressure?.slowClientTimeout
+      ?? DEFAULT_SLOW_CLIENT_TIMEOUT
+    if (this.slowClientTimer || slowClientTimeout <= 0 || !this.hasBackpressure()) {
+      return
+    }
+
+    debug('client %s is slow: %d bytes buffered', this.clientId, this.client.bufferedAmount)
+
+    this.slowClientTimer = setTimeout(() => {
+      this.slowClientTimer = undefined
+      if (!this.hasBackpressure() || this.client.readyState !== WebSocket.OPEN) {
+        return
+      }
+
+      console.error(
+        `web-socket-adapter: disconnecting slow client ${this.clientId} (${this.getClientAddress()}):`,
+        `${this.client.bufferedAmount} bytes buffered for more than ${slowClientTimeout} ms`,
+      )
+      this.client.send(JSON.stringify(createNoticeMessage('error: disconnected for reading too slowly')))
+      this.client.close()
+    }, slowClientTimeout)
   }
 
   public onHeartbeat(): void {
@@ -150,7 +226,7 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
     let messageHandler: IMessageHandler & IAbortable | undefined = undefined
     try {
       if (await this.isRateLimited(this.clientAddress.address)) {
-        this.sendMessage(createNoticeMessage('rate limited'))
+        this.sendMessage(createNoticeMessage('rate-limited: slow down'))
         return
       }
 
@@ -160,6 +236,12 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
         remoteAddress: this.clientAddress,
       } as ContextMetadata
 
+      if (this.isAuthenticationRequired(message)) {
+        debug('client %s (%s) not authenticated: %s', this.clientId, this.getClientAddress(), message[0])
+        this.sendMessage(this.createAuthRequiredMessage(message))
+        return
+      }
+
       messageHandler = this.createMessageHandler([message, this]) as IMessageHandler & IAbortable
       if (!messageHandler) {
         console.error('web-socket-adapter: unhandled message: no handler found:', message)
@@ -205,6 +287,28 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
     }
   }
 
+  private isAuthenticationRequired(message: IncomingMessage): boolean {
+    const { enabled = false, required = false } = this.settings().authentication ?? {}
+
+    return enabled
+      && required
+      && message[0] !== MessageType.AUTH
+      && !this.authenticatedPubkeys.size
+  }
+
+  private createAuthRequiredMessage(message: IncomingMessage): OutgoingMessage {
+    const reason = 'auth-required: authentication required'
+    switch (message[0]) {
+      case MessageType.EVENT:
+        return createCommandResult(message[1].id, false, reason)
+      case MessageType.REQ:
+      case MessageType.COUNT:
+        return createClosedMessage(message[1], reason)
+      default:
+        return createNoticeMessage(reason)
+    }
+  }
+
   private async isRateLimited(client: string): Promise<boolean> {
     const {
       rateLimits,
@@ -252,10 +356,19 @@ export class WebSocketAdapter extends EventEmitter implements IWebSocketAdapter
 
   private onClientClose() {
     this.alive = false
+    if (this.subscriptions.size) {
+      subscriptionsClosedCounter.inc({}, this.subscriptions.size)
+    }
     this.subscriptions.clear()
 
+    if (this.slowClientTimer) {
+      clearTimeout(this.slowClientTimer)
+      this.slowClientTimer = undefined
+    }
+
     const handlers = abortableMessageHandlers.get(this.client)
     if (Array.isArray(handlers) && handlers.length) {
+      debug('client %s closed: aborting %d message handlers', this.clientId, handlers.length)
       for (const handler of handlers) {
         try {
           handler.abort()
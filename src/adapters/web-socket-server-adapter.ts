@@ -4,13 +4,16 @@ import { propEq } from 'ramda'
 
 import { IWebSocketAdapter, IWebSocketServerAdapter } from '../@types/adapters'
 import { WebSocketAdapterEvent, WebSocketServerAdapterEvent } from '../constants/adapter'
+import { Ban } from '../@types/ban'
 import { createLogger } from '../factories/logger-factory'
 import { Event } from '../@types/event'
 import { Factory } from '../@types/base'
 import { getRemoteAddress } from '../utils/http'
+import { IBanService } from '../@types/services'
 import { isRateLimited } from '../handlers/request-handlers/rate-limiter-middleware'
 import { Settings } from '../@types/settings'
 import { WebServerAdapter } from './web-server-adapter'
+import { webSocketConnectionsGauge } from '../utils/metrics'
 
 const debug = createLogger('web-socket-server-adapter')
 
@@ -29,6 +32,7 @@ export class WebSocketServerAdapter extends WebServerAdapter implements IWebSock
       [WebSocket, IncomingMessage, IWebSocketServerAdapter]
     >,
     private readonly settings: () => Settings,
+    private readonly banService: Factory<IBanService>,
   ) {
     debug('created')
     super(webServer)
@@ -98,7 +102,30 @@ export class WebSocketServerAdapter extends WebServerAdapter implements IWebSock
       return
     }
 
+    let ban: Ban | undefined
+    try {
+      ban = await this.banService().getIpAddressBan(remoteAddress)
+    } catch (error) {
+      // Refuse connections we can't vouch for rather than let banned clients in
+      console.error(`web-socket-server-adapter: unable to check ban for ${remoteAddress}:`, error)
+      client.terminate()
+      return
+    }
+
+    if (ban) {
+      debug('client %s terminated: banned: %s', remoteAddress, ban.reason)
+      client.terminate()
+      return
+    }
+
     this.webSocketsAdapters.set(client, this.createWebSocketAdapter([client, req, this]))
+
+    this.updateConnectionsGauge()
+    client.once('close', this.updateConnectionsGauge.bind(this))
+  }
+
+  private updateConnectionsGauge() {
+    webSocketConnectionsGauge.set({ worker: process.pid.toString() }, this.getConnectedClients())
   }
 
   private onHeartbeat() {
@@ -3,9 +3,12 @@ import { cpus, hostname } from 'os'
 import { path, pathEq } from 'ramda'
 import { FSWatcher } from 'fs'
 
+import { MetricsMessage, MetricSnapshot } from '../@types/metrics'
 import { addOnion } from '../tor/client'
 import { createLogger } from '../factories/logger-factory'
 import { IRunnable } from '../@types/base'
+import { mergeMetricSnapshots } from '../utils/metrics'
+import { MetricsEvent } from '../constants/metrics'
 import packageJson from '../../package.json'
 import { Serializable } from 'child_process'
 import { Settings } from '../@types/settings'
@@ -13,9 +16,12 @@ import { SettingsStatic } from '../utils/settings'
 
 const debug = createLogger('app-primary')
 
+const METRICS_COLLECTION_TIMEOUT = 1000
+
 export class App implements IRunnable {
   private workers: WeakMap<Worker, Record<string, string>>
   private watchers: FSWatcher[] | undefined
+  private metricsReports: Map<string, (metrics: MetricSnapshot[]) => void>
 
   public constructor(
     private readonly process: NodeJS.Process,
@@ -25,6 +31,7 @@ export class App implements IRunnable {
     debug('starting')
 
     this.workers = new WeakMap()
+    this.metricsReports = new Map()
 
     this.cluster
       .on('message', this.onClusterMessage.bind(this))
@@ -116,6 +123,15 @@ export class App implements IRunnable {
   }
 
   private onClusterMessage(source: Worker, message: Serializable) {
+    switch (path(['eventName'], message)) {
+      case MetricsEvent.Request:
+        this.onMetricsRequest(source, message as unknown as MetricsMessage)
+        return
+      case MetricsEvent.Report:
+        this.onMetricsReport(message as unknown as MetricsMessage)
+        return
+    }
+
     debug('message received from worker %s: %o', source.process.pid, message)
     for (const worker of Object.values(this.cluster.workers as any) as Worker[]) {
       if (source.id === worker.id) {
@@ -127,6 +143,45 @@ export class App implements IRunnable {
     }
   }
 
+  private onMetricsRequest(source: Worker, { requestId }: MetricsMessage) {
+    debug('metrics requested by worker %s', source.process.pid)
+    const workers = Object.values(this.cluster.workers ?? {}).filter(Boolean) as Worker[]
+    const reports: MetricSnapshot[][] = []
+
+    const respond = () => {
+      clearTimeout(timeout)
+      this.metricsReports.delete(requestId)
+      if (!source.isConnected()) {
+        return
+      }
+      const response: MetricsMessage = {
+        eventName: MetricsEvent.Response,
+        requestId,
+        metrics: mergeMetricSnapshots(reports),
+      }
+      source.send(response)
+    }
+
+    // Respond with partial metrics if a worker is busy or dead
+    const timeout = setTimeout(respond, METRICS_COLLECTION_TIMEOUT)
+
+    this.metricsReports.set(requestId, (metrics) => {
+      reports.push(metrics)
+      if (reports.length >= workers.length) {
+        respond()
+      }
+    })
+
+    const collect: MetricsMessage = { eventName: MetricsEvent.Collect, requestId }
+    for (const worker of workers) {
+      worker.send(collect)
+    }
+  }
+
+  private onMetricsReport({ requestId, metrics }: MetricsMessage) {
+    this.metricsReports.get(requestId)?.(metrics ?? [])
+  }
+
   private onClusterExit(deadWorker: Worker, code: number, signal: string)  {
     debug('worker %s died', deadWorker.process.pid)
 
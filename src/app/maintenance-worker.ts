@@ -1,25 +1,41 @@
+import { IEventRepository, ILedgerRepository } from '../@types/repositories'
 import { mergeDeepLeft, path, pipe } from 'ramda'
 import { IRunnable } from '../@types/base'
 
+import { Invoice, InvoiceStatus } from '../@types/invoice'
 import { createLogger } from '../factories/logger-factory'
 import { delayMs } from '../utils/misc'
-import { InvoiceStatus } from '../@types/invoice'
+import { handleMetricsMessage } from '../utils/metrics'
 import { IPaymentsService } from '../@types/services'
 import { Settings } from '../@types/settings'
+import { toInvoiceStatus } from '../utils/transform'
 
 const UPDATE_INVOICE_INTERVAL = 60000
+const PURGE_EXPIRED_EVENTS_INTERVAL = 300000
+const PURGE_EXPIRED_EVENTS_BATCH_SIZE = 1000
+const RECONCILE_BALANCES_INTERVAL = 3600000
+const ADMISSION_EXPIRY_REMINDERS_INTERVAL = 3600000
+const ADMISSION_EXPIRY_REMINDERS_NOTICE = 259200
+const PENDING_INVOICES_BATCH_SIZE = 10
 
 const debug = createLogger('maintenance-worker')
 
 export class MaintenanceWorker implements IRunnable {
   private interval: NodeJS.Timer | undefined
+  private purgeInterval: NodeJS.Timer | undefined
+  private reconcileInterval: NodeJS.Timer | undefined
+  private remindInterval: NodeJS.Timer | undefined
+  private isUpdatingInvoices = false
 
   public constructor(
     private readonly process: NodeJS.Process,
     private readonly paymentsService: IPaymentsService,
+    private readonly eventRepository: IEventRepository,
+    private readonly ledgerRepository: ILedgerRepository,
     private readonly settings: () => Settings,
   ) {
     this.process
+      .on('message', this.onMessage.bind(this))
       .on('SIGINT', this.onExit.bind(this))
       .on('SIGHUP', this.onExit.bind(this))
       .on('SIGTERM', this.onExit.bind(this))
@@ -29,6 +45,93 @@ export class MaintenanceWorker implements IRunnable {
 
   public run(): void {
     this.interval = setInterval(() => this.onSchedule(), UPDATE_INVOICE_INTERVAL)
+
+    const purgeInterval = this.settings().maintenance?.purgeExpiredEvents?.interval ?? PURGE_EXPIRED_EVENTS_INTERVAL
+    this.purgeInterval = setInterval(() => this.purgeExpiredEvents(), purgeInterval)
+
+    const reconcileInterval = this.settings().maintenance?.reconcileBalances?.interval ?? RECONCILE_BALANCES_INTERVAL
+    this.reconcileInterval = setInterval(() => this.reconcileBalances(), reconcileInterval)
+
+    const remindInterval = this.settings().maintenance?.admissionExpiryReminders?.interval
+      ?? ADMISSION_EXPIRY_REMINDERS_INTERVAL
+    this.remindInterval = setInterval(() => this.sendAdmissionExpiryReminders(), remindInterval)
+  }
+
+  private onMessage(message: { eventName: string }): void {
+    handleMetricsMessage(this.process, message)
+  }
+
+  private async purgeExpiredEvents(): Promise<void> {
+    const {
+      enabled = true,
+      batchSize = PURGE_EXPIRED_EVENTS_BATCH_SIZE,
+    } = this.settings().maintenance?.purgeExpiredEvents ?? {}
+
+    if (!enabled) {
+      return
+    }
+
+    let purged = 0
+    try {
+      let deleted: number
+      do {
+        deleted = await this.eventRepository.deleteExpiredEvents(batchSize)
+        purged += deleted
+        if (deleted >= batchSize) {
+          await delayMs(100)
+        }
+      } while (deleted >= batchSize)
+    } catch (error) {
+      console.error('Unable to purge expired events. Reason:', error)
+    }
+
+    debug('purged %d expired events', purged)
+  }
+
+  private async reconcileBalances(): Promise<void> {
+    const { enabled = true } = this.settings().maintenance?.reconcileBalances ?? {}
+
+    if (!enabled) {
+      return
+    }
+
+    try {
+      const mismatches = await this.ledgerRepository.findBalanceMismatches()
+      for (const { pubkey, balance, ledgerBalance } of mismatches) {
+        console.warn(
+          `Balance of ${pubkey} does not match its ledger: balance ${balance} msats, ledger ${ledgerBalance} msats`,
+        )
+      }
+
+      debug('reconciled balances: %d mismatches', mismatches.length)
+    } catch (error) {
+      console.error('Unable to reconcile balances. Reason:', error)
+    }
+  }
+
+  private async sendAdmissionExpiryReminders(): Promise<void> {
+    const currentSettings = this.settings()
+    const {
+      enabled = true,
+      notice = ADMISSION_EXPIRY_REMINDERS_NOTICE,
+    } = currentSettings.maintenance?.admissionExpiryReminders ?? {}
+
+    if (!enabled || !path(['payments', 'enabled'], currentSettings)) {
+      return
+    }
+
+    let reminded = 0
+    try {
+      const users = await this.paymentsService.getUsersWithExpiringAdmission(new Date(Date.now() + notice * 1000))
+      for (const user of users) {
+        await this.paymentsService.sendAdmissionExpiryReminder(user)
+        reminded++
+      }
+    } catch (error) {
+      console.error('Unable to send admission expiry reminders. Reason:', error)
+    }
+
+    debug('sent %d admission expiry reminders', reminded)
   }
 
   private async onSchedule(): Promise<void> {
@@ -38,46 +141,93 @@ export class MaintenanceWorker implements IRunnable {
       return
     }
 
-    const invoices = await this.paymentsService.getPendingInvoices()
-    debug('found %d pending invoices', invoices.length)
+    // Skip if the previous run is still paginating through pending invoices
+    if (this.isUpdatingInvoices) {
+      return
+    }
+
+    this.isUpdatingInvoices = true
+    try {
+      await this.updatePendingInvoices()
+    } finally {
+      this.isUpdatingInvoices = false
+    }
+  }
+
+  private async updatePendingInvoices(): Promise<void> {
     const delay = () => delayMs(100 + Math.floor(Math.random() * 10))
 
-    let successful = 0
+    // Invoices that are no longer pending drop out of the next page
+    let offset = 0
+    let invoices: Invoice[]
+    do {
+      invoices = await this.paymentsService.getPendingInvoices(offset, PENDING_INVOICES_BATCH_SIZE)
+      debug('found %d pending invoices at offset %d', invoices.length, offset)
 
-    for (const invoice of invoices) {
-      debug('invoice %s: %o', invoice.id, invoice)
-      try {
-        debug('getting invoice %s from payment processor: %o', invoice.id, invoice)
-        const updatedInvoice = await this.paymentsService.getInvoiceFromPaymentsProcessor(invoice)
-        await delay()
-        debug('updating invoice status %s: %o', updatedInvoice.id, updatedInvoice)
-        await this.paymentsService.updateInvoiceStatus(updatedInvoice)
-
-        if (
-          invoice.status !== updatedInvoice.status
-          && updatedInvoice.status == InvoiceStatus.COMPLETED
-          && updatedInvoice.confirmedAt
-        ) {
-          debug('confirming invoice %s & notifying %s', invoice.id, invoice.pubkey)
-
-          const update = pipe(
-            mergeDeepLeft(updatedInvoice),
-            mergeDeepLeft({ amountPaid: invoice.amountRequested }),
-          )(invoice)
-
-          await Promise.all([
-            this.paymentsService.confirmInvoice(update),
-            this.paymentsService.sendInvoiceUpdateNotification(update),
-          ])
-
-          await delay()
+      for (const invoice of invoices) {
+        const status = await this.updateInvoice(invoice, delay)
+        if (status === InvoiceStatus.PENDING) {
+          offset++
         }
-        successful++
-      } catch (error) {
-        console.error('Unable to update invoice from payment processor. Reason:', error)
       }
+    } while (invoices.length >= PENDING_INVOICES_BATCH_SIZE)
+  }
+
+  /**
+   * Returns the status of the invoice after the update
+   */
+  private async updateInvoice(invoice: Invoice, delay: () => Promise<void>): Promise<InvoiceStatus> {
+    debug('invoice %s: %o', invoice.id, invoice)
+    const isExpired = Boolean(invoice.expiresAt && invoice.expiresAt.getTime() <= Date.now())
+    try {
+      debug('getting invoice %s from payment processor: %o', invoice.id, invoice)
+      const updatedInvoice: Partial<Invoice> = await this.paymentsService.getInvoiceFromPaymentsProcessor(invoice)
+        .catch((error) => {
+          if (!isExpired) {
+            throw error
+          }
+          // Expired invoices can no longer be paid so we expire them regardless
+          console.error(`Unable to get expired invoice ${invoice.id} from payment processor. Reason:`, error)
+
+          return { id: invoice.id, status: InvoiceStatus.PENDING }
+        })
+      await delay()
+
+      updatedInvoice.status = toInvoiceStatus(updatedInvoice.status)
+
+      if (isExpired && updatedInvoice.status === InvoiceStatus.PENDING) {
+        debug('invoice %s expired at %s', invoice.id, invoice.expiresAt)
+        updatedInvoice.status = InvoiceStatus.EXPIRED
+      }
+
+      debug('updating invoice status %s: %o', updatedInvoice.id, updatedInvoice)
+      await this.paymentsService.updateInvoiceStatus(updatedInvoice)
+
+      if (
+        invoice.status !== updatedInvoice.status
+        && updatedInvoice.status == InvoiceStatus.COMPLETED
+        && updatedInvoice.confirmedAt
+      ) {
+        debug('confirming invoice %s & notifying %s', invoice.id, invoice.pubkey)
+
+        const update = pipe(
+          mergeDeepLeft(updatedInvoice),
+          mergeDeepLeft({ amountPaid: invoice.amountRequested }),
+        )(invoice)
+
+        await Promise.all([
+          this.paymentsService.confirmInvoice(update),
+          this.paymentsService.sendInvoiceUpdateNotification(update),
+        ])
+
+        await delay()
+      }
+
+      return updatedInvoice.status
+    } catch (error) {
+      console.error('Unable to update invoice from payment processor. Reason:', error)
 
-      debug('updated %d of %d invoices successfully', successful, invoices.length)
+      return invoice.status
     }
   }
 
@@ -96,6 +246,9 @@ export class MaintenanceWorker implements IRunnable {
   public close(callback?: () => void) {
     debug('closing')
     clearInterval(this.interval)
+    clearInterval(this.purgeInterval)
+    clearInterval(this.reconcileInterval)
+    clearInterval(this.remindInterval)
     if (typeof callback === 'function') {
       callback()
     }
@@ -7,6 +7,8 @@ import { createRelayedEventMessage, createSubscriptionMessage } from '../utils/m
 import { isEventIdValid, isEventMatchingFilter, isEventSignatureValid } from '../utils/event'
 import { Mirror, Settings } from '../@types/settings'
 import { createLogger } from '../factories/logger-factory'
+import { handleMetricsMessage } from '../utils/metrics'
+import { IEventRepository } from '../@types/repositories'
 import { IRunnable } from '../@types/base'
 import { OutgoingEventMessage } from '../@types/messages'
 import { RelayedEvent } from '../@types/event'
@@ -20,6 +22,7 @@ export class StaticMirroringWorker implements IRunnable {
 
   public constructor(
     private readonly process: NodeJS.Process,
+    private readonly eventRepository: IEventRepository,
     private readonly settings: () => Settings,
   ) {
     this.process
@@ -40,6 +43,8 @@ export class StaticMirroringWorker implements IRunnable {
 
     let since = Math.floor(Date.now() / 1000) - 60*10
 
+    const eventRepository = this.eventRepository
+
     const createMirror = (config: Mirror) => {
       const subscriptionId = `mirror-${randomUUID()}`
 
@@ -80,6 +85,11 @@ export class StaticMirroringWorker implements IRunnable {
               return
             }
 
+            if (await eventRepository.isDeleted(event.id, event.pubkey)) {
+              debug('%s >> local: %s skipped: deleted', config.address, event.id)
+              return
+            }
+
             since = Math.floor(Date.now() / 1000) - 30
 
             if (cluster.isWorker && typeof process.send === 'function') {
@@ -111,6 +121,10 @@ export class StaticMirroringWorker implements IRunnable {
   }
 
   private onMessage(message: { eventName: string, event: unknown, source: string }): void {
+    if (handleMetricsMessage(this.process, message)) {
+      return
+    }
+
     if (
       message.eventName !== WebSocketServerAdapterEvent.Broadcast
       || message.source === this.config.address
@@ -3,6 +3,7 @@ import { IWebSocketServerAdapter } from '../@types/adapters'
 
 import { createLogger } from '../factories/logger-factory'
 import { FSWatcher } from 'fs'
+import { handleMetricsMessage } from '../utils/metrics'
 import { SettingsStatic } from '../utils/settings'
 
 const debug = createLogger('app-worker')
@@ -30,6 +31,10 @@ export class AppWorker implements IRunnable {
   }
 
   private onMessage(message: { eventName: string, event: unknown }): void {
+    if (handleMetricsMessage(this.process, message)) {
+      return
+    }
+
     this.adapter.emit(message.eventName, message.event)
   }
 
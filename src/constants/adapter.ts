@@ -4,7 +4,8 @@ export enum WebSocketAdapterEvent {
   Broadcast = 'broadcast',
   Subscribe = 'subscribe',
   Unsubscribe = 'unsubscribe',
-  Heartbeat = 'heartbeat'
+  Heartbeat = 'heartbeat',
+  Authenticate = 'authenticate',
 }
 
 export enum WebSocketServerAdapterEvent {
@@ -17,12 +17,20 @@ export enum EventKinds {
   // Relay-only
   RELAY_INVITE = 50,
   INVOICE_UPDATE = 402,
+  // Delegation
+  DELEGATION_REVOCATION = 1026,
+  // Moderation
+  REPORTING = 1984,
+  // Authentication
+  AUTH = 22242,
   // Replaceable events
   REPLACEABLE_FIRST = 10000,
   REPLACEABLE_LAST = 19999,
   // Ephemeral events
   EPHEMERAL_FIRST = 20000,
   EPHEMERAL_LAST = 29999,
+  // HTTP Auth
+  HTTP_AUTH = 27235,
   // Parameterized replaceable events
   PARAMETERIZED_REPLACEABLE_FIRST = 30000,
   PARAMETERIZED_REPLACEABLE_LAST = 39999,
@@ -34,9 +42,16 @@ export enum EventTags {
   Pubkey = 'p',
   //  Multicast = 'm',
   Delegation = 'delegation',
+  DelegationToken = 'token',
   Deduplication = 'd',
+  Address = 'a',
   Expiration = 'expiration',
   Invoice = 'bolt11',
+  Challenge = 'challenge',
+  Relay = 'relay',
+  Url = 'u',
+  Method = 'method',
+  Payload = 'payload',
 }
 
 export enum PaymentsProcessors {
@@ -0,0 +1,6 @@
+export enum MetricsEvent {
+  Request = 'metrics:request',
+  Collect = 'metrics:collect',
+  Report = 'metrics:report',
+  Response = 'metrics:response',
+}
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express'
+
+import { createLogger } from '../../factories/logger-factory'
+import { IBanService } from '../../@types/services'
+import { IController } from '../../@types/controllers'
+import { pubkeyParamsSchema } from '../../schemas/http-request-schemas'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('delete-ban-controller')
+
+export class DeleteBanController implements IController {
+  public constructor(
+    private readonly banService: IBanService,
+  ) {}
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    const { error } = validateSchema(pubkeyParamsSchema)(request.params)
+    if (error) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(error.message)
+      return
+    }
+
+    const { pubkey } = request.params
+
+    debug('%s unbans %s', response.locals.pubkey, pubkey)
+
+    await this.banService.unbanPubkey(pubkey)
+
+    response
+      .status(204)
+      .send()
+  }
+}
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express'
+
+import { createLogger } from '../../factories/logger-factory'
+import { eventIdParamsSchema } from '../../schemas/http-request-schemas'
+import { IController } from '../../@types/controllers'
+import { IEventRepository } from '../../@types/repositories'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('delete-event-controller')
+
+export class DeleteEventController implements IController {
+  public constructor(
+    private readonly eventRepository: IEventRepository,
+  ) {}
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    const { error } = validateSchema(eventIdParamsSchema)(request.params)
+    if (error) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(error.message)
+      return
+    }
+
+    const { eventId } = request.params
+
+    debug('%s deletes event %s', response.locals.pubkey, eventId)
+
+    const count = await this.eventRepository.deleteByIds([eventId])
+    if (!count) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Event not found')
+      return
+    }
+
+    response
+      .status(204)
+      .send()
+  }
+}
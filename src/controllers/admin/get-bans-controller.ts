@@ -0,0 +1,22 @@
+import { Request, Response } from 'express'
+
+import { IBanRepository } from '../../@types/repositories'
+import { IController } from '../../@types/controllers'
+
+export class GetBansController implements IController {
+  public constructor(
+    private readonly banRepository: IBanRepository,
+  ) {}
+
+  public async handleRequest(
+    _request: Request,
+    response: Response,
+  ): Promise<void> {
+    const bans = await this.banRepository.findActive()
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send(JSON.stringify(bans))
+  }
+}
@@ -0,0 +1,20 @@
+import { Request, Response } from 'express'
+
+import { collectMetrics, getWebSocketConnectionsByWorker } from '../../utils/metrics'
+import { IController } from '../../@types/controllers'
+
+export class GetConnectionsController implements IController {
+  public async handleRequest(
+    _request: Request,
+    response: Response,
+  ): Promise<void> {
+    // Workers report their connections through the primary
+    const workers = getWebSocketConnectionsByWorker(await collectMetrics(process))
+    const connections = Object.values(workers).reduce((sum, count) => sum + count, 0)
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send(JSON.stringify({ connections, workers }))
+  }
+}
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express'
+
+import { IController } from '../../@types/controllers'
+import { IInvoiceRepository } from '../../@types/repositories'
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 100
+
+const toNonNegativeInteger = (input: unknown, defaultValue: number): number => {
+  const value = Number(input)
+
+  return Number.isSafeInteger(value) && value >= 0 ? value : defaultValue
+}
+
+export class GetPendingInvoicesController implements IController {
+  public constructor(
+    private readonly invoiceRepository: IInvoiceRepository,
+  ) {}
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    const offset = toNonNegativeInteger(request.query.offset, 0)
+    const limit = Math.min(toNonNegativeInteger(request.query.limit, DEFAULT_LIMIT), MAX_LIMIT)
+
+    const invoices = await this.invoiceRepository.findPendingInvoices(offset, limit)
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send(JSON.stringify(
+        invoices.map((invoice) => ({
+          ...invoice,
+          amountRequested: invoice.amountRequested.toString(),
+          amountPaid: invoice.amountPaid?.toString(),
+        }))
+      ))
+  }
+}
@@ -0,0 +1,228 @@
+import { path, range } from 'ramda'
+import { Request, Response } from 'express'
+import Joi from 'joi'
+
+import { EventId, Pubkey } from '../../@types/base'
+import { EventKindsRange, Settings } from '../../@types/settings'
+import { IBanRepository, IEventRepository } from '../../@types/repositories'
+import { relayManagementParamsSchemas, relayManagementRequestSchema } from '../../schemas/http-request-schemas'
+import { createLogger } from '../../factories/logger-factory'
+import { Event } from '../../@types/event'
+import { EventKinds } from '../../constants/base'
+import { IBanService } from '../../@types/services'
+import { IController } from '../../@types/controllers'
+import { isEventKindOrRangeMatch } from '../../utils/event'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('post-relay-management-controller')
+
+type KindList = (EventKinds | EventKindsRange)[]
+
+type ReasonParams<T> = [T, string?]
+
+interface RelayManagementMethod {
+  params: Joi.Schema
+  execute(params: unknown[]): Promise<unknown>
+}
+
+type SettingsUpdate = (settings: Settings) => [string[], unknown]
+
+const PUBKEY_WHITELIST_PATH = ['limits', 'event', 'pubkey', 'whitelist']
+const PUBKEY_BLACKLIST_PATH = ['limits', 'event', 'pubkey', 'blacklist']
+const KIND_WHITELIST_PATH = ['limits', 'event', 'kind', 'whitelist']
+const KIND_BLACKLIST_PATH = ['limits', 'event', 'kind', 'blacklist']
+
+// An empty whitelist allows every kind
+const ALL_KINDS: KindList = [[0, 65535]]
+
+const hasKind = (kinds: KindList, kind: EventKinds) => kinds.some(isEventKindOrRangeMatch({ kind } as Event))
+
+const withoutKind = (kinds: KindList, kind: EventKinds): KindList =>
+  kinds.reduce((result, item) => {
+    if (typeof item === 'number') {
+      return item === kind ? result : [...result, item]
+    }
+
+    const [min, max] = item
+    if (kind < min || kind > max) {
+      return [...result, item]
+    }
+
+    const split: KindList = []
+    if (kind - 1 >= min) {
+      split.push(kind - 1 === min ? min : [min, kind - 1])
+    }
+    if (kind + 1 <= max) {
+      split.push(kind + 1 === max ? max : [kind + 1, max])
+    }
+
+    return [...result, ...split]
+  }, [] as KindList)
+
+const expandKinds = (kinds: KindList): number[] =>
+  kinds.flatMap((item) => typeof item === 'number' ? [item] : range(item[0], item[1] + 1))
+
+// Params only reach execute after validation against the schema, which guarantees their shape
+const defineMethod = <P extends unknown[]>(
+  params: Joi.Schema,
+  execute: (params: P) => Promise<unknown>,
+): RelayManagementMethod => ({
+  params,
+  execute: (validatedParams) => execute(validatedParams as P),
+})
+
+const settingsUpdate = <T>(settingsPath: string[], update: (value: T | undefined) => unknown): SettingsUpdate =>
+  (settings) => [settingsPath, update(path<T>(settingsPath, settings))]
+
+export class PostRelayManagementController implements IController {
+  private readonly methods: Record<string, RelayManagementMethod>
+
+  public constructor(
+    private readonly banService: IBanService,
+    private readonly banRepository: IBanRepository,
+    private readonly eventRepository: IEventRepository,
+    private readonly settings: () => Settings,
+    private readonly saveSettingsOverrides: (overrides: [string[], unknown][]) => void,
+  ) {
+    const { none, pubkeyAndReason, eventIdAndReason, ipAddressAndReason, kind, text } = relayManagementParamsSchemas
+
+    this.methods = {
+      supportedmethods: defineMethod<[]>(none, async () => Object.keys(this.methods)),
+      banpubkey: defineMethod<ReasonParams<Pubkey>>(pubkeyAndReason, async ([pubkey, reason]) => {
+        await this.banService.banPubkey(pubkey, reason || undefined)
+        return true
+      }),
+      listbannedpubkeys: defineMethod<[]>(none, async () => (await this.banRepository.findActive())
+        .filter((ban) => ban.pubkey)
+        .map(({ pubkey, reason }) => ({ pubkey, reason }))),
+      allowpubkey: defineMethod<ReasonParams<Pubkey>>(pubkeyAndReason, async ([pubkey]) => {
+        await this.banService.unbanPubkey(pubkey)
+        // Adding to an empty whitelist would block every other pubkey
+        this.updateSettings([
+          settingsUpdate<Pubkey[]>(PUBKEY_BLACKLIST_PATH, (blacklist = []) =>
+            blacklist.filter((prefix) => !pubkey.startsWith(prefix))),
+          settingsUpdate<Pubkey[]>(PUBKEY_WHITELIST_PATH, (whitelist = []) =>
+            !whitelist.length || whitelist.some((prefix) => pubkey.startsWith(prefix))
+              ? whitelist
+              : [...whitelist, pubkey]),
+        ])
+        return true
+      }),
+      listallowedpubkeys: defineMethod<[]>(none, async () =>
+        (path<Pubkey[]>(PUBKEY_WHITELIST_PATH, this.settings()) ?? []).map((pubkey) => ({ pubkey }))),
+      banevent: defineMethod<ReasonParams<EventId>>(eventIdAndReason, async ([eventId, reason]) => {
+        await this.banService.banEvent(eventId, reason || undefined)
+        await this.eventRepository.deleteByIds([eventId])
+        return true
+      }),
+      allowevent: defineMethod<ReasonParams<EventId>>(eventIdAndReason, async ([eventId]) => {
+        await this.banService.unbanEvent(eventId)
+        return true
+      }),
+      listbannedevents: defineMethod<[]>(none, async () => (await this.banRepository.findActive())
+        .filter((ban) => ban.eventId)
+        .map(({ eventId, reason }) => ({ id: eventId, reason }))),
+      allowkind: defineMethod<[EventKinds]>(kind, async ([kind]) => {
+        // Adding to an empty whitelist would block every other kind
+        this.updateSettings([
+          settingsUpdate<KindList>(KIND_BLACKLIST_PATH, (blacklist = []) => withoutKind(blacklist, kind)),
+          settingsUpdate<KindList>(KIND_WHITELIST_PATH, (whitelist = []) =>
+            !whitelist.length || hasKind(whitelist, kind) ? whitelist : [...whitelist, kind]),
+        ])
+        return true
+      }),
+      // The blacklist takes precedence, so the whitelist is left alone rather than emptied
+      disallowkind: defineMethod<[EventKinds]>(kind, async ([kind]) => {
+        this.updateSettings([
+          settingsUpdate<KindList>(KIND_BLACKLIST_PATH, (blacklist = []) =>
+            hasKind(blacklist, kind) ? blacklist : [...blacklist, kind]),
+        ])
+        return true
+      }),
+      listallowedkinds: defineMethod<[]>(none, async () => {
+        const whitelist = path<KindList>(KIND_WHITELIST_PATH, this.settings()) ?? []
+        const blacklist = path<KindList>(KIND_BLACKLIST_PATH, this.settings()) ?? []
+
+        return expandKinds(whitelist.length ? whitelist : ALL_KINDS)
+          .filter((kind) => !hasKind(blacklist, kind))
+      }),
+      blockip: defineMethod<ReasonParams<string>>(ipAddressAndReason, async ([ipAddress, reason]) => {
+        await this.banService.banIpAddress(ipAddress, reason || undefined)
+        return true
+      }),
+      unblockip: defineMethod<ReasonParams<string>>(ipAddressAndReason, async ([ipAddress]) => {
+        await this.banService.unbanIpAddress(ipAddress)
+        return true
+      }),
+      listblockedips: defineMethod<[]>(none, async () => (await this.banRepository.findActive())
+        .filter((ban) => ban.ipAddress)
+        .map(({ ipAddress, reason }) => ({ ip: ipAddress, reason }))),
+      changerelayname: defineMethod<[string]>(text, async ([name]) => {
+        this.updateSettings([settingsUpdate(['info', 'name'], () => name)])
+        return true
+      }),
+      changerelaydescription: defineMethod<[string]>(text, async ([description]) => {
+        this.updateSettings([settingsUpdate(['info', 'description'], () => description)])
+        return true
+      }),
+      changerelayicon: defineMethod<[string]>(text, async ([icon]) => {
+        this.updateSettings([settingsUpdate(['info', 'icon'], () => icon)])
+        return true
+      }),
+    }
+  }
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    let body: unknown
+    try {
+      body = JSON.parse(Buffer.isBuffer(request.body) ? request.body.toString('utf8') : '')
+    } catch (error) {
+      this.sendResponse(response, 400, { error: 'invalid request' })
+      return
+    }
+
+    const { error } = validateSchema(relayManagementRequestSchema)(body)
+    if (error) {
+      this.sendResponse(response, 400, { error: `invalid request: ${error.message}` })
+      return
+    }
+
+    const { method, params } = body as { method: string, params: unknown[] }
+
+    const relayManagementMethod = Object.prototype.hasOwnProperty.call(this.methods, method)
+      ? this.methods[method]
+      : undefined
+    if (!relayManagementMethod) {
+      this.sendResponse(response, 200, { error: `unsupported method: ${method}` })
+      return
+    }
+
+    const paramsError = validateSchema(relayManagementMethod.params)(params).error
+    if (paramsError) {
+      this.sendResponse(response, 200, { error: `invalid params: ${paramsError.message}` })
+      return
+    }
+
+    debug('%s calls %s with %o', response.locals.pubkey, method, params)
+
+    const result = await relayManagementMethod.execute(params)
+
+    this.sendResponse(response, 200, { result })
+  }
+
+  private updateSettings(updates: SettingsUpdate[]): void {
+    const currentSettings = this.settings()
+
+    this.saveSettingsOverrides(updates.map((update) => update(currentSettings)))
+  }
+
+  private sendResponse(response: Response, status: number, body: { result?: unknown, error?: string }): void {
+    response
+      .status(status)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send(JSON.stringify({ result: null, ...body }))
+  }
+}
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express'
+
+import { ILedgerRepository, IUserRepository } from '../../@types/repositories'
+import { pubkeyParamsSchema, userBalanceAdjustmentSchema } from '../../schemas/http-request-schemas'
+import { createLogger } from '../../factories/logger-factory'
+import { DatabaseClient } from '../../@types/base'
+import { IController } from '../../@types/controllers'
+import { LedgerEntryType } from '../../@types/ledger'
+import { Transaction } from '../../database/transaction'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('post-user-balance-controller')
+
+export class PostUserBalanceController implements IController {
+  public constructor(
+    private readonly dbClient: DatabaseClient,
+    private readonly userRepository: IUserRepository,
+    private readonly ledgerRepository: ILedgerRepository,
+  ) {}
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    const error = validateSchema(pubkeyParamsSchema)(request.params).error
+      ?? validateSchema(userBalanceAdjustmentSchema)(request.body ?? {}).error
+    if (error) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(error.message)
+      return
+    }
+
+    const { pubkey } = request.params
+    const amount = BigInt(request.body.amount)
+
+    const user = await this.userRepository.findByPubkey(pubkey)
+    if (!user) {
+      response
+        .status(404)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('User not found')
+      return
+    }
+
+    debug('%s adjusts balance of %s by %s', response.locals.pubkey, pubkey, amount)
+
+    const balance = await this.adjustBalance(pubkey, amount, response.locals.pubkey)
+    if (typeof balance === 'undefined') {
+      response
+        .status(409)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Insufficient balance')
+      return
+    }
+
+    response
+      .status(200)
+      .setHeader('content-type', 'application/json; charset=utf8')
+      .send(JSON.stringify({ pubkey, balance: balance.toString() }))
+  }
+
+  private async adjustBalance(pubkey: string, amount: bigint, adminPubkey: string): Promise<bigint | undefined> {
+    const transaction = new Transaction(this.dbClient)
+
+    try {
+      await transaction.begin()
+
+      const balance = await this.userRepository.adjustBalance(pubkey, amount, transaction.transaction)
+      if (typeof balance === 'undefined') {
+        await transaction.rollback()
+        return
+      }
+
+      await this.ledgerRepository.create(
+        {
+          pubkey,
+          type: LedgerEntryType.AdminAdjustment,
+          amount,
+          description: `Adjusted by ${adminPubkey}`,
+        },
+        transaction.transaction,
+      )
+
+      await transaction.commit()
+
+      return balance
+    } catch (error) {
+      console.error('Unable to adjust balance. Reason:', error)
+      await transaction.rollback()
+
+      throw error
+    }
+  }
+}
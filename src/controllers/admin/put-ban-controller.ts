@@ -0,0 +1,45 @@
+import { Request, Response } from 'express'
+
+import { banPubkeySchema, pubkeyParamsSchema } from '../../schemas/http-request-schemas'
+import { createLogger } from '../../factories/logger-factory'
+import { IBanService } from '../../@types/services'
+import { IController } from '../../@types/controllers'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('put-ban-controller')
+
+export class PutBanController implements IController {
+  public constructor(
+    private readonly banService: IBanService,
+  ) {}
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    const error = validateSchema(pubkeyParamsSchema)(request.params).error
+      ?? validateSchema(banPubkeySchema)(request.body ?? {}).error
+    if (error) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(error.message)
+      return
+    }
+
+    const { pubkey } = request.params
+    const { reason, expiresAt } = request.body ?? {}
+
+    debug('%s bans %s: %s', response.locals.pubkey, pubkey, reason)
+
+    await this.banService.banPubkey(
+      pubkey,
+      reason,
+      typeof expiresAt === 'number' ? new Date(expiresAt * 1000) : undefined,
+    )
+
+    response
+      .status(204)
+      .send()
+  }
+}
@@ -0,0 +1,47 @@
+import { Request, Response } from 'express'
+
+import { pubkeyParamsSchema, userAdmissionSchema } from '../../schemas/http-request-schemas'
+import { createLogger } from '../../factories/logger-factory'
+import { IController } from '../../@types/controllers'
+import { IUserRepository } from '../../@types/repositories'
+import { validateSchema } from '../../utils/validation'
+
+const debug = createLogger('put-user-admission-controller')
+
+export class PutUserAdmissionController implements IController {
+  public constructor(
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  public async handleRequest(
+    request: Request,
+    response: Response,
+  ): Promise<void> {
+    const error = validateSchema(pubkeyParamsSchema)(request.params).error
+      ?? validateSchema(userAdmissionSchema)(request.body ?? {}).error
+    if (error) {
+      response
+        .status(400)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send(error.message)
+      return
+    }
+
+    const { pubkey } = request.params
+    const { isAdmitted, admittedUntil } = request.body
+
+    debug('%s sets admission of %s to %s until %s', response.locals.pubkey, pubkey, isAdmitted, admittedUntil)
+
+    // Admission is permanent unless an expiry is given, replacing any earlier one
+    await this.userRepository.upsert({
+      pubkey,
+      isAdmitted,
+      admittedUntil: typeof admittedUntil === 'number' ? new Date(admittedUntil * 1000) : null,
+      admissionRemindedAt: null,
+    })
+
+    response
+      .status(204)
+      .send()
+  }
+}
@@ -2,6 +2,8 @@ import { Request, Response } from 'express'
 import { createLogger } from '../../factories/logger-factory'
 import { IController } from '../../@types/controllers'
 import { IInvoiceRepository } from '../../@types/repositories'
+import { InvoiceStatus } from '../../@types/invoice'
+import { toInvoiceStatus } from '../../utils/transform'
 
 const debug = createLogger('get-invoice-status-controller')
 
@@ -37,12 +39,22 @@ export class GetInvoiceStatusController implements IController {
         return
       }
 
+      // Pending invoices past their expiry are reported as expired before maintenance marks them
+      const storedStatus = toInvoiceStatus(invoice.status)
+      const status = storedStatus === InvoiceStatus.PENDING
+        && invoice.expiresAt
+        && invoice.expiresAt.getTime() <= Date.now()
+        ? InvoiceStatus.EXPIRED
+        : storedStatus
+
       response
         .status(200)
         .setHeader('content-type', 'application/json; charset=utf8')
         .send(JSON.stringify({
           id: invoice.id,
-          status: invoice.status,
+          status,
+          expiresAt: invoice.expiresAt?.toISOString() ?? null,
+          confirmedAt: invoice.confirmedAt?.toISOString() ?? null,
         }))
     } catch (error) {
       console.error(`get-invoice-status-controller: unable to get invoice ${invoiceId}:`, error)
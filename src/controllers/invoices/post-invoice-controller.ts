@@ -1,12 +1,12 @@
 import { FeeSchedule, Settings } from '../../@types/settings'
 import { fromBech32, toBech32 } from '../../utils/transform'
 import { getPublicKey, getRelayPrivateKey } from '../../utils/event'
+import { Invoice, InvoicePurpose } from '../../@types/invoice'
 import { Request, Response } from 'express'
 
 import { createLogger } from '../../factories/logger-factory'
 import { getRemoteAddress } from '../../utils/http'
 import { IController } from '../../@types/controllers'
-import { Invoice } from '../../@types/invoice'
 import { IPaymentsService } from '../../@types/services'
 import { IRateLimiter } from '../../@types/utils'
 import { IUserRepository } from '../../@types/repositories'
@@ -15,6 +15,8 @@ import { readFileSync } from 'fs'
 
 let pageCache: string
 
+const DEFAULT_MIN_TOP_UP_AMOUNT = 1000n
+
 const debug = createLogger('post-invoice-controller')
 
 export class PostInvoiceController implements IController {
@@ -68,8 +70,8 @@ export class PostInvoiceController implements IController {
       return
     }
 
-    const isAdmissionInvoice = request.body?.feeSchedule === 'admission'
-    if (!isAdmissionInvoice) {
+    const feeSchedule = request.body?.feeSchedule
+    if (feeSchedule !== 'admission' && feeSchedule !== 'topup') {
       response
         .status(400)
         .setHeader('content-type', 'text/plain; charset=utf8')
@@ -110,45 +112,95 @@ export class PostInvoiceController implements IController {
       return
     }
 
-    const isApplicableFee = (feeSchedule: FeeSchedule) => feeSchedule.enabled
-      && !feeSchedule.whitelists?.pubkeys?.some((prefix) => pubkey.startsWith(prefix))
-    const admissionFee = currentSettings.payments?.feeSchedules.admission
-      .filter(isApplicableFee)
+    let amount: bigint
+    let description: string
+    let isRenewal = false
+    if (feeSchedule === 'topup') {
+      const topUp = currentSettings.payments?.topUp
+      if (!topUp?.enabled) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('Top-ups are disabled')
 
-    if (!Array.isArray(admissionFee) || !admissionFee.length) {
-      response
-        .status(400)
-        .setHeader('content-type', 'text/plain; charset=utf8')
-        .send('No admission fee required')
+        return
+      }
 
-      return
-    }
+      const amountRaw = path(['body', 'amount'], request)
+      if (typeof amountRaw !== 'string' || !/^[0-9]{1,15}$/.test(amountRaw)) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('Invalid amount')
 
-    const minBalance = currentSettings.limits?.event?.pubkey?.minBalance
-    const user = await this.userRepository.findByPubkey(pubkey)
-    if (user && user.isAdmitted && (!minBalance || user.balance >= minBalance)) {
-      response
-        .status(400)
-        .setHeader('content-type', 'text/plain; charset=utf8')
-        .send('User is already admitted.')
+        return
+      }
 
-      return
+      // Amount is entered in sats
+      amount = BigInt(amountRaw) * 1000n
+
+      const minAmount = BigInt(topUp.minAmount ?? DEFAULT_MIN_TOP_UP_AMOUNT)
+      const maxAmount = typeof topUp.maxAmount === 'undefined' ? undefined : BigInt(topUp.maxAmount)
+      if (amount < minAmount || (typeof maxAmount === 'bigint' && amount > maxAmount)) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send(
+            typeof maxAmount === 'bigint'
+              ? `Invalid amount: must be between ${minAmount / 1000n} and ${maxAmount / 1000n} sats`
+              : `Invalid amount: must be at least ${minAmount / 1000n} sats`
+          )
+
+        return
+      }
+
+      description = `${relayName} Balance Top-up for ${toBech32('npub')(pubkey)}`
+    } else {
+      const isApplicableFee = (feeSchedule: FeeSchedule) => feeSchedule.enabled
+        && !feeSchedule.whitelists?.pubkeys?.some((prefix) => pubkey.startsWith(prefix))
+      const admissionFee = currentSettings.payments?.feeSchedules.admission
+        .filter(isApplicableFee)
+
+      if (!Array.isArray(admissionFee) || !admissionFee.length) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('No admission fee required')
+
+        return
+      }
+
+      const minBalance = currentSettings.limits?.event?.pubkey?.minBalance
+      const user = await this.userRepository.findByPubkey(pubkey)
+      // Time-limited admission can be renewed at any time
+      isRenewal = Boolean(user?.isAdmitted && user.admittedUntil)
+      if (user && user.isAdmitted && !isRenewal && (!minBalance || user.balance >= minBalance)) {
+        response
+          .status(400)
+          .setHeader('content-type', 'text/plain; charset=utf8')
+          .send('User is already admitted.')
+
+        return
+      }
+
+      amount = admissionFee.reduce((sum, fee) => {
+        return fee.enabled && !fee.whitelists?.pubkeys?.includes(pubkey)
+          ? BigInt(fee.amount) + sum
+          : sum
+      }, 0n)
+
+      description = isRenewal
+        ? `${relayName} Admission Renewal for ${toBech32('npub')(pubkey)}`
+        : `${relayName} Admission Fee for ${toBech32('npub')(pubkey)}`
     }
 
     let invoice: Invoice
-    const amount = admissionFee.reduce((sum, fee) => {
-      return fee.enabled && !fee.whitelists?.pubkeys?.includes(pubkey)
-        ? BigInt(fee.amount) + sum
-        : sum
-    }, 0n)
-
     try {
-      const description = `${relayName} Admission Fee for ${toBech32('npub')(pubkey)}`
-
       invoice = await this.paymentsService.createInvoice(
         pubkey,
         amount,
         description,
+        feeSchedule === 'topup' ? InvoicePurpose.TOP_UP : InvoicePurpose.ADMISSION,
       )
     } catch (error) {
       console.error('Unable to create invoice. Reason:', error)
@@ -171,6 +223,10 @@ export class PostInvoiceController implements IController {
       expires_at: invoice.expiresAt?.toISOString() ?? '',
       invoice: invoice.bolt11,
       amount: amount / 1000n,
+      fee_schedule: feeSchedule,
+      paid_message: feeSchedule === 'topup'
+        ? 'Your balance has been topped up'
+        : isRenewal ? 'Your admission has been renewed' : `You may now connect to ${relayUrl}`,
     }
 
     const body = Object
@@ -0,0 +1,55 @@
+import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
+import { BanRepository } from '../repositories/ban-repository'
+import { banServiceFactory } from './ban-service-factory'
+import { createSettings } from './settings-factory'
+import { DeleteBanController } from '../controllers/admin/delete-ban-controller'
+import { DeleteEventController } from '../controllers/admin/delete-event-controller'
+import { EventRepository } from '../repositories/event-repository'
+import { GetBansController } from '../controllers/admin/get-bans-controller'
+import { GetConnectionsController } from '../controllers/admin/get-connections-controller'
+import { GetPendingInvoicesController } from '../controllers/admin/get-pending-invoices-controller'
+import { IController } from '../@types/controllers'
+import { InvoiceRepository } from '../repositories/invoice-repository'
+import { LedgerRepository } from '../repositories/ledger-repository'
+import { PostRelayManagementController } from '../controllers/admin/post-relay-management-controller'
+import { PostUserBalanceController } from '../controllers/admin/post-user-balance-controller'
+import { PutBanController } from '../controllers/admin/put-ban-controller'
+import { PutUserAdmissionController } from '../controllers/admin/put-user-admission-controller'
+import { SettingsStatic } from '../utils/settings'
+import { UserRepository } from '../repositories/user-repository'
+
+export const createGetBansController = (): IController =>
+  new GetBansController(new BanRepository(getReadReplicaDbClient()))
+
+export const createPutBanController = (): IController =>
+  new PutBanController(banServiceFactory())
+
+export const createDeleteBanController = (): IController =>
+  new DeleteBanController(banServiceFactory())
+
+export const createPutUserAdmissionController = (): IController =>
+  new PutUserAdmissionController(new UserRepository(getMasterDbClient()))
+
+export const createPostUserBalanceController = (): IController => {
+  const dbClient = getMasterDbClient()
+
+  return new PostUserBalanceController(dbClient, new UserRepository(dbClient), new LedgerRepository(dbClient))
+}
+
+export const createDeleteEventController = (): IController =>
+  new DeleteEventController(new EventRepository(getMasterDbClient(), getReadReplicaDbClient()))
+
+export const createGetPendingInvoicesController = (): IController =>
+  new GetPendingInvoicesController(new InvoiceRepository(getReadReplicaDbClient()))
+
+export const createGetConnectionsController = (): IController =>
+  new GetConnectionsController()
+
+export const createPostRelayManagementController = (): IController =>
+  new PostRelayManagementController(
+    banServiceFactory(),
+    new BanRepository(getReadReplicaDbClient()),
+    new EventRepository(getMasterDbClient(), getReadReplicaDbClient()),
+    createSettings,
+    SettingsStatic.saveSettingsOverrides,
+  )
@@ -0,0 +1,19 @@
+import { BanRepository } from '../repositories/ban-repository'
+import { BanService } from '../services/ban-service'
+import { getCacheClient } from '../cache/client'
+import { getMasterDbClient } from '../database/client'
+import { IBanService } from '../@types/services'
+import { RedisAdapter } from '../adapters/redis-adapter'
+
+let instance: IBanService = undefined
+
+export const banServiceFactory = () => {
+  if (!instance) {
+    instance = new BanService(
+      new BanRepository(getMasterDbClient()),
+      new RedisAdapter(getCacheClient()),
+    )
+  }
+
+  return instance
+}
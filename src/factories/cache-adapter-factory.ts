@@ -0,0 +1,13 @@
+import { getCacheClient } from '../cache/client'
+import { ICacheAdapter } from '../@types/adapters'
+import { RedisAdapter } from '../adapters/redis-adapter'
+
+let instance: ICacheAdapter = undefined
+
+export const cacheAdapterFactory = (): ICacheAdapter => {
+  if (!instance) {
+    instance = new RedisAdapter(getCacheClient())
+  }
+
+  return instance
+}
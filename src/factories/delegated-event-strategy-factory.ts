@@ -6,6 +6,7 @@ import { Factory } from '../@types/base'
 import { IEventRepository } from '../@types/repositories'
 import { IEventStrategy } from '../@types/message-handlers'
 import { IWebSocketAdapter } from '../@types/adapters'
+import { publicationFeeServiceFactory } from './publication-fee-service-factory'
 
 export const delegatedEventStrategyFactory = (
   eventRepository: IEventRepository,
@@ -17,5 +18,5 @@ export const delegatedEventStrategyFactory = (
       return
     }
 
-    return new DefaultEventStrategy(adapter, eventRepository)
+    return new DefaultEventStrategy(adapter, eventRepository, publicationFeeServiceFactory)
   }
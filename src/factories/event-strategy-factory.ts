@@ -1,28 +1,49 @@
-import { isDeleteEvent, isEphemeralEvent, isParameterizedReplaceableEvent, isReplaceableEvent } from '../utils/event'
+import { IEventRepository, IModerationActionRepository } from '../@types/repositories'
+import {
+  isDeleteEvent,
+  isEphemeralEvent,
+  isParameterizedReplaceableEvent,
+  isReplaceableEvent,
+  isReportEvent,
+} from '../utils/event'
+import { banServiceFactory } from './ban-service-factory'
+import { createSettings } from './settings-factory'
 import { DefaultEventStrategy } from '../handlers/event-strategies/default-event-strategy'
 import { DeleteEventStrategy } from '../handlers/event-strategies/delete-event-strategy'
 import { EphemeralEventStrategy } from '../handlers/event-strategies/ephemeral-event-strategy'
 import { Event } from '../@types/event'
 import { Factory } from '../@types/base'
-import { IEventRepository } from '../@types/repositories'
+import { getMasterDbClient } from '../database/client'
 import { IEventStrategy } from '../@types/message-handlers'
 import { IWebSocketAdapter } from '../@types/adapters'
+import { ModerationEventStrategy } from '../handlers/event-strategies/moderation-event-strategy'
 import { ParameterizedReplaceableEventStrategy } from '../handlers/event-strategies/parameterized-replaceable-event-strategy'
+import { publicationFeeServiceFactory } from './publication-fee-service-factory'
 import { ReplaceableEventStrategy } from '../handlers/event-strategies/replaceable-event-strategy'
 
 export const eventStrategyFactory = (
   eventRepository: IEventRepository,
+  moderationActionRepository: IModerationActionRepository,
 ): Factory<IEventStrategy<Event, Promise<void>>, [Event, IWebSocketAdapter]> =>
   ([event, adapter]: [Event, IWebSocketAdapter]) => {
     if (isReplaceableEvent(event)) {
-      return new ReplaceableEventStrategy(adapter, eventRepository)
+      return new ReplaceableEventStrategy(adapter, eventRepository, publicationFeeServiceFactory)
     } else if (isEphemeralEvent(event)) {
       return new EphemeralEventStrategy(adapter)
     } else if (isDeleteEvent(event)) {
       return new DeleteEventStrategy(adapter, eventRepository)
     } else if (isParameterizedReplaceableEvent(event)) {
-      return new ParameterizedReplaceableEventStrategy(adapter, eventRepository)
-    } 
+      return new ParameterizedReplaceableEventStrategy(adapter, eventRepository, publicationFeeServiceFactory)
+    } else if (isReportEvent(event) && createSettings().admin?.pubkeys?.includes(event.pubkey)) {
+      return new ModerationEventStrategy(
+        adapter,
+        getMasterDbClient(),
+        eventRepository,
+        moderationActionRepository,
+        createSettings,
+        banServiceFactory,
+      )
+    }
 
-    return new DefaultEventStrategy(adapter, eventRepository)
+    return new DefaultEventStrategy(adapter, eventRepository, publicationFeeServiceFactory)
   }
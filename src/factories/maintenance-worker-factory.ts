@@ -1,7 +1,14 @@
+import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
 import { createPaymentsService } from './payments-service-factory'
 import { createSettings } from './settings-factory'
+import { EventRepository } from '../repositories/event-repository'
+import { LedgerRepository } from '../repositories/ledger-repository'
 import { MaintenanceWorker } from '../app/maintenance-worker'
 
 export const maintenanceWorkerFactory = () => {
-  return new MaintenanceWorker(process, createPaymentsService(), createSettings)
+  const dbClient = getMasterDbClient()
+  const eventRepository = new EventRepository(dbClient, getReadReplicaDbClient())
+  const ledgerRepository = new LedgerRepository(dbClient)
+
+  return new MaintenanceWorker(process, createPaymentsService(), eventRepository, ledgerRepository, createSettings)
 }
@@ -1,5 +1,8 @@
-import { IEventRepository, IUserRepository } from '../@types/repositories'
+import { IEventRepository, IModerationActionRepository, IUserRepository } from '../@types/repositories'
 import { IncomingMessage, MessageType } from '../@types/messages'
+import { AuthMessageHandler } from '../handlers/auth-message-handler'
+import { banServiceFactory } from './ban-service-factory'
+import { CountMessageHandler } from '../handlers/count-message-handler'
 import { createSettings } from './settings-factory'
 import { DelegatedEventMessageHandler } from '../handlers/delegated-event-message-handler'
 import { delegatedEventStrategyFactory } from './delegated-event-strategy-factory'
@@ -7,6 +10,7 @@ import { EventMessageHandler } from '../handlers/event-message-handler'
 import { eventStrategyFactory } from './event-strategy-factory'
 import { isDelegatedEvent } from '../utils/event'
 import { IWebSocketAdapter } from '../@types/adapters'
+import { nip05VerificationServiceFactory } from './nip05-verification-service-factory'
 import { slidingWindowRateLimiterFactory } from './rate-limiter-factory'
 import { SubscribeMessageHandler } from '../handlers/subscribe-message-handler'
 import { UnsubscribeMessageHandler } from '../handlers/unsubscribe-message-handler'
@@ -14,6 +18,7 @@ import { UnsubscribeMessageHandler } from '../handlers/unsubscribe-message-handl
 export const messageHandlerFactory = (
   eventRepository: IEventRepository,
   userRepository: IUserRepository,
+  moderationActionRepository: IModerationActionRepository,
 ) => ([message, adapter]: [IncomingMessage, IWebSocketAdapter]) => {
   switch (message[0]) {
     case MessageType.EVENT:
@@ -22,24 +27,34 @@ export const messageHandlerFactory = (
           return new DelegatedEventMessageHandler(
             adapter,
             delegatedEventStrategyFactory(eventRepository),
+            eventRepository,
             userRepository,
             createSettings,
             slidingWindowRateLimiterFactory,
+            nip05VerificationServiceFactory,
+            banServiceFactory,
           )
         }
 
         return new EventMessageHandler(
           adapter,
-          eventStrategyFactory(eventRepository),
+          eventStrategyFactory(eventRepository, moderationActionRepository),
+          eventRepository,
           userRepository,
           createSettings,
           slidingWindowRateLimiterFactory,
+          nip05VerificationServiceFactory,
+          banServiceFactory,
         )
       }
     case MessageType.REQ:
       return new SubscribeMessageHandler(adapter, eventRepository, createSettings)
     case MessageType.CLOSE:
       return new UnsubscribeMessageHandler(adapter,)
+    case MessageType.AUTH:
+      return new AuthMessageHandler(adapter, createSettings)
+    case MessageType.COUNT:
+      return new CountMessageHandler(adapter, eventRepository, createSettings)
     default:
       throw new Error(`Unknown message type: ${String(message[0]).substring(0, 64)}`)
   }
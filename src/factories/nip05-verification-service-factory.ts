@@ -0,0 +1,28 @@
+import axios from 'axios'
+
+import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
+import { createNip05Fetcher } from '../utils/nip05'
+import { createSettings } from './settings-factory'
+import { EventRepository } from '../repositories/event-repository'
+import { getCacheClient } from '../cache/client'
+import { INip05VerificationService } from '../@types/services'
+import { Nip05VerificationService } from '../services/nip05-verification-service'
+import { RedisAdapter } from '../adapters/redis-adapter'
+
+let instance: INip05VerificationService = undefined
+
+export const nip05VerificationServiceFactory = () => {
+  if (!instance) {
+    // NIP-05: fetchers must ignore redirects
+    const httpClient = axios.create({ maxRedirects: 0, timeout: 5000 })
+
+    instance = new Nip05VerificationService(
+      createNip05Fetcher(httpClient),
+      new EventRepository(getMasterDbClient(), getReadReplicaDbClient()),
+      new RedisAdapter(getCacheClient()),
+      createSettings,
+    )
+  }
+
+  return instance
+}
@@ -3,6 +3,7 @@ import { createPaymentsProcessor } from './payments-processor-factory'
 import { createSettings } from './settings-factory'
 import { EventRepository } from '../repositories/event-repository'
 import { InvoiceRepository } from '../repositories/invoice-repository'
+import { LedgerRepository } from '../repositories/ledger-repository'
 import { PaymentsService } from '../services/payments-service'
 import { UserRepository } from '../repositories/user-repository'
 
@@ -11,6 +12,7 @@ export const createPaymentsService = () => {
   const rrDbClient = getReadReplicaDbClient()
   const invoiceRepository = new InvoiceRepository(dbClient)
   const userRepository = new UserRepository(dbClient)
+  const ledgerRepository = new LedgerRepository(dbClient)
   const paymentsProcessor = createPaymentsProcessor()
   const eventRepository = new EventRepository(dbClient, rrDbClient)
 
@@ -19,6 +21,7 @@ export const createPaymentsService = () => {
     paymentsProcessor,
     userRepository,
     invoiceRepository,
+    ledgerRepository,
     eventRepository,
     createSettings
   )
@@ -0,0 +1,23 @@
+import { createSettings } from './settings-factory'
+import { getMasterDbClient } from '../database/client'
+import { IPublicationFeeService } from '../@types/services'
+import { LedgerRepository } from '../repositories/ledger-repository'
+import { PublicationFeeService } from '../services/publication-fee-service'
+import { UserRepository } from '../repositories/user-repository'
+
+let instance: IPublicationFeeService = undefined
+
+export const publicationFeeServiceFactory = () => {
+  if (!instance) {
+    const dbClient = getMasterDbClient()
+
+    instance = new PublicationFeeService(
+      dbClient,
+      new UserRepository(dbClient),
+      new LedgerRepository(dbClient),
+      createSettings,
+    )
+  }
+
+  return instance
+}
@@ -0,0 +1,13 @@
+import { createSettings } from './settings-factory'
+import { IRelayInformationService } from '../@types/services'
+import { RelayInformationService } from '../services/relay-information-service'
+
+let instance: IRelayInformationService = undefined
+
+export const relayInformationServiceFactory = () => {
+  if (!instance) {
+    instance = new RelayInformationService(createSettings)
+  }
+
+  return instance
+}
@@ -1,6 +1,10 @@
+import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
 import { createSettings } from './settings-factory'
+import { EventRepository } from '../repositories/event-repository'
 import { StaticMirroringWorker } from '../app/static-mirroring-worker'
 
 export const staticMirroringWorkerFactory = () => {
-  return new StaticMirroringWorker(process, createSettings)
+  const eventRepository = new EventRepository(getMasterDbClient(), getReadReplicaDbClient())
+
+  return new StaticMirroringWorker(process, eventRepository, createSettings)
 }
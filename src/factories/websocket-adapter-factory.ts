@@ -1,7 +1,7 @@
 import { IncomingMessage } from 'http'
 import { WebSocket } from 'ws'
 
-import { IEventRepository, IUserRepository } from '../@types/repositories'
+import { IEventRepository, IModerationActionRepository, IUserRepository } from '../@types/repositories'
 import { createSettings } from './settings-factory'
 import { IWebSocketServerAdapter } from '../@types/adapters'
 import { messageHandlerFactory } from './message-handler-factory'
@@ -12,12 +12,13 @@ import { WebSocketAdapter } from '../adapters/web-socket-adapter'
 export const webSocketAdapterFactory = (
   eventRepository: IEventRepository,
   userRepository: IUserRepository,
+  moderationActionRepository: IModerationActionRepository,
 ) => ([client, request, webSocketServerAdapter]: [WebSocket, IncomingMessage, IWebSocketServerAdapter]) =>
     new WebSocketAdapter(
       client,
       request,
       webSocketServerAdapter,
-      messageHandlerFactory(eventRepository, userRepository),
+      messageHandlerFactory(eventRepository, userRepository, moderationActionRepository),
       slidingWindowRateLimiterFactory,
       createSettings,
     )
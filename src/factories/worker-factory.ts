@@ -5,9 +5,11 @@ import { WebSocketServer } from 'ws'
 
 import { getMasterDbClient, getReadReplicaDbClient } from '../database/client'
 import { AppWorker } from '../app/worker'
+import { banServiceFactory } from './ban-service-factory'
 import { createSettings } from '../factories/settings-factory'
 import { createWebApp } from './web-app-factory'
 import { EventRepository } from '../repositories/event-repository'
+import { ModerationActionRepository } from '../repositories/moderation-action-repository'
 import { UserRepository } from '../repositories/user-repository'
 import { webSocketAdapterFactory } from './websocket-adapter-factory'
 import { WebSocketServerAdapter } from '../adapters/web-socket-server-adapter'
@@ -17,6 +19,7 @@ export const workerFactory = (): AppWorker => {
   const readReplicaDbClient = getReadReplicaDbClient()
   const eventRepository = new EventRepository(dbClient, readReplicaDbClient)
   const userRepository = new UserRepository(dbClient)
+  const moderationActionRepository = new ModerationActionRepository(dbClient)
 
   const settings = createSettings()
 
@@ -58,9 +61,12 @@ export const workerFactory = (): AppWorker => {
   const adapter = new WebSocketServerAdapter(
     server,
     webSocketServer,
-    webSocketAdapterFactory(eventRepository, userRepository),
+    webSocketAdapterFactory(eventRepository, userRepository, moderationActionRepository),
     createSettings,
+    banServiceFactory,
   )
 
+  app.locals.webSocketServerAdapter = adapter
+
   return new AppWorker(process, adapter)
 }
@@ -0,0 +1,87 @@
+import { EventKinds, EventTags } from '../constants/base'
+import { IncomingAuthMessage, MessageType } from '../@types/messages'
+import { isEventIdValid, isEventSignatureValid } from '../utils/event'
+import { createCommandResult } from '../utils/messages'
+import { createLogger } from '../factories/logger-factory'
+import { Event } from '../@types/event'
+import { IMessageHandler } from '../@types/message-handlers'
+import { IWebSocketAdapter } from '../@types/adapters'
+import { Settings } from '../@types/settings'
+import { WebSocketAdapterEvent } from '../constants/adapter'
+
+const debug = createLogger('auth-message-handler')
+
+const DEFAULT_MAX_CREATED_AT_DELTA = 600
+
+const isSameRelayUrl = (input: string, relayUrl: string): boolean => {
+  try {
+    const a = new URL(input)
+    const b = new URL(relayUrl)
+
+    return a.host === b.host
+      && a.pathname.replace(/\/+$/, '') === b.pathname.replace(/\/+$/, '')
+  } catch (error) {
+    return false
+  }
+}
+
+export class AuthMessageHandler implements IMessageHandler {
+  public constructor(
+    private readonly webSocket: IWebSocketAdapter,
+    private readonly settings: () => Settings,
+  ) {}
+
+  public async handleMessage(message: IncomingAuthMessage): Promise<void> {
+    const [, event] = message
+
+    if (!this.settings().authentication?.enabled) {
+      debug('auth event %s rejected: authentication disabled', event.id)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createCommandResult(event.id, false, 'restricted: authentication is disabled'),
+      )
+      return
+    }
+
+    const reason = await this.isAuthEventValid(event)
+    if (reason) {
+      debug('auth event %s rejected: %s', event.id, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      return
+    }
+
+    debug('client %s authenticated as %s', this.webSocket.getClientId(), event.pubkey)
+    this.webSocket.emit(WebSocketAdapterEvent.Authenticate, event.pubkey)
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, ''))
+  }
+
+  protected async isAuthEventValid(event: Event): Promise<string | undefined> {
+    if (event.kind !== EventKinds.AUTH) {
+      return `invalid: ${MessageType.AUTH} event kind must be ${EventKinds.AUTH}`
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const maxCreatedAtDelta = this.settings().authentication?.maxCreatedAtDelta ?? DEFAULT_MAX_CREATED_AT_DELTA
+    if (Math.abs(now - event.created_at) > maxCreatedAtDelta) {
+      return `invalid: created_at must be within ${maxCreatedAtDelta} seconds of the current time`
+    }
+
+    const challenge = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Challenge)
+    if (!challenge || challenge[1] !== this.webSocket.getAuthChallenge()) {
+      return 'invalid: challenge does not match'
+    }
+
+    const relay = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Relay)
+    if (!relay || !isSameRelayUrl(relay[1], this.settings().info.relay_url)) {
+      return 'invalid: relay does not match'
+    }
+
+    if (!await isEventIdValid(event)) {
+      return 'invalid: event id does not match'
+    }
+
+    if (!await isEventSignatureValid(event)) {
+      return 'invalid: event signature verification failed'
+    }
+  }
+}
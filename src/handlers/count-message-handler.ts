@@ -0,0 +1,79 @@
+import { equals, uniqWith } from 'ramda'
+
+import { createClosedMessage, createCountResultMessage } from '../utils/messages'
+import { SubscriptionFilter, SubscriptionId } from '../@types/subscription'
+import { CountMessage } from '../@types/messages'
+import { createLogger } from '../factories/logger-factory'
+import { IEventRepository } from '../@types/repositories'
+import { IMessageHandler } from '../@types/message-handlers'
+import { IWebSocketAdapter } from '../@types/adapters'
+import { Settings } from '../@types/settings'
+import { SubscribeMessageHandler } from './subscribe-message-handler'
+import { WebSocketAdapterEvent } from '../constants/adapter'
+
+const debug = createLogger('count-message-handler')
+
+export class CountMessageHandler implements IMessageHandler {
+  public constructor(
+    private readonly webSocket: IWebSocketAdapter,
+    private readonly eventRepository: IEventRepository,
+    private readonly settings: () => Settings,
+  ) {}
+
+  public async handleMessage(message: CountMessage): Promise<void> {
+    const subscriptionId = message[1]
+    const filters = uniqWith(equals, message.slice(2)) as SubscriptionFilter[]
+
+    const reason = this.canCount(subscriptionId, filters)
+    if (reason) {
+      debug('count %s with %o rejected: %s', subscriptionId, filters, reason)
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, reason))
+      return
+    }
+
+    debug('counting events for %s with filters %o', subscriptionId, filters)
+
+    let count: number
+    try {
+      count = await this.eventRepository.countByFilters(
+        filters,
+        {
+          protectedKinds: this.settings().limits?.client?.subscription?.protectedKinds ?? [],
+          authenticatedPubkeys: Array.from(this.webSocket.getAuthenticatedPubkeys()),
+        },
+      )
+    } catch (error) {
+      debug('error counting events: %o', error)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createClosedMessage(subscriptionId, 'error: unable to count events'),
+      )
+      throw error
+    }
+
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCountResultMessage(subscriptionId, count))
+  }
+
+  private canCount(subscriptionId: SubscriptionId, filters: SubscriptionFilter[]): string | undefined {
+    const subscriptionLimits = this.settings().limits?.client?.subscription
+
+    const reason = SubscribeMessageHandler.validateFilters(subscriptionId, filters, subscriptionLimits)
+    if (reason) {
+      return reason
+    }
+
+    const maxLimit = subscriptionLimits?.maxLimit ?? 0
+    if (maxLimit > 0 && filters.some((filter) => typeof filter.limit === 'number' && filter.limit > maxLimit)) {
+      return `invalid: limit must be less than or equal to ${maxLimit}`
+    }
+
+    const minPrefixLength = subscriptionLimits?.minPrefixLength ?? 0
+    if (
+      minPrefixLength > 0
+      && filters.some((filter) => [...filter.ids ?? [], ...filter.authors ?? []]
+        .some((prefix) => prefix.length < minPrefixLength))
+    ) {
+      return `invalid: prefixes must be at least ${minPrefixLength} characters`
+    }
+  }
+}
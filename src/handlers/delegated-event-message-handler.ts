@@ -1,47 +1,73 @@
+import { DelegatedEvent, Event } from '../@types/event'
 import { EventDelegatorMetadataKey, EventTags } from '../constants/base'
-import { createCommandResult } from '../utils/messages'
-import { createLogger } from '../factories/logger-factory'
-import { DelegatedEvent } from '../@types/event'
+import { eventsAcceptedCounter, eventsReceivedCounter, getEventKindLabel } from '../utils/metrics'
 import { EventMessageHandler } from './event-message-handler'
 import { IMessageHandler } from '../@types/message-handlers'
 import { IncomingEventMessage } from '../@types/messages'
 import { isDelegatedEventValid } from '../utils/event'
-import { WebSocketAdapterEvent } from '../constants/adapter'
+import { Tag } from '../@types/base'
 
-const debug = createLogger('delegated-event-message-handler')
+const getDelegation = (event: Event): Tag =>
+  event.tags.find((tag) => tag.length === 4 && tag[0] === EventTags.Delegation)
 
 export class DelegatedEventMessageHandler extends EventMessageHandler implements IMessageHandler {
   public async handleMessage(message: IncomingEventMessage): Promise<void> {
     const [, event] = message
 
+    eventsReceivedCounter.inc({ kind: getEventKindLabel(event.kind) })
+
     let reason = await this.isEventValid(event)
     if (reason) {
-      debug('event %s rejected: %s', event.id, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    if (await this.isDelegationRevoked(event)) {
+      this.rejectEvent(event, 'blocked: delegation was revoked')
       return
     }
 
     if (await this.isRateLimited(event)) {
-      debug('event %s rejected: rate-limited')
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'rate-limited: slow down'))
+      this.rejectEvent(event, 'rate-limited: slow down')
       return
     }
 
     reason = this.canAcceptEvent(event)
     if (reason) {
-      debug('event %s rejected: %s', event.id, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    reason = await this.isPubkeyBanned(event)
+    if (reason) {
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    reason = await this.isEventBanned(event)
+    if (reason) {
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    if (await this.isEventDeleted(event)) {
+      this.rejectEvent(event, 'blocked: event was deleted')
       return
     }
 
     reason = await this.isUserAdmitted(event)
     if (reason) {
-      debug('event %s rejected: %s', event.id, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      this.rejectEvent(event, reason)
       return
     }
 
-    const [, delegator] = event.tags.find((tag) => tag.length === 4 && tag[0] === EventTags.Delegation)
+    reason = await this.isPubkeyVerified(event)
+    if (reason) {
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    const [, delegator] = getDelegation(event)
     const delegatedEvent: DelegatedEvent = {
       ...event,
         [EventDelegatorMetadataKey]: delegator,
@@ -50,15 +76,16 @@ export class DelegatedEventMessageHandler extends EventMessageHandler implements
     const strategy = this.strategyFactory([delegatedEvent, this.webSocket])
 
     if (typeof strategy?.execute !== 'function') {
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'error: event not supported'))
+      this.rejectEvent(event, 'error: event not supported')
       return
     }
 
     try {
       await strategy.execute(delegatedEvent)
+      eventsAcceptedCounter.inc({ kind: getEventKindLabel(event.kind) })
     } catch (error) {
       console.error('error handling message', message, error)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'error: unable to process event'))
+      this.rejectEvent(event, 'error: unable to process event')
     }
   }
 
@@ -72,4 +99,43 @@ export class DelegatedEventMessageHandler extends EventMessageHandler implements
       return 'invalid: delegation verification failed'
     }
   }
+
+  protected canAcceptEvent(event: Event): string | undefined {
+    const reason = super.canAcceptEvent(event)
+    if (reason || !this.settings().limits?.event?.delegation?.applyLimitsToDelegator) {
+      return reason
+    }
+
+    const [, delegator] = getDelegation(event)
+
+    return super.canAcceptEvent({ ...event, pubkey: delegator })
+  }
+
+  protected async isPubkeyBanned(event: Event): Promise<string | undefined> {
+    const reason = await super.isPubkeyBanned(event)
+    if (reason) {
+      return reason
+    }
+
+    const [, delegator] = getDelegation(event)
+
+    return super.isPubkeyBanned({ ...event, pubkey: delegator })
+  }
+
+  protected async isRateLimited(event: Event): Promise<boolean> {
+    const limited = await super.isRateLimited(event)
+    if (!this.settings().limits?.event?.delegation?.applyLimitsToDelegator) {
+      return limited
+    }
+
+    const [, delegator] = getDelegation(event)
+
+    return await super.isRateLimited({ ...event, pubkey: delegator }) || limited
+  }
+
+  protected async isDelegationRevoked(event: Event): Promise<boolean> {
+    const [, delegator, , token] = getDelegation(event)
+
+    return this.eventRepository.isDelegationRevoked(delegator, token)
+  }
 }
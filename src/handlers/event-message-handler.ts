@@ -1,15 +1,22 @@
+import { ContextMetadataKey, EventKinds } from '../constants/base'
 import { Event, ExpiringEvent  } from '../@types/event'
 import { EventRateLimit, FeeSchedule, Settings } from '../@types/settings'
+import {
+  eventsAcceptedCounter,
+  eventsReceivedCounter,
+  eventsRejectedCounter,
+  getEventKindLabel,
+} from '../utils/metrics'
 import { getEventExpiration, getEventProofOfWork, getPubkeyProofOfWork, getPublicKey, getRelayPrivateKey, isEventIdValid, isEventKindOrRangeMatch, isEventSignatureValid, isExpiredEvent } from '../utils/event'
+import { IBanService, INip05VerificationService } from '../@types/services'
+import { IEventRepository, IUserRepository } from '../@types/repositories'
 import { IEventStrategy, IMessageHandler } from '../@types/message-handlers'
-import { ContextMetadataKey } from '../constants/base'
 import { createCommandResult } from '../utils/messages'
 import { createLogger } from '../factories/logger-factory'
 import { EventExpirationTimeMetadataKey } from '../constants/base'
 import { Factory } from '../@types/base'
 import { IncomingEventMessage } from '../@types/messages'
 import { IRateLimiter } from '../@types/utils'
-import { IUserRepository } from '../@types/repositories'
 import { IWebSocketAdapter } from '../@types/adapters'
 import { WebSocketAdapterEvent } from '../constants/adapter'
 
@@ -19,9 +26,12 @@ export class EventMessageHandler implements IMessageHandler {
   public constructor(
     protected readonly webSocket: IWebSocketAdapter,
     protected readonly strategyFactory: Factory<IEventStrategy<Event, Promise<void>>, [Event, IWebSocketAdapter]>,
+    protected readonly eventRepository: IEventRepository,
     protected readonly userRepository: IUserRepository,
-    private readonly settings: () => Settings,
+    protected readonly settings: () => Settings,
     private readonly slidingWindowRateLimiter: Factory<IRateLimiter>,
+    private readonly nip05VerificationService: Factory<INip05VerificationService>,
+    private readonly banService: Factory<IBanService>,
   ) {}
 
   public async handleMessage(message: IncomingEventMessage): Promise<void> {
@@ -29,56 +39,83 @@ export class EventMessageHandler implements IMessageHandler {
 
     event[ContextMetadataKey] = message[ContextMetadataKey]
 
+    eventsReceivedCounter.inc({ kind: getEventKindLabel(event.kind) })
+
     let reason = await this.isEventValid(event)
     if (reason) {
-      debug('event %s rejected: %s', event.id, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      this.rejectEvent(event, reason)
       return
     }
 
     if (isExpiredEvent(event)) {
-      debug('event %s rejected: expired')
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'event is expired'))
+      this.rejectEvent(event, 'invalid: event is expired')
       return
     }
 
     event = this.addExpirationMetadata(event)
 
     if (await this.isRateLimited(event)) {
-      debug('event %s rejected: rate-limited')
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'rate-limited: slow down'))
+      this.rejectEvent(event, 'rate-limited: slow down')
       return
     }
 
     reason = this.canAcceptEvent(event)
     if (reason) {
-      debug('event %s rejected: %s', event.id, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    reason = await this.isPubkeyBanned(event)
+    if (reason) {
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    reason = await this.isEventBanned(event)
+    if (reason) {
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    if (await this.isEventDeleted(event)) {
+      this.rejectEvent(event, 'blocked: event was deleted')
       return
     }
 
     reason = await this.isUserAdmitted(event)
     if (reason) {
-      debug('event %s rejected: %s', event.id, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+      this.rejectEvent(event, reason)
+      return
+    }
+
+    reason = await this.isPubkeyVerified(event)
+    if (reason) {
+      this.rejectEvent(event, reason)
       return
     }
 
     const strategy = this.strategyFactory([event, this.webSocket])
 
     if (typeof strategy?.execute !== 'function') {
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'error: event not supported'))
+      this.rejectEvent(event, 'error: event not supported')
       return
     }
 
     try {
       await strategy.execute(event)
+      eventsAcceptedCounter.inc({ kind: getEventKindLabel(event.kind) })
     } catch (error) {
       console.error('error handling message', message, error)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, 'error: unable to process event'))
+      this.rejectEvent(event, 'error: unable to process event')
     }
   }
 
+  protected rejectEvent(event: Event, reason: string): void {
+    debug('event %s rejected: %s', event.id, reason)
+    eventsRejectedCounter.inc({ kind: getEventKindLabel(event.kind), reason: reason.split(':')[0] })
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, false, reason))
+  }
+
   protected getRelayPublicKey(): string {
     const relayPrivkey = getRelayPrivateKey(this.settings().info.relay_url)
     return getPublicKey(relayPrivkey)
@@ -92,44 +129,81 @@ export class EventMessageHandler implements IMessageHandler {
 
     const limits = this.settings().limits?.event ?? {}
 
-    if (Array.isArray(limits.content)) {
-      for (const limit of limits.content) {
-        if (
-          typeof limit.maxLength !== 'undefined'
-          && limit.maxLength > 0
-          && event.content.length > limit.maxLength
-          && (
-            !Array.isArray(limit.kinds)
-            || limit.kinds.some(isEventKindOrRangeMatch(event))
-          )
-        ) {
-          return `rejected: content is longer than ${limit.maxLength} bytes`
+    if (Array.isArray(limits.size)) {
+      const applicableSizeLimits = limits.size.filter((limit) =>
+        typeof limit.maxBytes === 'number'
+        && limit.maxBytes > 0
+        && (!Array.isArray(limit.kinds) || limit.kinds.some(isEventKindOrRangeMatch(event)))
+      )
+
+      if (applicableSizeLimits.length) {
+        const size = Buffer.byteLength(JSON.stringify(event))
+        for (const limit of applicableSizeLimits) {
+          if (size > limit.maxBytes) {
+            return `invalid: event is larger than ${limit.maxBytes} bytes`
+          }
         }
       }
-    } else if (
-      typeof limits.content?.maxLength !== 'undefined'
-      && limits.content?.maxLength > 0
-      && event.content.length > limits.content.maxLength
-      && (
-        !Array.isArray(limits.content.kinds)
-        || limits.content.kinds.some(isEventKindOrRangeMatch(event))
-      )
-    ) {
-      return `rejected: content is longer than ${limits.content.maxLength} bytes`
+    }
+
+    const contentLimits = Array.isArray(limits.content)
+      ? limits.content
+      : limits.content ? [limits.content] : []
+
+    for (const limit of contentLimits) {
+      if (
+        typeof limit.maxLength === 'undefined'
+        || limit.maxLength <= 0
+        || (Array.isArray(limit.kinds) && !limit.kinds.some(isEventKindOrRangeMatch(event)))
+      ) {
+        continue
+      }
+
+      if (limit.unit === 'bytes') {
+        if (Buffer.byteLength(event.content) > limit.maxLength) {
+          return `invalid: content is longer than ${limit.maxLength} bytes`
+        }
+      } else if (event.content.length > limit.maxLength) {
+        return `invalid: content is longer than ${limit.maxLength} characters`
+      }
+    }
+
+    if (Array.isArray(limits.tags)) {
+      const tagLimit = limits.tags.find((limit) => Array.isArray(limit.kinds)
+        && limit.kinds.some(isEventKindOrRangeMatch(event)))
+        ?? limits.tags.find((limit) => !Array.isArray(limit.kinds))
+
+      const tags = event.tags.filter((tag) => !tagLimit?.whitelist?.includes(tag[0]))
+
+      if (
+        typeof tagLimit?.maxTags !== 'undefined'
+        && tagLimit.maxTags > 0
+        && tags.length > tagLimit.maxTags
+      ) {
+        return `invalid: event has more than ${tagLimit.maxTags} tags`
+      }
+
+      if (
+        typeof tagLimit?.maxTagValueLength !== 'undefined'
+        && tagLimit.maxTagValueLength > 0
+        && tags.some((tag) => tag.slice(1).some((value) => value.length > tagLimit.maxTagValueLength))
+      ) {
+        return `invalid: tag value is longer than ${tagLimit.maxTagValueLength} characters`
+      }
     }
 
     if (
       typeof limits.createdAt?.maxPositiveDelta !== 'undefined'
       && limits.createdAt.maxPositiveDelta > 0
       && event.created_at > now + limits.createdAt.maxPositiveDelta) {
-      return `rejected: created_at is more than ${limits.createdAt.maxPositiveDelta} seconds in the future`
+      return `invalid: created_at is more than ${limits.createdAt.maxPositiveDelta} seconds in the future`
     }
 
     if (
       typeof limits.createdAt?.maxNegativeDelta !== 'undefined'
       && limits.createdAt.maxNegativeDelta > 0
       && event.created_at < now - limits.createdAt.maxNegativeDelta) {
-      return `rejected: created_at is more than ${limits.createdAt.maxNegativeDelta} seconds in the past`
+      return `invalid: created_at is more than ${limits.createdAt.maxNegativeDelta} seconds in the past`
     }
 
     if (
@@ -192,6 +266,31 @@ export class EventMessageHandler implements IMessageHandler {
     }
   }
 
+  protected async isPubkeyBanned(event: Event): Promise<string | undefined> {
+    if (
+      this.getRelayPublicKey() === event.pubkey
+      || this.settings().admin?.pubkeys?.includes(event.pubkey)
+    ) {
+      return
+    }
+
+    const ban = await this.banService().getPubkeyBan(event.pubkey)
+    if (ban) {
+      return ban.reason ? `blocked: pubkey is banned: ${ban.reason}` : 'blocked: pubkey is banned'
+    }
+  }
+
+  protected async isEventBanned(event: Event): Promise<string | undefined> {
+    const ban = await this.banService().getEventBan(event.id)
+    if (ban) {
+      return ban.reason ? `blocked: event is banned: ${ban.reason}` : 'blocked: event is banned'
+    }
+  }
+
+  protected async isEventDeleted(event: Event): Promise<boolean> {
+    return this.eventRepository.isDeleted(event.id, event.pubkey)
+  }
+
   protected async isRateLimited(event: Event): Promise<boolean> {
     if (this.getRelayPublicKey() === event.pubkey) {
       return false
@@ -281,12 +380,35 @@ export class EventMessageHandler implements IMessageHandler {
       return 'blocked: pubkey not admitted'
     }
 
+    if (user.admittedUntil && user.admittedUntil <= new Date()) {
+      return 'blocked: admission expired'
+    }
+
     const minBalance = currentSettings.limits?.event?.pubkey?.minBalance ?? 0n
     if (minBalance > 0n && user.balance < minBalance) {
       return 'blocked: insufficient balance'
     }
   }
 
+  protected async isPubkeyVerified(event: Event): Promise<string | undefined> {
+    if (!this.settings().limits?.event?.pubkey?.nip05?.enabled) {
+      return
+    }
+
+    if (this.getRelayPublicKey() === event.pubkey) {
+      return
+    }
+
+    // Metadata events must be accepted since they carry the NIP-05 identifier to verify
+    if (event.kind === EventKinds.SET_METADATA) {
+      return
+    }
+
+    if (!await this.nip05VerificationService().isPubkeyVerified(event.pubkey)) {
+      return 'blocked: nip05 verification required'
+    }
+  }
+
   protected addExpirationMetadata(event: Event): Event | ExpiringEvent {
     const eventExpiration: number = getEventExpiration(event)
     if (eventExpiration) {
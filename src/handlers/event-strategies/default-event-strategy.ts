@@ -1,8 +1,10 @@
 import { createCommandResult } from '../../utils/messages'
 import { createLogger } from '../../factories/logger-factory'
 import { Event } from '../../@types/event'
+import { Factory } from '../../@types/base'
 import { IEventRepository } from '../../@types/repositories'
 import { IEventStrategy } from '../../@types/message-handlers'
+import { IPublicationFeeService } from '../../@types/services'
 import { IWebSocketAdapter } from '../../@types/adapters'
 import { WebSocketAdapterEvent } from '../../constants/adapter'
 
@@ -12,11 +14,24 @@ export class DefaultEventStrategy implements IEventStrategy<Event, Promise<void>
   public constructor(
     private readonly webSocket: IWebSocketAdapter,
     private readonly eventRepository: IEventRepository,
+    private readonly publicationFeeService: Factory<IPublicationFeeService>,
   ) { }
 
   public async execute(event: Event): Promise<void> {
     debug('received event: %o', event)
-    const count = await this.eventRepository.create(event)
+    const count = await this.publicationFeeService().chargePublicationFee(
+      event,
+      (client) => this.eventRepository.create(event, client),
+    )
+    if (typeof count === 'undefined') {
+      debug('event %s rejected: insufficient balance', event.id)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createCommandResult(event.id, false, 'blocked: insufficient balance'),
+      )
+      return
+    }
+
     this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, (count) ? '' : 'duplicate:'))
 
     if (count) {
@@ -1,6 +1,7 @@
+import { Event, EventAddress } from '../../@types/event'
+import { isParameterizedReplaceableEvent, isReplaceableEvent, parseEventAddress } from '../../utils/event'
 import { createCommandResult } from '../../utils/messages'
 import { createLogger } from '../../factories/logger-factory'
-import { Event } from '../../@types/event'
 import { EventTags } from '../../constants/base'
 import { IEventRepository } from '../../@types/repositories'
 import { IEventStrategy } from '../../@types/message-handlers'
@@ -44,6 +45,35 @@ export class DeleteEventStrategy implements IEventStrategy<Event, Promise<void>>
       }
     }
 
+    // NIP-09: (parameterized) replaceable events can be deleted by their address
+    const isValidATag = (tag: Tag) =>
+      tag.length >= 2
+      && tag[0] === EventTags.Address
+
+    const isAddressable = ({ kind }: EventAddress) =>
+      isReplaceableEvent({ kind } as Event) || isParameterizedReplaceableEvent({ kind } as Event)
+
+    const addressesToDelete = event.tags.reduce(
+      (addresses, tag) => {
+        const address = isValidATag(tag) ? parseEventAddress(tag[1]) : undefined
+
+        return address
+          && address.pubkey === event.pubkey
+          && isAddressable(address)
+          ? [...addresses, address]
+          : addresses
+      },
+      [] as EventAddress[]
+    )
+
+    if (addressesToDelete.length) {
+      await this.eventRepository.deleteByPubkeyAndAddresses(
+        event.pubkey,
+        addressesToDelete,
+        event.created_at,
+      )
+    }
+
     const count = await this.eventRepository.create(event)
     this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, (count) ? '' : 'duplicate:'))
 
@@ -0,0 +1,107 @@
+import { DatabaseClient, Factory, Tag } from '../../@types/base'
+import { IEventRepository, IModerationActionRepository } from '../../@types/repositories'
+import { ModerationAction, ModerationActionType } from '../../@types/moderation'
+import { Ban } from '../../@types/ban'
+import { createCommandResult } from '../../utils/messages'
+import { createLogger } from '../../factories/logger-factory'
+import { Event } from '../../@types/event'
+import { EventTags } from '../../constants/base'
+import { IBanService } from '../../@types/services'
+import { IEventStrategy } from '../../@types/message-handlers'
+import { IWebSocketAdapter } from '../../@types/adapters'
+import { Settings } from '../../@types/settings'
+import { Transaction } from '../../database/transaction'
+import { WebSocketAdapterEvent } from '../../constants/adapter'
+
+const debug = createLogger('moderation-event-strategy')
+
+export class ModerationEventStrategy implements IEventStrategy<Event, Promise<void>> {
+  public constructor(
+    private readonly webSocket: IWebSocketAdapter,
+    private readonly dbClient: DatabaseClient,
+    private readonly eventRepository: IEventRepository,
+    private readonly moderationActionRepository: IModerationActionRepository,
+    private readonly settings: () => Settings,
+    private readonly banService: Factory<IBanService>,
+  ) { }
+
+  public async execute(event: Event): Promise<void> {
+    debug('received report event from admin: %o', event)
+
+    const isValidTag = (tagName: string) => (tag: Tag) =>
+      tag.length >= 2
+      && tag[0] === tagName
+      && /^[0-9a-f]{64}$/.test(tag[1])
+
+    const pubkeyTags = event.tags.filter(isValidTag(EventTags.Pubkey))
+    const eventTags = event.tags.filter(isValidTag(EventTags.Event))
+
+    // NIP-56: the report type is the third element of the e or p tag
+    const reportType = eventTags.find((tag) => tag[2])?.[2] ?? pubkeyTags.find((tag) => tag[2])?.[2]
+    const reason = [reportType, event.content].filter(Boolean).join(': ') || undefined
+
+    const eventIds = eventTags.map((tag) => tag[1])
+
+    const bans: Ban[] = []
+    const transaction = new Transaction(this.dbClient)
+    try {
+      await transaction.begin()
+
+      const actions: ModerationAction[] = []
+      for (const [, pubkey] of pubkeyTags) {
+        if (eventIds.length) {
+          const deletedEventIds = await this.eventRepository.deleteByPubkeyAndIdsReturningIds(
+            pubkey,
+            eventIds,
+            transaction.transaction,
+          )
+          debug('deleted %d events reported by %s', deletedEventIds.length, event.pubkey)
+
+          actions.push(
+            ...deletedEventIds.map((eventId) => ({
+              type: ModerationActionType.DeleteEvent,
+              moderatorPubkey: event.pubkey,
+              pubkey,
+              eventId,
+              reportEventId: event.id,
+              reason,
+            }))
+          )
+        } else if (this.settings().admin?.banReportedPubkeys) {
+          bans.push(await this.banService().banPubkey(pubkey, reason, undefined, transaction.transaction))
+          debug('banned %s', pubkey)
+
+          actions.push({
+            type: ModerationActionType.BanPubkey,
+            moderatorPubkey: event.pubkey,
+            pubkey,
+            reportEventId: event.id,
+            reason,
+          })
+        }
+      }
+
+      if (actions.length) {
+        await this.moderationActionRepository.create(actions, transaction.transaction)
+      }
+
+      await transaction.commit()
+    } catch (error) {
+      await transaction.rollback()
+
+      throw error
+    }
+
+    // Bans are only cached once they are committed
+    for (const ban of bans) {
+      await this.banService().cacheBan(ban)
+    }
+
+    const count = await this.eventRepository.create(event)
+    this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, (count) ? '' : 'duplicate:'))
+
+    if (count) {
+      this.webSocket.emit(WebSocketAdapterEvent.Broadcast, event)
+    }
+  }
+}
@@ -2,8 +2,11 @@ import { Event, ParameterizedReplaceableEvent } from '../../@types/event'
 import { EventDeduplicationMetadataKey, EventTags } from '../../constants/base'
 import { createCommandResult } from '../../utils/messages'
 import { createLogger } from '../../factories/logger-factory'
+import { Factory } from '../../@types/base'
+import { getEventAddress } from '../../utils/event'
 import { IEventRepository } from '../../@types/repositories'
 import { IEventStrategy } from '../../@types/message-handlers'
+import { IPublicationFeeService } from '../../@types/services'
 import { IWebSocketAdapter } from '../../@types/adapters'
 import { WebSocketAdapterEvent } from '../../constants/adapter'
 
@@ -14,11 +17,21 @@ export class ParameterizedReplaceableEventStrategy
   public constructor(
     private readonly webSocket: IWebSocketAdapter,
     private readonly eventRepository: IEventRepository,
+    private readonly publicationFeeService: Factory<IPublicationFeeService>,
   ) { }
 
   public async execute(event: Event): Promise<void> {
     debug('received parameterized replaceable event: %o', event)
 
+    if (await this.isDeleted(event)) {
+      debug('event %s rejected: deleted', event.id)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createCommandResult(event.id, false, 'blocked: event was deleted'),
+      )
+      return
+    }
+
     const [, ...deduplication] = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Deduplication) ?? [null, '']
 
     const parameterizedReplaceableEvent: ParameterizedReplaceableEvent = {
@@ -26,11 +39,27 @@ export class ParameterizedReplaceableEventStrategy
       [EventDeduplicationMetadataKey]: deduplication,
     }
 
-    const count = await this.eventRepository.upsert(parameterizedReplaceableEvent)
+    const count = await this.publicationFeeService().chargePublicationFee(
+      parameterizedReplaceableEvent,
+      (client) => this.eventRepository.upsert(parameterizedReplaceableEvent, client),
+    )
+    if (typeof count === 'undefined') {
+      debug('event %s rejected: insufficient balance', event.id)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createCommandResult(event.id, false, 'blocked: insufficient balance'),
+      )
+      return
+    }
     this.webSocket.emit(WebSocketAdapterEvent.Message, createCommandResult(event.id, true, (count) ? '' : 'duplicate:'))
 
     if (count) {
       this.webSocket.emit(WebSocketAdapterEvent.Broadcast, event)
     }
   }
+
+  private isDeleted(event: Event): Promise<boolean> {
+    // NIP-09: versions published up to a deletion's created_at stay deleted
+    return this.eventRepository.isAddressDeleted(event.pubkey, getEventAddress(event), event.created_at)
+  }
 }
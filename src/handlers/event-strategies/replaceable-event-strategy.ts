@@ -1,8 +1,11 @@
 import { createCommandResult } from '../../utils/messages'
 import { createLogger } from '../../factories/logger-factory'
 import { Event } from '../../@types/event'
+import { Factory } from '../../@types/base'
+import { getEventAddress } from '../../utils/event'
 import { IEventRepository } from '../../@types/repositories'
 import { IEventStrategy } from '../../@types/message-handlers'
+import { IPublicationFeeService } from '../../@types/services'
 import { IWebSocketAdapter } from '../../@types/adapters'
 import { WebSocketAdapterEvent } from '../../constants/adapter'
 
@@ -12,12 +15,33 @@ export class ReplaceableEventStrategy implements IEventStrategy<Event, Promise<v
   public constructor(
     private readonly webSocket: IWebSocketAdapter,
     private readonly eventRepository: IEventRepository,
+    private readonly publicationFeeService: Factory<IPublicationFeeService>,
   ) { }
 
   public async execute(event: Event): Promise<void> {
     debug('received replaceable event: %o', event)
+
+    if (await this.isDeleted(event)) {
+      debug('event %s rejected: deleted', event.id)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createCommandResult(event.id, false, 'blocked: event was deleted'),
+      )
+      return
+    }
     try {
-      const count = await this.eventRepository.upsert(event)
+      const count = await this.publicationFeeService().chargePublicationFee(
+        event,
+        (client) => this.eventRepository.upsert(event, client),
+      )
+      if (typeof count === 'undefined') {
+        debug('event %s rejected: insufficient balance', event.id)
+        this.webSocket.emit(
+          WebSocketAdapterEvent.Message,
+          createCommandResult(event.id, false, 'blocked: insufficient balance'),
+        )
+        return
+      }
       this.webSocket.emit(
         WebSocketAdapterEvent.Message,
         createCommandResult(event.id, true, (count) ? '' : 'duplicate:'),
@@ -30,7 +54,7 @@ export class ReplaceableEventStrategy implements IEventStrategy<Event, Promise<v
         if (error.message.endsWith('duplicate key value violates unique constraint "events_event_id_unique"')) {
           this.webSocket.emit(
             WebSocketAdapterEvent.Message,
-            createCommandResult(event.id, false, 'rejected: event already exists'),
+            createCommandResult(event.id, false, 'duplicate: event already exists'),
           )
           return
         }
@@ -42,4 +66,9 @@ export class ReplaceableEventStrategy implements IEventStrategy<Event, Promise<v
       }
     }
   }
+
+  private isDeleted(event: Event): Promise<boolean> {
+    // NIP-09: versions published up to a deletion's created_at stay deleted
+    return this.eventRepository.isAddressDeleted(event.pubkey, getEventAddress(event), event.created_at)
+  }
 }
@@ -0,0 +1,67 @@
+import { getHttpRelayUrl, getRemoteAddress } from '../../utils/http'
+import { getNip98AuthorizationEvent, isNip98AuthorizationEventValid, NIP98_MAX_CREATED_AT_DELTA } from '../../utils/nip98'
+import { NextFunction, Request, Response } from 'express'
+import { cacheAdapterFactory } from '../../factories/cache-adapter-factory'
+import { createLogger } from '../../factories/logger-factory'
+import { createSettings } from '../../factories/settings-factory'
+
+const debug = createLogger('admin-auth-middleware')
+
+export const adminAuthMiddleware = async (request: Request, response: Response, next: NextFunction) => {
+  const currentSettings = createSettings()
+  const remoteAddress = getRemoteAddress(request, currentSettings)
+
+  const event = getNip98AuthorizationEvent(request.headers.authorization)
+  if (!event) {
+    debug('unauthenticated request from %s to %s', remoteAddress, request.originalUrl)
+    response
+      .status(401)
+      .setHeader('www-authenticate', 'Nostr')
+      .setHeader('content-type', 'text/plain; charset=utf8')
+      .send('Unauthorized')
+    return
+  }
+
+  const url = new URL(request.originalUrl, getHttpRelayUrl(currentSettings)).toString()
+  // Routes parse the raw body before this middleware so requests with a body must carry its hash
+  const payload = Buffer.isBuffer(request.body) && request.body.length ? request.body : undefined
+  const reason = await isNip98AuthorizationEventValid(event, url, request.method, payload)
+  if (reason) {
+    debug('invalid authorization from %s to %s: %s', remoteAddress, request.originalUrl, reason)
+    response
+      .status(401)
+      .setHeader('www-authenticate', 'Nostr')
+      .setHeader('content-type', 'text/plain; charset=utf8')
+      .send(reason)
+    return
+  }
+
+  if (!currentSettings.admin?.pubkeys?.includes(event.pubkey)) {
+    debug('forbidden request by %s from %s to %s', event.pubkey, remoteAddress, request.originalUrl)
+    response
+      .status(403)
+      .setHeader('content-type', 'text/plain; charset=utf8')
+      .send('Forbidden')
+    return
+  }
+
+  // Authorization events are single use. Keep their ids for as long as created_at is accepted.
+  const isFirstUse = await cacheAdapterFactory().setKeyIfNotExists(
+    `nip98:${event.id}`,
+    event.pubkey,
+    NIP98_MAX_CREATED_AT_DELTA * 2,
+  )
+  if (!isFirstUse) {
+    debug('replayed authorization by %s from %s to %s', event.pubkey, remoteAddress, request.originalUrl)
+    response
+      .status(401)
+      .setHeader('www-authenticate', 'Nostr')
+      .setHeader('content-type', 'text/plain; charset=utf8')
+      .send('invalid: authorization event already used')
+    return
+  }
+
+  response.locals.pubkey = event.pubkey
+
+  next()
+}
@@ -0,0 +1,19 @@
+import { Request, Response } from 'express'
+
+import { Factory } from '../../@types/base'
+import { IController } from '../../@types/controllers'
+
+export const controllerRequestHandler = (createController: Factory<IController>) =>
+  async (req: Request, res: Response) => {
+    const controller = createController()
+
+    try {
+      await controller.handleRequest(req, res)
+    } catch (error) {
+      console.error('Unable handle request.', error)
+      res
+        .status(500)
+        .setHeader('content-type', 'text/plain; charset=utf8')
+        .send('Error handling request')
+    }
+  }
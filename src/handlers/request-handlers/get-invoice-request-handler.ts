@@ -2,22 +2,31 @@ import { NextFunction, Request, Response } from 'express'
 import { path, pathEq } from 'ramda'
 import { readFileSync } from 'fs'
 
+import { FeeSchedule, TopUp } from '../../@types/settings'
 import { createSettings } from '../../factories/settings-factory'
-import { FeeSchedule } from '../../@types/settings'
 
 let pageCache: string
 
 export const getInvoiceRequestHandler = (_req: Request, res: Response, next: NextFunction) => {
   const settings = createSettings()
 
-  if (pathEq(['payments', 'enabled'], true, settings)
-   && pathEq(['payments', 'feeSchedules', 'admission', '0', 'enabled'], true, settings)) {
+  const isAdmissionEnabled = pathEq(['payments', 'feeSchedules', 'admission', '0', 'enabled'], true, settings)
+  const isTopUpEnabled = pathEq(['payments', 'topUp', 'enabled'], true, settings)
+
+  if (pathEq(['payments', 'enabled'], true, settings) && (isAdmissionEnabled || isTopUpEnabled)) {
     if (!pageCache) {
       const name = path<string>(['info', 'name'])(settings)
       const feeSchedule = path<FeeSchedule>(['payments', 'feeSchedules', 'admission', '0'], settings)
+      const topUp = path<TopUp>(['payments', 'topUp'], settings)
       pageCache = readFileSync('./resources/index.html', 'utf8')
         .replaceAll('{{name}}', name)
-        .replaceAll('{{amount}}', (BigInt(feeSchedule.amount) / 1000n).toString())
+        .replaceAll('{{amount}}', (BigInt(feeSchedule?.amount ?? 0) / 1000n).toString())
+        .replaceAll('{{admission_class}}', isAdmissionEnabled ? '' : 'd-none')
+        .replaceAll('{{topup_class}}', isTopUpEnabled ? '' : 'd-none')
+        .replaceAll('{{fee_schedule_class}}', isAdmissionEnabled && isTopUpEnabled ? '' : 'd-none')
+        .replaceAll('{{fee_schedule_id}}', isAdmissionEnabled ? 'feeScheduleAdmission' : 'feeScheduleTopUp')
+        .replaceAll('{{topup_min}}', (BigInt(topUp?.minAmount ?? 1000) / 1000n).toString())
+        .replaceAll('{{topup_max}}', typeof topUp?.maxAmount === 'undefined' ? '' : (BigInt(topUp.maxAmount) / 1000n).toString())
     }
 
     res.status(200).setHeader('content-type', 'text/html; charset=utf8').send(pageCache)
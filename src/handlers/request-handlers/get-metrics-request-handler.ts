@@ -0,0 +1,16 @@
+import { NextFunction, Request, Response } from 'express'
+
+import { collectMetrics, serializeMetricSnapshots } from '../../utils/metrics'
+
+export const getMetricsRequestHandler = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const metrics = await collectMetrics(process)
+
+    res
+      .status(200)
+      .setHeader('content-type', 'text/plain; version=0.0.4; charset=utf-8')
+      .send(serializeMetricSnapshots(metrics))
+  } catch (error) {
+    next(error)
+  }
+}
@@ -0,0 +1,29 @@
+import { NextFunction, Request, Response } from 'express'
+
+/**
+ * Parses a raw JSON body once it has been authenticated
+ */
+export const jsonBodyMiddleware = (request: Request, response: Response, next: NextFunction) => {
+  if (!Buffer.isBuffer(request.body)) {
+    next()
+    return
+  }
+
+  if (!request.body.length) {
+    request.body = {}
+    next()
+    return
+  }
+
+  try {
+    request.body = JSON.parse(request.body.toString('utf8'))
+  } catch (error) {
+    response
+      .status(400)
+      .setHeader('content-type', 'text/plain; charset=utf8')
+      .send('Invalid JSON')
+    return
+  }
+
+  next()
+}
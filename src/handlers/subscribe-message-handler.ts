@@ -1,64 +1,98 @@
 import { anyPass, equals, isNil, map, propSatisfies, uniqWith } from 'ramda'
-// import { addAbortSignal } from 'stream'
 import { pipeline } from 'stream/promises'
 
-import { createEndOfStoredEventsNoticeMessage, createNoticeMessage, createOutgoingEventMessage } from '../utils/messages'
+import { ClientSubscriptionLimits, Settings } from '../@types/settings'
+import { createClosedMessage, createEndOfStoredEventsNoticeMessage, createOutgoingEventMessage } from '../utils/messages'
 import { IAbortable, IMessageHandler } from '../@types/message-handlers'
-import { isEventMatchingFilter, toNostrEvent } from '../utils/event'
-import { streamEach, streamEnd, streamFilter, streamMap } from '../utils/stream'
+import { isEventAccessible, isEventMatchingFilter, toNostrEvent } from '../utils/event'
+import { streamEachAsync, streamEnd, streamFilter, streamMap } from '../utils/stream'
 import { SubscriptionFilter, SubscriptionId } from '../@types/subscription'
 import { createLogger } from '../factories/logger-factory'
+import { delayMs } from '../utils/misc'
 import { Event } from '../@types/event'
 import { IEventRepository } from '../@types/repositories'
 import { IWebSocketAdapter } from '../@types/adapters'
-import { Settings } from '../@types/settings'
 import { SubscribeMessage } from '../@types/messages'
 import { WebSocketAdapterEvent } from '../constants/adapter'
 
 const debug = createLogger('subscribe-message-handler')
 
+const BACKPRESSURE_POLL_INTERVAL = 50
+
 export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
-  //private readonly abortController: AbortController
+  private readonly abortController: AbortController
 
   public constructor(
     private readonly webSocket: IWebSocketAdapter,
     private readonly eventRepository: IEventRepository,
     private readonly settings: () => Settings,
   ) {
-    //this.abortController = new AbortController()
+    this.abortController = new AbortController()
   }
 
   public abort(): void {
-    //this.abortController.abort()
+    this.abortController.abort()
   }
 
   public async handleMessage(message: SubscribeMessage): Promise<void> {
     const subscriptionId = message[1]
     const filters = uniqWith(equals, message.slice(2)) as SubscriptionFilter[]
 
+    // The subscription is still open so a CLOSED message would mislead the client
+    if (this.isDuplicateSubscription(subscriptionId, filters)) {
+      debug('subscription %s with %o ignored: duplicate', subscriptionId, filters)
+      return
+    }
+
     const reason = this.canSubscribe(subscriptionId, filters)
     if (reason) {
       debug('subscription %s with %o rejected: %s', subscriptionId, filters, reason)
-      this.webSocket.emit(WebSocketAdapterEvent.Message, createNoticeMessage(`Subscription rejected: ${reason}`))
+      this.webSocket.emit(WebSocketAdapterEvent.Message, createClosedMessage(subscriptionId, reason))
       return
     }
 
     this.webSocket.emit(WebSocketAdapterEvent.Subscribe, subscriptionId, filters)
 
-    await this.fetchAndSend(subscriptionId, filters)
+    const onUnsubscribe = (unsubscribedId: SubscriptionId) => {
+      if (unsubscribedId === subscriptionId) {
+        this.abort()
+      }
+    }
+
+    this.webSocket.on(WebSocketAdapterEvent.Unsubscribe, onUnsubscribe)
+    try {
+      await this.fetchAndSend(subscriptionId, filters)
+    } finally {
+      this.webSocket.off(WebSocketAdapterEvent.Unsubscribe, onUnsubscribe)
+    }
   }
 
   private async fetchAndSend(subscriptionId: string, filters: SubscriptionFilter[]): Promise<void> {
     debug('fetching events for subscription %s with filters %o', subscriptionId, filters)
-    const sendEvent = (event: Event) =>
+    const { signal } = this.abortController
+
+    let count = 0
+    const sendEvent = async (event: Event) => {
+      count++
       this.webSocket.emit(WebSocketAdapterEvent.Message, createOutgoingEventMessage(subscriptionId, event))
+
+      // Pausing here pauses the database stream until the client catches up
+      while (this.webSocket.hasBackpressure() && !signal.aborted) {
+        await delayMs(BACKPRESSURE_POLL_INTERVAL)
+      }
+    }
     const sendEOSE = () =>
       this.webSocket.emit(WebSocketAdapterEvent.Message, createEndOfStoredEventsNoticeMessage(subscriptionId))
     const isSubscribedToEvent = SubscribeMessageHandler.isClientSubscribedToEvent(filters)
 
-    const findEvents = this.eventRepository.findByFilters(filters).stream()
+    const protectedKinds = this.settings().limits?.client?.subscription?.protectedKinds ?? []
+    const authenticatedPubkeys = Array.from(this.webSocket.getAuthenticatedPubkeys())
+    const isAccessible = isEventAccessible(protectedKinds, authenticatedPubkeys)
 
-    // const abortableFindEvents = addAbortSignal(this.abortController.signal, findEvents)
+    const findEvents = this.eventRepository.findByFilters(
+      filters,
+      { protectedKinds, authenticatedPubkeys, signal },
+    ).stream()
 
     try {
       await pipeline(
@@ -66,16 +100,24 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
         streamFilter(propSatisfies(isNil, 'deleted_at')),
         streamMap(toNostrEvent),
         streamFilter(isSubscribedToEvent),
-        streamEach(sendEvent),
+        streamFilter(isAccessible),
+        streamEachAsync(sendEvent),
         streamEnd(sendEOSE),
+        { signal },
       )
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
-        debug('subscription %s aborted: %o', subscriptionId, error)
-       findEvents.destroy()
-      } else {
-        debug('error streaming events: %o', error)
+        debug('subscription %s aborted after sending %d events', subscriptionId, count)
+        findEvents.destroy()
+        return
       }
+
+      debug('error streaming events: %o', error)
+      this.webSocket.emit(WebSocketAdapterEvent.Unsubscribe, subscriptionId)
+      this.webSocket.emit(
+        WebSocketAdapterEvent.Message,
+        createClosedMessage(subscriptionId, 'error: unable to fetch events'),
+      )
       throw error
     }
   }
@@ -84,36 +126,47 @@ export class SubscribeMessageHandler implements IMessageHandler, IAbortable {
     return anyPass(map(isEventMatchingFilter)(filters))
   }
 
+  private isDuplicateSubscription(subscriptionId: SubscriptionId, filters: SubscriptionFilter[]): boolean {
+    const existingSubscription = this.webSocket.getSubscriptions().get(subscriptionId)
+
+    return Boolean(existingSubscription?.length) && equals(filters, existingSubscription)
+  }
+
   private canSubscribe(subscriptionId: SubscriptionId, filters: SubscriptionFilter[]): string | undefined {
     const subscriptions = this.webSocket.getSubscriptions()
     const existingSubscription = subscriptions.get(subscriptionId)
     const subscriptionLimits = this.settings().limits?.client?.subscription
 
-    if (existingSubscription?.length && equals(filters, existingSubscription)) {
-        return `Duplicate subscription ${subscriptionId}: Ignorning`
-    }
-
     const maxSubscriptions = subscriptionLimits?.maxSubscriptions ?? 0
     if (maxSubscriptions > 0
       && !existingSubscription?.length && subscriptions.size + 1 > maxSubscriptions
     ) {
-      return `Too many subscriptions: Number of subscriptions must be less than or equal to ${maxSubscriptions}`
+      return `restricted: number of subscriptions must be less than or equal to ${maxSubscriptions}`
     }
 
+    return SubscribeMessageHandler.validateFilters(subscriptionId, filters, subscriptionLimits)
+  }
+
+  /**
+   * Limits that apply to subscriptions and counts alike
+   */
+  public static validateFilters(
+    subscriptionId: SubscriptionId,
+    filters: SubscriptionFilter[],
+    subscriptionLimits: ClientSubscriptionLimits | undefined,
+  ): string | undefined {
     const maxFilters = subscriptionLimits?.maxFilters ?? 0
     if (maxFilters > 0) {
       if (filters.length > maxFilters) {
-        return `Too many filters: Number of filters per susbscription must be less then or equal to ${maxFilters}`
+        return `restricted: number of filters per subscription must be less than or equal to ${maxFilters}`
       }
     }
 
     if (
-      typeof subscriptionLimits.maxSubscriptionIdLength === 'number'
+      typeof subscriptionLimits?.maxSubscriptionIdLength === 'number'
       && subscriptionId.length > subscriptionLimits.maxSubscriptionIdLength
     ) {
-      return `Subscription ID too long: Subscription ID must be less or equal to ${subscriptionLimits.maxSubscriptionIdLength}`
+      return `invalid: subscription id must be less than or equal to ${subscriptionLimits.maxSubscriptionIdLength} characters`
     }
-
-
   }
 }
@@ -1,6 +1,6 @@
 import { CreateInvoiceRequest, CreateInvoiceResponse, GetInvoiceResponse, IPaymentsProcessor } from '../@types/clients'
 import { deriveFromSecret, hmacSha256 } from '../utils/secret'
-import { Invoice, InvoiceStatus, InvoiceUnit } from '../@types/invoice'
+import { Invoice, InvoicePurpose, InvoiceStatus, InvoiceUnit } from '../@types/invoice'
 
 import { AxiosInstance } from 'axios'
 import { createLogger } from '../factories/logger-factory'
@@ -18,6 +18,7 @@ export class LNbitsInvoice implements Invoice {
   amountPaid?: bigint
   unit: InvoiceUnit
   status: InvoiceStatus
+  purpose: InvoicePurpose
   description: string
   confirmedAt?: Date | null
   expiresAt: Date | null
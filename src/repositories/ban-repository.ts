@@ -0,0 +1,155 @@
+import { always, applySpec, ifElse, isNil, omit, pipe, prop, propSatisfies } from 'ramda'
+
+import { Ban, DBBan } from '../@types/ban'
+import { DatabaseClient, EventId, Pubkey } from '../@types/base'
+import { fromDBBan, toBuffer } from '../utils/transform'
+import { createLogger } from '../factories/logger-factory'
+import { IBanRepository } from '../@types/repositories'
+
+const debug = createLogger('ban-repository')
+
+export class BanRepository implements IBanRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  public async findActive(
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Ban[]> {
+    debug('find active bans')
+
+    const dbbans = await client<DBBan>('bans')
+      .where((builder) => builder.whereNull('expires_at').orWhere('expires_at', '>', client.raw('now()')))
+      .orderBy('created_at', 'desc')
+      .select()
+
+    return dbbans.map(fromDBBan)
+  }
+
+  public async findActiveByPubkey(
+    pubkey: Pubkey,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Ban | undefined> {
+    debug('find active ban by pubkey: %s', pubkey)
+
+    const dbban = await client<DBBan>('bans')
+      .where('pubkey', toBuffer(pubkey))
+      .where((builder) => builder.whereNull('expires_at').orWhere('expires_at', '>', client.raw('now()')))
+      .first()
+
+    if (!dbban) {
+      return
+    }
+
+    return fromDBBan(dbban)
+  }
+
+  public async findActiveByIpAddress(
+    ipAddress: string,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Ban | undefined> {
+    debug('find active ban by ip address: %s', ipAddress)
+
+    const dbban = await client<DBBan>('bans')
+      .where('ip_address', ipAddress)
+      .where((builder) => builder.whereNull('expires_at').orWhere('expires_at', '>', client.raw('now()')))
+      .first()
+
+    if (!dbban) {
+      return
+    }
+
+    return fromDBBan(dbban)
+  }
+
+  public async findActiveByEventId(
+    eventId: EventId,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Ban | undefined> {
+    debug('find active ban by event id: %s', eventId)
+
+    const dbban = await client<DBBan>('bans')
+      .where('event_id', toBuffer(eventId))
+      .where((builder) => builder.whereNull('expires_at').orWhere('expires_at', '>', client.raw('now()')))
+      .first()
+
+    if (!dbban) {
+      return
+    }
+
+    return fromDBBan(dbban)
+  }
+
+  public upsert(
+    ban: Ban,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<Ban> {
+    debug('upsert: %o', ban)
+
+    const date = new Date()
+
+    const row = applySpec<Omit<DBBan, 'id'>>({
+      pubkey: ifElse(propSatisfies(isNil, 'pubkey'), always(null), pipe(prop('pubkey'), toBuffer)),
+      ip_address: ifElse(propSatisfies(isNil, 'ipAddress'), always(null), prop('ipAddress')),
+      event_id: ifElse(propSatisfies(isNil, 'eventId'), always(null), pipe(prop('eventId'), toBuffer)),
+      reason: ifElse(propSatisfies(isNil, 'reason'), always(null), prop('reason')),
+      expires_at: ifElse(propSatisfies(isNil, 'expiresAt'), always(null), prop('expiresAt')),
+      created_at: always(date),
+      updated_at: always(date),
+    })(ban)
+
+    const query = client<DBBan>('bans')
+      .insert(row)
+      .onConflict(ban.pubkey ? 'pubkey' : ban.eventId ? 'event_id' : 'ip_address')
+      .merge(
+        omit([
+          'pubkey',
+          'ip_address',
+          'event_id',
+          'created_at',
+        ])(row)
+      )
+      .returning('*')
+
+    return {
+      then: <T1, T2>(
+        onfulfilled: (value: Ban) => T1 | PromiseLike<T1>,
+        onrejected: (reason: any) => T2 | PromiseLike<T2>,
+      ) => query.then(([dbban]) => fromDBBan(dbban)).then(onfulfilled, onrejected),
+      catch: <T>(onrejected: (reason: any) => T | PromiseLike<T>) => query.catch(onrejected),
+      toString: (): string => query.toString(),
+    } as Promise<Ban>
+  }
+
+
+  public deleteByPubkey(
+    pubkey: Pubkey,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('delete ban by pubkey: %s', pubkey)
+
+    return client<DBBan>('bans')
+      .where('pubkey', toBuffer(pubkey))
+      .delete()
+  }
+
+  public deleteByEventId(
+    eventId: EventId,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('delete ban by event id: %s', eventId)
+
+    return client<DBBan>('bans')
+      .where('event_id', toBuffer(eventId))
+      .delete()
+  }
+
+  public deleteByIpAddress(
+    ipAddress: string,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('delete ban by ip address: %s', ipAddress)
+
+    return client<DBBan>('bans')
+      .where('ip_address', ipAddress)
+      .delete()
+  }
+}
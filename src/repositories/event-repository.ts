@@ -20,6 +20,7 @@ import {
   modulo,
   nth,
   omit,
+  once,
   path,
   paths,
   pipe,
@@ -29,13 +30,23 @@ import {
   toPairs,
 } from 'ramda'
 
-import { ContextMetadataKey, EventDeduplicationMetadataKey, EventDelegatorMetadataKey, EventExpirationTimeMetadataKey } from '../constants/base'
-import { DatabaseClient, EventId } from '../@types/base'
-import { DBEvent, Event } from '../@types/event'
-import { IEventRepository, IQueryResult } from '../@types/repositories'
-import { toBuffer, toJSON } from '../utils/transform'
+import {
+  ContextMetadataKey,
+  EventDeduplicationMetadataKey,
+  EventDelegatorMetadataKey,
+  EventExpirationTimeMetadataKey,
+  EventKinds,
+  EventTags,
+} from '../constants/base'
+import { DatabaseClient, EventId, Pubkey } from '../@types/base'
+import { DBEvent, Event, EventAddress } from '../@types/event'
+import { FindByFiltersOptions, IEventRepository, IQueryResult } from '../@types/repositories'
+import { fromBuffer, toBuffer, toJSON } from '../utils/transform'
+import { getSearchQuery, isGenericTagQuery } from '../utils/filter'
 import { createLogger } from '../factories/logger-factory'
-import { isGenericTagQuery } from '../utils/filter'
+import { eventQueryDurationHistogram } from '../utils/metrics'
+import { Knex } from 'knex'
+import { randomUUID } from 'crypto'
 import { SubscriptionFilter } from '../@types/subscription'
 
 const even = pipe(modulo(__, 2), equals(0))
@@ -59,68 +70,13 @@ export class EventRepository implements IEventRepository {
     private readonly readReplicaDbClient: DatabaseClient,
   ) { }
 
-  public findByFilters(filters: SubscriptionFilter[]): IQueryResult<DBEvent[]> {
+  public findByFilters(filters: SubscriptionFilter[], options: FindByFiltersOptions = {}): IQueryResult<DBEvent[]> {
     debug('querying for %o', filters)
     if (!Array.isArray(filters) || !filters.length) {
       throw new Error('Filters cannot be empty')
     }
     const queries = filters.map((currentFilter) => {
-      const builder = this.readReplicaDbClient<DBEvent>('events')
-
-      forEachObjIndexed((tableFields: string[], filterName: string | number) => {
-        builder.andWhere((bd) => {
-          cond([
-            [isEmpty, () => void bd.whereRaw('1 = 0')],
-            [
-              complement(isNil),
-              pipe(
-                groupByLengthSpec,
-                evolve({
-                  exact: (pubkeys: string[]) =>
-                    tableFields.forEach((tableField) =>
-                      bd.orWhereIn(tableField, pubkeys.map(toBuffer))
-                    ),
-                  even: forEach((prefix: string) =>
-                    tableFields.forEach((tableField) =>
-                      bd.orWhereRaw(
-                        `substring("${tableField}" from 1 for ?) = ?`,
-                        [prefix.length >> 1, toBuffer(prefix)]
-                      )
-                    )
-                  ),
-                  odd: forEach((prefix: string) =>
-                    tableFields.forEach((tableField) =>
-                      bd.orWhereRaw(
-                        `substring("${tableField}" from 1 for ?) BETWEEN ? AND ?`,
-                        [
-                          (prefix.length >> 1) + 1,
-                          `\\x${prefix}0`,
-                          `\\x${prefix}f`,
-                        ],
-                      )
-                    )
-                  ),
-                } as any),
-              ),
-            ],
-          ])(currentFilter[filterName] as string[])
-        })
-      })({
-        authors: ['event_pubkey', 'event_delegator'],
-        ids: ['event_id'],
-      })
-
-      if (Array.isArray(currentFilter.kinds)) {
-        builder.whereIn('event_kind', currentFilter.kinds)
-      }
-
-      if (typeof currentFilter.since === 'number') {
-        builder.where('event_created_at', '>=', currentFilter.since)
-      }
-
-      if (typeof currentFilter.until === 'number') {
-        builder.where('event_created_at', '<=', currentFilter.until)
-      }
+      const builder = this.applyFilter(this.readReplicaDbClient<DBEvent>('events'), currentFilter, options)
 
       if (typeof currentFilter.limit === 'number') {
         builder.limit(currentFilter.limit).orderBy('event_created_at', 'DESC')
@@ -128,29 +84,6 @@ export class EventRepository implements IEventRepository {
         builder.limit(500).orderBy('event_created_at', 'asc')
       }
 
-      const andWhereRaw = invoker(1, 'andWhereRaw')
-      const orWhereRaw = invoker(2, 'orWhereRaw')
-
-      pipe(
-        toPairs,
-        filter(pipe(nth(0) as () => string, isGenericTagQuery)) as any,
-        forEach(([filterName, criteria]: [string, string[]]) => {
-          builder.andWhere((bd) => {
-            ifElse(
-              isEmpty,
-              () => andWhereRaw('1 = 0', bd),
-              forEach((criterion: string) => void orWhereRaw(
-                '"event_tags" @> ?',
-                [
-                  JSON.stringify([[filterName[1], criterion]]) as any,
-                ],
-                bd,
-              )),
-            )(criteria)
-          })
-        }),
-      )(currentFilter as any)
-
       return builder
     })
 
@@ -159,14 +92,240 @@ export class EventRepository implements IEventRepository {
       query.union(subqueries, true)
     }
 
+    if (options.signal) {
+      this.cancelOnAbort(query, options.signal)
+    }
+
+    this.observeQueryDuration(query)
+
     return query
   }
 
-  public async create(event: Event): Promise<number> {
-    return this.insert(event).then(prop('rowCount') as () => number, () => 0)
+  private observeQueryDuration(query: Knex.QueryBuilder): void {
+    const observe = once(eventQueryDurationHistogram.startTimer())
+
+    query
+      .on('query-response', observe)
+      .on('query-error', observe)
+
+    // Streamed queries do not emit query events
+    const stream = query.stream.bind(query)
+    query.stream = ((...args: Parameters<typeof stream>) =>
+      stream(...args)
+        .once('end', observe)
+        .once('error', observe)
+    ) as typeof query.stream
   }
 
-  private insert(event: Event) {
+  private cancelOnAbort(query: Knex.QueryBuilder, signal: AbortSignal): void {
+    // Tag the query so its backend can be found and cancelled on the read replica
+    const tag = `query:${randomUUID()}`
+    query.hintComment(tag)
+
+    signal.addEventListener('abort', () => {
+      this.readReplicaDbClient.raw(
+        'select pg_cancel_backend(pid) from pg_stat_activity where pid <> pg_backend_pid() and state = ? and query like ?',
+        ['active', `%/*+ ${tag} */%`],
+      )
+        .then((result) => debug('cancelled %d running queries for %s', result.rowCount, tag))
+        .catch((error) => debug('unable to cancel queries for %s: %o', tag, error))
+    }, { once: true })
+  }
+
+  public async countByFilters(filters: SubscriptionFilter[], options: FindByFiltersOptions = {}): Promise<number> {
+    debug('counting for %o', filters)
+    if (!Array.isArray(filters) || !filters.length) {
+      throw new Error('Filters cannot be empty')
+    }
+
+    const [query, ...subqueries] = filters.map((currentFilter) =>
+      this.applyFilter(
+        this.readReplicaDbClient<DBEvent>('events').select('event_id').whereNull('deleted_at'),
+        currentFilter,
+        options,
+      )
+    )
+    if (subqueries.length) {
+      query.union(subqueries)
+    }
+
+    const [{ count }] = await this.readReplicaDbClient
+      .count({ count: '*' })
+      .from(query.as('filtered_events'))
+
+    return Number(count)
+  }
+
+  private applyFilter<T extends Knex.QueryBuilder>(
+    builder: T,
+    currentFilter: SubscriptionFilter,
+    options: FindByFiltersOptions,
+  ): T {
+    forEachObjIndexed((tableFields: string[], filterName: string | number) => {
+      builder.andWhere((bd) => {
+        cond([
+          [isEmpty, () => void bd.whereRaw('1 = 0')],
+          [
+            complement(isNil),
+            pipe(
+              groupByLengthSpec,
+              evolve({
+                exact: (pubkeys: string[]) =>
+                  tableFields.forEach((tableField) =>
+                    bd.orWhereIn(tableField, pubkeys.map(toBuffer))
+                  ),
+                even: forEach((prefix: string) =>
+                  tableFields.forEach((tableField) =>
+                    bd.orWhereRaw(
+                      `substring("${tableField}" from 1 for ?) = ?`,
+                      [prefix.length >> 1, toBuffer(prefix)]
+                    )
+                  )
+                ),
+                odd: forEach((prefix: string) =>
+                  tableFields.forEach((tableField) =>
+                    bd.orWhereRaw(
+                      `substring("${tableField}" from 1 for ?) BETWEEN ? AND ?`,
+                      [
+                        (prefix.length >> 1) + 1,
+                        `\\x${prefix}0`,
+                        `\\x${prefix}f`,
+                      ],
+                    )
+                  )
+                ),
+              } as any),
+            ),
+          ],
+        ])(currentFilter[filterName] as string[])
+      })
+    })({
+      authors: ['event_pubkey', 'event_delegator'],
+      ids: ['event_id'],
+    })
+
+    if (Array.isArray(currentFilter.kinds)) {
+      builder.whereIn('event_kind', currentFilter.kinds)
+    }
+
+    if (typeof currentFilter.since === 'number') {
+      builder.where('event_created_at', '>=', currentFilter.since)
+    }
+
+    if (typeof currentFilter.until === 'number') {
+      builder.where('event_created_at', '<=', currentFilter.until)
+    }
+
+    // NIP-50: Search capability
+    if (typeof currentFilter.search === 'string') {
+      const searchQuery = getSearchQuery(currentFilter.search)
+      if (searchQuery.length) {
+        builder.whereRaw('"event_content_tsv" @@ websearch_to_tsquery(\'simple\', ?)', [searchQuery])
+      }
+    }
+
+    const andWhereRaw = invoker(1, 'andWhereRaw')
+    const orWhereRaw = invoker(2, 'orWhereRaw')
+
+    pipe(
+      toPairs,
+      filter(pipe(nth(0) as () => string, isGenericTagQuery)) as any,
+      forEach(([filterName, criteria]: [string, string[]]) => {
+        builder.andWhere((bd) => {
+          ifElse(
+            isEmpty,
+            () => andWhereRaw('1 = 0', bd),
+            forEach((criterion: string) => void orWhereRaw(
+              '"event_tags" @> ?',
+              [
+                JSON.stringify([[filterName[1], criterion]]) as any,
+              ],
+              bd,
+            )),
+          )(criteria)
+        })
+      }),
+    )(currentFilter as any)
+
+    // NIP-42: protected kinds are only readable by their author or p-tagged recipients
+    const { protectedKinds = [], authenticatedPubkeys = [] } = options
+    if (protectedKinds.length) {
+      builder.andWhere((bd) => {
+        bd.whereNot((kindsBuilder) => {
+          protectedKinds.forEach((kindOrRange) => {
+            if (Array.isArray(kindOrRange)) {
+              kindsBuilder.orWhereBetween('event_kind', kindOrRange)
+            } else {
+              kindsBuilder.orWhere('event_kind', kindOrRange)
+            }
+          })
+        })
+
+        if (authenticatedPubkeys.length) {
+          bd.orWhereIn('event_pubkey', authenticatedPubkeys.map(toBuffer))
+          authenticatedPubkeys.forEach((pubkey) => void bd.orWhereRaw(
+            '"event_tags" @> ?',
+            [JSON.stringify([[EventTags.Pubkey, pubkey]])],
+          ))
+        }
+      })
+    }
+
+    // NIP-40: Event Expiration
+    builder.whereRaw('("expires_at" is null or "expires_at" > extract(epoch from now()))')
+
+    return builder
+  }
+
+  public async isDeleted(eventId: EventId, pubkey: Pubkey): Promise<boolean> {
+    debug('checking if %s by %s is deleted', eventId, pubkey)
+
+    const row = await this.masterDbClient<DBEvent>('events')
+      .select('event_id')
+      .where('event_id', toBuffer(eventId))
+      .where('event_pubkey', toBuffer(pubkey))
+      .whereNotNull('deleted_at')
+      .first()
+
+    return Boolean(row)
+  }
+
+  public async isAddressDeleted(pubkey: Pubkey, address: string, since: number): Promise<boolean> {
+    debug('checking if %s by %s is deleted since %d', address, pubkey, since)
+
+    const row = await this.masterDbClient<DBEvent>('events')
+      .select('event_id')
+      .where('event_pubkey', toBuffer(pubkey))
+      .where('event_kind', EventKinds.DELETE)
+      .where('event_created_at', '>=', since)
+      .whereNull('deleted_at')
+      .whereRaw('"event_tags" @> ?', [JSON.stringify([[EventTags.Address, address]])])
+      .first()
+
+    return Boolean(row)
+  }
+
+  public async isDelegationRevoked(delegator: Pubkey, token: string): Promise<boolean> {
+    debug('checking if delegation %s of %s is revoked', token, delegator)
+
+    // Only revocations signed by the delegator count, not delegated ones
+    const row = await this.masterDbClient<DBEvent>('events')
+      .select('event_id')
+      .where('event_pubkey', toBuffer(delegator))
+      .where('event_kind', EventKinds.DELEGATION_REVOCATION)
+      .whereNull('event_delegator')
+      .whereNull('deleted_at')
+      .whereRaw('"event_tags" @> ?', [JSON.stringify([[EventTags.DelegationToken, token]])])
+      .first()
+
+    return Boolean(row)
+  }
+
+  public async create(event: Event, client: DatabaseClient = this.masterDbClient): Promise<number> {
+    return this.insert(event, client).then(prop('rowCount') as () => number, () => 0)
+  }
+
+  private insert(event: Event, client: DatabaseClient = this.masterDbClient) {
     debug('inserting event: %o', event)
     const row = applySpec({
       event_id: pipe(prop('id'), toBuffer),
@@ -190,13 +349,13 @@ export class EventRepository implements IEventRepository {
 
     })(event)
 
-    return this.masterDbClient('events')
+    return client('events')
       .insert(row)
       .onConflict()
       .ignore()
   }
 
-  public upsert(event: Event): Promise<number> {
+  public upsert(event: Event, client: DatabaseClient = this.masterDbClient): Promise<number> {
     debug('upserting event: %o', event)
 
     const toJSON = (input: any) => JSON.stringify(input)
@@ -227,16 +386,20 @@ export class EventRepository implements IEventRepository {
       ),
     })(event)
 
-    const query = this.masterDbClient('events')
+    const query = client('events')
       .insert(row)
       // NIP-16: Replaceable Events
       // NIP-33: Parameterized Replaceable Events
       .onConflict(
-        this.masterDbClient.raw(
+        client.raw(
           '(event_pubkey, event_kind, event_deduplication) WHERE (event_kind = 0 OR event_kind = 3 OR event_kind = 41 OR (event_kind >= 10000 AND event_kind < 20000)) OR (event_kind >= 30000 AND event_kind < 40000)'
         )
       )
-      .merge(omit(['event_pubkey', 'event_kind', 'event_deduplication'])(row))
+      .merge({
+        ...omit(['event_pubkey', 'event_kind', 'event_deduplication'])(row),
+        // NIP-09: a newer version supersedes a deleted one
+        deleted_at: null,
+      })
       .where('events.event_created_at', '<', row.event_created_at)
 
     return {
@@ -281,4 +444,73 @@ export class EventRepository implements IEventRepository {
         deleted_at: this.masterDbClient.raw('now()'),
       })
   }
+
+  public deleteByIds(eventIdsToDelete: EventId[]): Promise<number> {
+    debug('deleting events: %o', eventIdsToDelete)
+
+    return this.masterDbClient('events')
+      .whereIn('event_id', map(toBuffer)(eventIdsToDelete))
+      .whereNull('deleted_at')
+      .update({
+        deleted_at: this.masterDbClient.raw('now()'),
+      })
+  }
+
+  public async deleteByPubkeyAndIdsReturningIds(
+    pubkey: string,
+    eventIdsToDelete: EventId[],
+    client: DatabaseClient = this.masterDbClient,
+  ): Promise<EventId[]> {
+    debug('deleting events from %s: %o', pubkey, eventIdsToDelete)
+
+    const rows: Pick<DBEvent, 'event_id'>[] = await client('events')
+      .where('event_pubkey', toBuffer(pubkey))
+      .whereIn('event_id', map(toBuffer)(eventIdsToDelete))
+      .whereNull('deleted_at')
+      .update({
+        deleted_at: client.raw('now()'),
+      }, ['event_id'])
+
+    return rows.map(({ event_id }) => fromBuffer(event_id))
+  }
+
+  public deleteByPubkeyAndAddresses(pubkey: string, addresses: EventAddress[], until: number): Promise<number> {
+    debug('deleting events from %s until %d: %o', pubkey, until, addresses)
+
+    return this.masterDbClient('events')
+      .where('event_pubkey', toBuffer(pubkey))
+      .where('event_created_at', '<=', until)
+      .where((bd) => {
+        addresses.forEach(({ kind, identifier }) => {
+          bd.orWhere((addressBuilder) => {
+            addressBuilder.where('event_kind', kind)
+            // NIP-33: Parameterized Replaceable Events are addressed by their d tag
+            if (
+              kind >= EventKinds.PARAMETERIZED_REPLACEABLE_FIRST
+              && kind <= EventKinds.PARAMETERIZED_REPLACEABLE_LAST
+            ) {
+              addressBuilder.where('event_deduplication', JSON.stringify([identifier]))
+            }
+          })
+        })
+      })
+      .whereNull('deleted_at')
+      .update({
+        deleted_at: this.masterDbClient.raw('now()'),
+      })
+  }
+
+  public deleteExpiredEvents(limit: number): Promise<number> {
+    debug('deleting up to %d expired events', limit)
+
+    return this.masterDbClient('events')
+      .whereIn(
+        'event_id',
+        this.masterDbClient('events')
+          .select('event_id')
+          .whereRaw('"expires_at" <= extract(epoch from now())')
+          .limit(limit),
+      )
+      .delete()
+  }
 }
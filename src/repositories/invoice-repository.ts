@@ -61,6 +61,25 @@ export class InvoiceRepository implements IInvoiceRepository {
     return fromDBInvoice(dbInvoice)
   }
 
+  /**
+   * Locks the invoice row until the transaction of the given client ends
+   */
+  public async findByIdForUpdate(
+    id: string,
+    client: DatabaseClient,
+  ): Promise<Invoice | undefined> {
+    const [dbInvoice] = await client<DBInvoice>('invoices')
+      .where('id', id)
+      .select()
+      .forUpdate()
+
+    if (!dbInvoice) {
+      return
+    }
+
+    return fromDBInvoice(dbInvoice)
+  }
+
   public async findPendingInvoices(
     offset = 0,
     limit = 10,
@@ -68,6 +87,7 @@ export class InvoiceRepository implements IInvoiceRepository {
   ): Promise<Invoice[]> {
     const dbInvoices = await client<DBInvoice>('invoices')
       .where('status', InvoiceStatus.PENDING)
+      .orderBy([{ column: 'created_at', order: 'asc' }, { column: 'id', order: 'asc' }])
       .offset(offset)
       .limit(limit)
       .select()
@@ -89,6 +109,7 @@ export class InvoiceRepository implements IInvoiceRepository {
       // amount_paid: ifElse(propSatisfies(is(BigInt), 'amountPaid'), pipe(prop('amountPaid'), toString), always(null)),
       unit: prop('unit'),
       status: prop('status'),
+      purpose: prop('purpose'),
       description: prop('description'),
       // confirmed_at: prop('confirmedAt'),
       expires_at: prop('expiresAt'),
@@ -109,6 +130,7 @@ export class InvoiceRepository implements IInvoiceRepository {
           'bolt11',
           'amount_requested',
           'unit',
+          'purpose',
           'description',
           'expires_at',
           'created_at',
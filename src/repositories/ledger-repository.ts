@@ -0,0 +1,90 @@
+import { always, applySpec, ifElse, isNil, pipe, prop, propSatisfies } from 'ramda'
+
+import { BalanceMismatch, DBLedgerEntry, LedgerEntry } from '../@types/ledger'
+import { DatabaseClient, Pubkey } from '../@types/base'
+import { fromBigInt, fromBuffer, fromDBLedgerEntry, toBuffer } from '../utils/transform'
+import { createLogger } from '../factories/logger-factory'
+import { ILedgerRepository } from '../@types/repositories'
+
+const debug = createLogger('ledger-repository')
+
+export class LedgerRepository implements ILedgerRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  public create(
+    entry: LedgerEntry,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('creating ledger entry: %o', entry)
+
+    const row = applySpec<Omit<DBLedgerEntry, 'id' | 'created_at'>>({
+      pubkey: pipe(prop('pubkey'), toBuffer),
+      type: prop('type'),
+      amount: pipe(prop('amount'), fromBigInt),
+      invoice_id: ifElse(propSatisfies(isNil, 'invoiceId'), always(null), prop('invoiceId')),
+      event_id: ifElse(propSatisfies(isNil, 'eventId'), always(null), pipe(prop('eventId'), toBuffer)),
+      description: ifElse(propSatisfies(isNil, 'description'), always(null), prop('description')),
+    })(entry)
+
+    const query = client<DBLedgerEntry>('ledger_entries')
+      .insert(row)
+      // Invoices are credited at most once
+      .onConflict(['type', 'invoice_id'])
+      .ignore()
+
+    return {
+      then: <T1, T2>(onfulfilled: (value: number) => T1 | PromiseLike<T1>, onrejected: (reason: any) => T2 | PromiseLike<T2>) => query.then(prop('rowCount') as () => number).then(onfulfilled, onrejected),
+      catch: <T>(onrejected: (reason: any) => T | PromiseLike<T>) => query.catch(onrejected),
+      toString: (): string => query.toString(),
+    } as Promise<number>
+  }
+
+  public async findByPubkey(
+    pubkey: Pubkey,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<LedgerEntry[]> {
+    debug('find ledger entries by pubkey: %s', pubkey)
+
+    const entries = await client<DBLedgerEntry>('ledger_entries')
+      .where('pubkey', toBuffer(pubkey))
+      .orderBy('created_at', 'asc')
+      .select()
+
+    return entries.map(fromDBLedgerEntry)
+  }
+
+  public async getBalanceByPubkey(
+    pubkey: Pubkey,
+    client: DatabaseClient = this.dbClient,
+  ): Promise<bigint> {
+    debug('get ledger balance for pubkey: %s', pubkey)
+
+    const [row] = await client<DBLedgerEntry>('ledger_entries')
+      .where('pubkey', toBuffer(pubkey))
+      .sum({ balance: 'amount' })
+
+    return BigInt(row?.balance ?? 0)
+  }
+
+  public async findBalanceMismatches(
+    client: DatabaseClient = this.dbClient,
+  ): Promise<BalanceMismatch[]> {
+    debug('find balance mismatches')
+
+    const rows = await client('users')
+      .leftJoin('ledger_entries', 'ledger_entries.pubkey', 'users.pubkey')
+      .groupBy('users.pubkey', 'users.balance')
+      .havingRaw('"users"."balance" <> COALESCE(SUM("ledger_entries"."amount"), 0)')
+      .select(
+        'users.pubkey',
+        'users.balance',
+        client.raw('COALESCE(SUM("ledger_entries"."amount"), 0) AS "ledger_balance"'),
+      )
+
+    return rows.map((row: { pubkey: Buffer, balance: string, ledger_balance: string }) => ({
+      pubkey: fromBuffer(row.pubkey),
+      balance: BigInt(row.balance),
+      ledgerBalance: BigInt(row.ledger_balance),
+    }))
+  }
+}
@@ -0,0 +1,40 @@
+import { always, applySpec, ifElse, isNil, pipe, prop, propSatisfies } from 'ramda'
+
+import { DBModerationAction, ModerationAction } from '../@types/moderation'
+import { createLogger } from '../factories/logger-factory'
+import { DatabaseClient } from '../@types/base'
+import { IModerationActionRepository } from '../@types/repositories'
+import { toBuffer } from '../utils/transform'
+
+const debug = createLogger('moderation-action-repository')
+
+export class ModerationActionRepository implements IModerationActionRepository {
+  public constructor(private readonly dbClient: DatabaseClient) { }
+
+  public create(
+    actions: ModerationAction[],
+    client: DatabaseClient = this.dbClient,
+  ): Promise<number> {
+    debug('creating moderation actions: %o', actions)
+
+    const rows = actions.map(
+      applySpec<Omit<DBModerationAction, 'id' | 'created_at'>>({
+        type: prop('type'),
+        moderator_pubkey: pipe(prop('moderatorPubkey'), toBuffer),
+        pubkey: pipe(prop('pubkey'), toBuffer),
+        event_id: ifElse(propSatisfies(isNil, 'eventId'), always(null), pipe(prop('eventId'), toBuffer)),
+        report_event_id: pipe(prop('reportEventId'), toBuffer),
+        reason: ifElse(propSatisfies(isNil, 'reason'), always(null), prop('reason')),
+      })
+    )
+
+    const query = client<DBModerationAction>('moderation_actions')
+      .insert(rows)
+
+    return {
+      then: <T1, T2>(onfulfilled: (value: number) => T1 | PromiseLike<T1>, onrejected: (reason: any) => T2 | PromiseLike<T2>) => query.then(prop('rowCount') as () => number).then(onfulfilled, onrejected),
+      catch: <T>(onrejected: (reason: any) => T | PromiseLike<T>) => query.catch(onrejected),
+      toString: (): string => query.toString(),
+    } as Promise<number>
+  }
+}
@@ -38,6 +38,8 @@ export class UserRepository implements IUserRepository {
     const row = applySpec<DBUser>({
       pubkey: pipe(prop('pubkey'), toBuffer),
       is_admitted: prop('isAdmitted'),
+      admitted_until: prop('admittedUntil'),
+      admission_reminded_at: prop('admissionRemindedAt'),
       tos_accepted_at: prop('tosAcceptedAt'),
       updated_at: always(date),
       created_at: always(date),
@@ -78,4 +80,59 @@ export class UserRepository implements IUserRepository {
 
     return BigInt(user.balance)
   }
+
+  public async adjustBalance(
+    pubkey: Pubkey,
+    amount: bigint,
+    client: DatabaseClient = this.dbClient
+  ): Promise<bigint | undefined> {
+    debug('adjust balance for pubkey %s by %s', pubkey, amount)
+
+    const [user] = await client<DBUser>('users')
+      .where('pubkey', toBuffer(pubkey))
+      .whereRaw('"balance" + ? >= 0', [amount.toString()])
+      .update({
+        balance: client.raw('"balance" + ?', [amount.toString()]),
+        updated_at: new Date(),
+      }, ['balance'])
+
+    if (!user) {
+      return
+    }
+
+    return BigInt(user.balance)
+  }
+
+  public async findByAdmissionExpiringBefore(
+    date: Date,
+    limit: number,
+    client: DatabaseClient = this.dbClient
+  ): Promise<User[]> {
+    debug('find users not reminded of admission expiring before %s', date)
+
+    const users = await client<DBUser>('users')
+      .where('is_admitted', true)
+      .whereNull('admission_reminded_at')
+      .where('admitted_until', '>', new Date())
+      .where('admitted_until', '<=', date)
+      .orderBy('admitted_until', 'asc')
+      .limit(limit)
+      .select()
+
+    return users.map(fromDBUser)
+  }
+
+  public async setAdmissionRemindedAt(
+    pubkey: Pubkey,
+    date: Date,
+    client: DatabaseClient = this.dbClient
+  ): Promise<number> {
+    debug('set admission reminded at %s for pubkey %s', date, pubkey)
+
+    return client<DBUser>('users')
+      .where('pubkey', toBuffer(pubkey))
+      .update({
+        admission_reminded_at: date,
+      })
+  }
 }
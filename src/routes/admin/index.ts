@@ -0,0 +1,33 @@
+import { raw, Router } from 'express'
+
+import {
+  createDeleteBanController,
+  createDeleteEventController,
+  createGetBansController,
+  createGetConnectionsController,
+  createGetPendingInvoicesController,
+  createPostUserBalanceController,
+  createPutBanController,
+  createPutUserAdmissionController,
+} from '../../factories/admin-controller-factory'
+import { adminAuthMiddleware } from '../../handlers/request-handlers/admin-auth-middleware'
+import { controllerRequestHandler } from '../../handlers/request-handlers/controller-request-handler'
+import { jsonBodyMiddleware } from '../../handlers/request-handlers/json-body-middleware'
+
+const adminRouter = Router()
+
+adminRouter
+  // Authentication verifies the NIP-98 payload hash against the raw body
+  .use(raw({ type: () => true }))
+  .use(adminAuthMiddleware)
+  .use(jsonBodyMiddleware)
+  .get('/bans', controllerRequestHandler(createGetBansController))
+  .put('/bans/:pubkey', controllerRequestHandler(createPutBanController))
+  .delete('/bans/:pubkey', controllerRequestHandler(createDeleteBanController))
+  .put('/users/:pubkey/admission', controllerRequestHandler(createPutUserAdmissionController))
+  .post('/users/:pubkey/balance', controllerRequestHandler(createPostUserBalanceController))
+  .delete('/events/:eventId', controllerRequestHandler(createDeleteEventController))
+  .get('/invoices/pending', controllerRequestHandler(createGetPendingInvoicesController))
+  .get('/connections', controllerRequestHandler(createGetConnectionsController))
+
+export default adminRouter
@@ -1,7 +1,12 @@
-import express from 'express'
+import express, { raw } from 'express'
 
+import { adminAuthMiddleware } from '../handlers/request-handlers/admin-auth-middleware'
+import adminRouter from './admin'
 import callbacksRouter from './callbacks'
+import { controllerRequestHandler } from '../handlers/request-handlers/controller-request-handler'
+import { createPostRelayManagementController } from '../factories/admin-controller-factory'
 import { getHealthRequestHandler } from '../handlers/request-handlers/get-health-request-handler'
+import { getMetricsRequestHandler } from '../handlers/request-handlers/get-metrics-request-handler'
 import { getTermsRequestHandler } from '../handlers/request-handlers/get-terms-request-handler'
 import invoiceRouter from './invoices'
 import { rateLimiterMiddleware } from '../handlers/request-handlers/rate-limiter-middleware'
@@ -10,10 +15,20 @@ import { rootRequestHandler } from '../handlers/request-handlers/root-request-ha
 const router = express.Router()
 
 router.get('/', rootRequestHandler)
+// NIP-86: relay management
+router.post(
+  '/',
+  rateLimiterMiddleware,
+  raw({ type: 'application/nostr+json+rpc' }),
+  adminAuthMiddleware,
+  controllerRequestHandler(createPostRelayManagementController),
+)
 router.get('/healthz', getHealthRequestHandler)
+router.get('/metrics', rateLimiterMiddleware, getMetricsRequestHandler)
 router.get('/terms', getTermsRequestHandler)
 
 router.use('/invoices', rateLimiterMiddleware, invoiceRouter)
 router.use('/callbacks', rateLimiterMiddleware, callbacksRouter)
+router.use('/admin', rateLimiterMiddleware, adminRouter)
 
 export default router
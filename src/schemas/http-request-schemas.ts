@@ -1,9 +1,49 @@
 import Schema from 'joi'
 
-import { pubkeySchema } from './base-schema'
+import { idSchema, kindSchema, pubkeySchema } from './base-schema'
 
 
 export const generateInvoiceSchema = Schema.object({
   pubkey: pubkeySchema.required(),
   tosAccepted: Schema.valid('yes').required(),
 }).unknown(false)
+
+export const pubkeyParamsSchema = Schema.object({
+  pubkey: pubkeySchema.required(),
+}).unknown(false)
+
+export const eventIdParamsSchema = Schema.object({
+  eventId: idSchema.required(),
+}).unknown(false)
+
+export const banPubkeySchema = Schema.object({
+  reason: Schema.string().max(1024),
+  expiresAt: Schema.number().integer().min(0).max(Number.MAX_SAFE_INTEGER),
+}).unknown(false)
+
+export const userAdmissionSchema = Schema.object({
+  isAdmitted: Schema.boolean().required(),
+  admittedUntil: Schema.number().integer().min(0).max(Number.MAX_SAFE_INTEGER).allow(null),
+}).unknown(false)
+
+export const userBalanceAdjustmentSchema = Schema.object({
+  amount: Schema.string().pattern(/^-?[0-9]{1,19}$/).required(),
+}).unknown(false)
+
+export const relayManagementRequestSchema = Schema.object({
+  method: Schema.string().required(),
+  params: Schema.array().required(),
+}).unknown(false)
+
+const reasonSchema = Schema.string().allow('').max(1024).label('reason')
+
+const ipAddressSchema = Schema.string().ip({ cidr: 'forbidden' }).label('ip')
+
+export const relayManagementParamsSchemas = {
+  none: Schema.array().length(0),
+  pubkeyAndReason: Schema.array().ordered(pubkeySchema.required(), reasonSchema),
+  eventIdAndReason: Schema.array().ordered(idSchema.required(), reasonSchema),
+  ipAddressAndReason: Schema.array().ordered(ipAddressSchema.required(), reasonSchema),
+  kind: Schema.array().ordered(kindSchema.required()),
+  text: Schema.array().ordered(Schema.string().max(1024).required()),
+}
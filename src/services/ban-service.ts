@@ -0,0 +1,119 @@
+import { DatabaseClient, EventId, Pubkey } from '../@types/base'
+import { Ban } from '../@types/ban'
+import { createLogger } from '../factories/logger-factory'
+import { IBanRepository } from '../@types/repositories'
+import { IBanService } from '../@types/services'
+import { ICacheAdapter } from '../@types/adapters'
+
+const debug = createLogger('ban-service')
+
+const CACHE_TTL = 300
+const NOT_BANNED = 'none'
+
+export class BanService implements IBanService {
+  public constructor(
+    private readonly banRepository: IBanRepository,
+    private readonly cache: ICacheAdapter,
+  ) {}
+
+  public async getPubkeyBan(pubkey: Pubkey): Promise<Ban | undefined> {
+    return this.getBan(`${pubkey}:ban`, () => this.banRepository.findActiveByPubkey(pubkey))
+  }
+
+  public async getIpAddressBan(ipAddress: string): Promise<Ban | undefined> {
+    return this.getBan(`${ipAddress}:ban`, () => this.banRepository.findActiveByIpAddress(ipAddress))
+  }
+
+  public async banPubkey(pubkey: Pubkey, reason?: string, expiresAt?: Date, client?: DatabaseClient): Promise<Ban> {
+    debug('banning pubkey %s until %s: %s', pubkey, expiresAt ?? 'forever', reason)
+    const ban = await this.banRepository.upsert({ pubkey, reason, expiresAt }, client)
+    // The transaction of the caller may still roll back
+    if (!client) {
+      await this.cacheBan(ban)
+    }
+
+    return ban
+  }
+
+  public async unbanPubkey(pubkey: Pubkey): Promise<void> {
+    debug('unbanning pubkey %s', pubkey)
+    await this.banRepository.deleteByPubkey(pubkey)
+    await this.cache.deleteKey(`${pubkey}:ban`)
+  }
+
+  public async banIpAddress(ipAddress: string, reason?: string, expiresAt?: Date): Promise<void> {
+    debug('banning ip address %s until %s: %s', ipAddress, expiresAt ?? 'forever', reason)
+    const ban: Ban = { ipAddress, reason, expiresAt }
+    await this.banRepository.upsert(ban)
+    await this.setCachedBan(`${ipAddress}:ban`, ban)
+  }
+
+  public async unbanIpAddress(ipAddress: string): Promise<void> {
+    debug('unbanning ip address %s', ipAddress)
+    await this.banRepository.deleteByIpAddress(ipAddress)
+    await this.cache.deleteKey(`${ipAddress}:ban`)
+  }
+
+  public async getEventBan(eventId: EventId): Promise<Ban | undefined> {
+    return this.getBan(`${eventId}:event-ban`, () => this.banRepository.findActiveByEventId(eventId))
+  }
+
+  public async banEvent(eventId: EventId, reason?: string): Promise<void> {
+    debug('banning event %s: %s', eventId, reason)
+    const ban: Ban = { eventId, reason }
+    await this.banRepository.upsert(ban)
+    await this.setCachedBan(`${eventId}:event-ban`, ban)
+  }
+
+  public async unbanEvent(eventId: EventId): Promise<void> {
+    debug('unbanning event %s', eventId)
+    await this.banRepository.deleteByEventId(eventId)
+    await this.cache.deleteKey(`${eventId}:event-ban`)
+  }
+
+  private async getBan(key: string, findActiveBan: () => Promise<Ban | undefined>): Promise<Ban | undefined> {
+    const cached = await this.cache.getKey(key)
+    if (typeof cached === 'string' && cached.length) {
+      if (cached === NOT_BANNED) {
+        return
+      }
+
+      const { expiresAt, ...ban } = JSON.parse(cached)
+      if (typeof expiresAt === 'string' && new Date(expiresAt).getTime() <= Date.now()) {
+        return
+      }
+
+      return { ...ban, expiresAt: expiresAt ? new Date(expiresAt) : undefined }
+    }
+
+    const ban = await findActiveBan()
+    await this.setCachedBan(key, ban)
+
+    return ban
+  }
+
+  public async cacheBan(ban: Ban): Promise<void> {
+    if (ban.pubkey) {
+      await this.setCachedBan(`${ban.pubkey}:ban`, ban)
+    } else if (ban.eventId) {
+      await this.setCachedBan(`${ban.eventId}:event-ban`, ban)
+    } else if (ban.ipAddress) {
+      await this.setCachedBan(`${ban.ipAddress}:ban`, ban)
+    }
+  }
+
+  private async setCachedBan(key: string, ban: Ban | undefined): Promise<void> {
+    const value = ban
+      ? JSON.stringify({
+        pubkey: ban.pubkey,
+        ipAddress: ban.ipAddress,
+        eventId: ban.eventId,
+        reason: ban.reason,
+        expiresAt: ban.expiresAt,
+      })
+      : NOT_BANNED
+
+    await this.cache.setKey(key, value)
+    await this.cache.setKeyExpiry(key, CACHE_TTL)
+  }
+}
@@ -0,0 +1,86 @@
+import { INip05VerificationService, Nip05Fetcher } from '../@types/services'
+import { createLogger } from '../factories/logger-factory'
+import { EventKinds } from '../constants/base'
+import { ICacheAdapter } from '../@types/adapters'
+import { IEventRepository } from '../@types/repositories'
+import { parseNip05Identifier } from '../utils/nip05'
+import { Pubkey } from '../@types/base'
+import { Settings } from '../@types/settings'
+
+const debug = createLogger('nip05-verification-service')
+
+const DEFAULT_CACHE_TTL = 86400
+const DEFAULT_FAILURE_CACHE_TTL = 3600
+
+export class Nip05VerificationService implements INip05VerificationService {
+  public constructor(
+    private readonly fetchNostrJson: Nip05Fetcher,
+    private readonly eventRepository: IEventRepository,
+    private readonly cache: ICacheAdapter,
+    private readonly settings: () => Settings,
+  ) {}
+
+  public async isPubkeyVerified(pubkey: Pubkey): Promise<boolean> {
+    const {
+      domainWhitelist = [],
+      domainBlacklist = [],
+      cacheTtl = DEFAULT_CACHE_TTL,
+      failureCacheTtl = DEFAULT_FAILURE_CACHE_TTL,
+    } = this.settings().limits?.event?.pubkey?.nip05 ?? {}
+
+    const nip05 = await this.getIdentifier(pubkey)
+    const identifier = typeof nip05 === 'string' ? parseNip05Identifier(nip05) : undefined
+    if (!identifier) {
+      debug('pubkey %s has no valid nip05 identifier', pubkey)
+      return false
+    }
+
+    const { name, domain } = identifier
+    if (
+      (domainWhitelist.length && !domainWhitelist.includes(domain))
+      || domainBlacklist.includes(domain)
+    ) {
+      debug('pubkey %s has nip05 identifier on disallowed domain %s', pubkey, domain)
+      return false
+    }
+
+    const key = `${pubkey}:nip05:${name}@${domain}`
+    const cached = await this.cache.getKey(key)
+    if (typeof cached === 'string' && cached.length) {
+      return cached === 'verified'
+    }
+
+    let verified = false
+    try {
+      const document = await this.fetchNostrJson(domain, name)
+      verified = document?.names?.[name] === pubkey
+    } catch (error) {
+      debug('unable to fetch nip05 document for %s@%s: %o', name, domain, error)
+    }
+
+    debug('pubkey %s %s nip05 identifier %s@%s', pubkey, verified ? 'verified' : 'failed to verify', name, domain)
+
+    await this.cache.setKey(key, verified ? 'verified' : 'unverified')
+    await this.cache.setKeyExpiry(key, verified ? cacheTtl : failureCacheTtl)
+
+    return verified
+  }
+
+  private async getIdentifier(pubkey: Pubkey): Promise<string | undefined> {
+    const [metadata] = await this.eventRepository.findByFilters([
+      { kinds: [EventKinds.SET_METADATA], authors: [pubkey], limit: 1 },
+    ])
+
+    if (!metadata || metadata.deleted_at) {
+      return
+    }
+
+    try {
+      const { nip05 } = JSON.parse(metadata.event_content)
+
+      return nip05
+    } catch (error) {
+      debug('unable to parse metadata of %s: %o', pubkey, error)
+    }
+  }
+}
@@ -1,33 +1,46 @@
+import { AdmissionFeeSchedule, FeeSchedule, Settings } from '../@types/settings'
 import { andThen, otherwise, pipe } from 'ramda'
-import { broadcastEvent, getPublicKey, getRelayPrivateKey, identifyEvent, signEvent } from '../utils/event'
+import {
+  broadcastEvent,
+  getPublicKey,
+  getRelayPrivateKey,
+  identifyEvent,
+  signEvent,
+} from '../utils/event'
 import { DatabaseClient, Pubkey } from '../@types/base'
-import { FeeSchedule, Settings } from '../@types/settings'
-import { IEventRepository, IInvoiceRepository, IUserRepository } from '../@types/repositories'
-import { Invoice, InvoiceStatus, InvoiceUnit } from '../@types/invoice'
+import { IEventRepository, IInvoiceRepository, ILedgerRepository, IUserRepository } from '../@types/repositories'
+import { Invoice, InvoicePurpose, InvoiceStatus, InvoiceUnit } from '../@types/invoice'
 
 import { Event, ExpiringEvent, UnidentifiedEvent } from '../@types/event'
 import { EventExpirationTimeMetadataKey, EventKinds, EventTags } from '../constants/base'
+import { invoicesConfirmedCounter, invoicesCreatedCounter, invoiceStatusUpdatesCounter } from '../utils/metrics'
 import { createLogger } from '../factories/logger-factory'
+import { getHttpRelayUrl } from '../utils/http'
 import { IPaymentsProcessor } from '../@types/clients'
 import { IPaymentsService } from '../@types/services'
+import { LedgerEntryType } from '../@types/ledger'
 import { Transaction } from '../database/transaction'
+import { User } from '../@types/user'
 
 const debug = createLogger('payments-service')
 
+const ADMISSION_REMINDERS_BATCH_SIZE = 100
+
 export class PaymentsService implements IPaymentsService {
   public constructor(
     private readonly dbClient: DatabaseClient,
     private readonly paymentsProcessor: IPaymentsProcessor,
     private readonly userRepository: IUserRepository,
     private readonly invoiceRepository: IInvoiceRepository,
+    private readonly ledgerRepository: ILedgerRepository,
     private readonly eventRepository: IEventRepository,
     private readonly settings: () => Settings
   ) {}
 
-  public async getPendingInvoices(): Promise<Invoice[]> {
-    debug('get pending invoices')
+  public async getPendingInvoices(offset: number, limit: number): Promise<Invoice[]> {
+    debug('get pending invoices: offset %d, limit %d', offset, limit)
     try {
-      return await this.invoiceRepository.findPendingInvoices(0, 10)
+      return await this.invoiceRepository.findPendingInvoices(offset, limit)
     } catch (error) {
       console.log('Unable to get pending invoices.', error)
 
@@ -52,8 +65,9 @@ export class PaymentsService implements IPaymentsService {
     pubkey: Pubkey,
     amount: bigint,
     description: string,
+    purpose: InvoicePurpose,
   ): Promise<Invoice> {
-    debug('create invoice for %s for %s: %s', pubkey, amount.toString(), description)
+    debug('create %s invoice for %s for %s: %s', purpose, pubkey, amount.toString(), description)
     const transaction = new Transaction(this.dbClient)
 
     try {
@@ -80,6 +94,7 @@ export class PaymentsService implements IPaymentsService {
           description: invoiceResponse.description,
           unit: invoiceResponse.unit,
           status: invoiceResponse.status,
+          purpose,
           expiresAt: invoiceResponse.expiresAt,
           updatedAt: date,
           createdAt: date,
@@ -90,6 +105,8 @@ export class PaymentsService implements IPaymentsService {
 
       await transaction.commit()
 
+      invoicesCreatedCounter.inc()
+
       return {
         id: invoiceResponse.id,
         pubkey,
@@ -97,6 +114,7 @@ export class PaymentsService implements IPaymentsService {
         amountRequested: invoiceResponse.amountRequested,
         unit: invoiceResponse.unit,
         status: invoiceResponse.status,
+        purpose,
         description,
         expiresAt: invoiceResponse.expiresAt,
         updatedAt: date,
@@ -141,6 +159,8 @@ export class PaymentsService implements IPaymentsService {
         status: invoice.status,
         updatedAt: new Date(),
       })
+
+      invoiceStatusUpdatesCounter.inc({ status: invoice.status })
     } catch (error) {
       console.error('Unable to update invoice. Reason:', error)
       throw error
@@ -168,6 +188,20 @@ export class PaymentsService implements IPaymentsService {
 
       await transaction.begin()
 
+      // Processors and callbacks don't know what an invoice was for
+      const storedInvoice = await this.invoiceRepository.findByIdForUpdate(invoice.id, transaction.transaction)
+      if (!storedInvoice) {
+        throw new Error(`Invoice not found: ${invoice.id}`)
+      }
+
+      // Callbacks may be repeated and race the maintenance worker
+      if (storedInvoice.confirmedAt) {
+        debug('invoice %s already confirmed at %s', invoice.id, storedInvoice.confirmedAt)
+        await transaction.commit()
+
+        return
+      }
+
       await this.invoiceRepository.confirmInvoice(
         invoice.id,
         invoice.amountPaid,
@@ -175,8 +209,6 @@ export class PaymentsService implements IPaymentsService {
         transaction.transaction
       )
 
-      const currentSettings = this.settings()
-
       let amountPaidMsat = invoice.amountPaid
 
       if (invoice.unit === InvoiceUnit.SATS) {
@@ -185,32 +217,25 @@ export class PaymentsService implements IPaymentsService {
         amountPaidMsat *= 1000n * 100000000n
       }
 
-      const isApplicableFee = (feeSchedule: FeeSchedule) => feeSchedule.enabled
-        && !feeSchedule.whitelists?.pubkeys?.some((prefix) => invoice.pubkey.startsWith(prefix))
-      const admissionFeeSchedules = currentSettings.payments?.feeSchedules?.admission ?? []
-      const admissionFeeAmount = admissionFeeSchedules
-        .reduce((sum, feeSchedule) => {
-          return sum + (isApplicableFee(feeSchedule) ? BigInt(feeSchedule.amount) : 0n)
-        }, 0n)
-
-        if (
-          admissionFeeAmount > 0n
-          && amountPaidMsat >= admissionFeeAmount
-        ) {
-          const date = new Date()
-          // TODO: Convert to stored func
-          await this.userRepository.upsert(
-            {
-              pubkey: invoice.pubkey,
-              isAdmitted: true,
-              tosAcceptedAt: date,
-              updatedAt: date,
-            },
-            transaction.transaction,
-          )
-        }
+      // confirm_invoice credits the amount paid to the balance whatever the invoice was for
+      await this.ledgerRepository.create(
+        {
+          pubkey: storedInvoice.pubkey,
+          type: LedgerEntryType.InvoicePayment,
+          amount: amountPaidMsat,
+          invoiceId: invoice.id,
+          description: invoice.description,
+        },
+        transaction.transaction,
+      )
+
+      if (storedInvoice.purpose !== InvoicePurpose.TOP_UP) {
+        await this.admit(storedInvoice.pubkey, amountPaidMsat, transaction.transaction)
+      }
 
       await transaction.commit()
+
+      invoicesConfirmedCounter.inc()
     } catch (error) {
       console.error('Unable to confirm invoice. Reason:', error)
       await transaction.rollback()
@@ -219,6 +244,128 @@ export class PaymentsService implements IPaymentsService {
     }
   }
 
+  private async admit(pubkey: Pubkey, amountPaidMsat: bigint, client: DatabaseClient): Promise<void> {
+    const isApplicableFee = (feeSchedule: FeeSchedule) => feeSchedule.enabled
+      && !feeSchedule.whitelists?.pubkeys?.some((prefix) => pubkey.startsWith(prefix))
+    const admissionFeeSchedules = (this.settings().payments?.feeSchedules?.admission ?? []).filter(isApplicableFee)
+    const admissionFeeAmount = admissionFeeSchedules
+      .reduce((sum, feeSchedule) => sum + BigInt(feeSchedule.amount), 0n)
+
+    if (admissionFeeAmount <= 0n || amountPaidMsat < admissionFeeAmount) {
+      return
+    }
+
+    const date = new Date()
+    const admittedUntil = await this.getAdmittedUntil(pubkey, admissionFeeSchedules, date, client)
+    // TODO: Convert to stored func
+    await this.userRepository.upsert(
+      {
+        pubkey,
+        isAdmitted: true,
+        admittedUntil,
+        admissionRemindedAt: null,
+        tosAcceptedAt: date,
+        updatedAt: date,
+      },
+      client,
+    )
+  }
+
+  /**
+   * Admission is permanent unless every applicable fee schedule has a duration,
+   * in which case it lasts for the shortest one. Renewals extend unexpired admission.
+   */
+  private async getAdmittedUntil(
+    pubkey: Pubkey,
+    feeSchedules: AdmissionFeeSchedule[],
+    now: Date,
+    client: DatabaseClient,
+  ): Promise<Date | null> {
+    const durations = feeSchedules.map((feeSchedule) => feeSchedule.duration)
+    if (durations.some((duration) => typeof duration !== 'number' || duration <= 0)) {
+      return null
+    }
+
+    const user = await this.userRepository.findByPubkey(pubkey, client)
+    if (user?.isAdmitted && !user.admittedUntil) {
+      return null
+    }
+
+    const start = user?.isAdmitted && user.admittedUntil > now ? user.admittedUntil : now
+
+    return new Date(start.getTime() + Math.min(...durations) * 1000)
+  }
+
+  public async getUsersWithExpiringAdmission(expiringBefore: Date): Promise<User[]> {
+    debug('get users with admission expiring before %s', expiringBefore)
+    try {
+      return await this.userRepository.findByAdmissionExpiringBefore(expiringBefore, ADMISSION_REMINDERS_BATCH_SIZE)
+    } catch (error) {
+      console.error('Unable to get users with expiring admission. Reason:', error)
+
+      throw error
+    }
+  }
+
+  public async sendAdmissionExpiryReminder(user: User): Promise<void> {
+    debug('admission expiry reminder for %s expiring at %s', user.pubkey, user.admittedUntil)
+    const currentSettings = this.settings()
+
+    const {
+      info: {
+        name: relayName,
+        relay_url: relayUrl,
+      },
+    } = currentSettings
+
+    const relayPrivkey = getRelayPrivateKey(relayUrl)
+    const relayPubkey = getPublicKey(relayPrivkey)
+
+    const renewalUrl = getHttpRelayUrl(currentSettings)
+    renewalUrl.pathname = '/invoices'
+
+    const now = new Date()
+
+    // The reminder is no longer relevant once admission has expired
+    const expiration = Math.floor(user.admittedUntil.getTime() / 1000)
+
+    const unsignedReminderEvent: UnidentifiedEvent & Pick<ExpiringEvent, typeof EventExpirationTimeMetadataKey> = {
+      pubkey: relayPubkey,
+      kind: EventKinds.INVOICE_UPDATE,
+      created_at: Math.floor(now.getTime() / 1000),
+      content: `Your admission to ${relayName} expires on ${user.admittedUntil.toISOString()}. `
+        + `Renew it at ${renewalUrl.toString()}`,
+      tags: [
+        [EventTags.Pubkey, user.pubkey],
+        [EventTags.Expiration, expiration.toString()],
+      ],
+      [EventExpirationTimeMetadataKey]: expiration,
+    }
+
+    const persistEvent = async (event: Event) => {
+      await this.eventRepository.create(event)
+
+      return event
+    }
+
+    const markReminded = async (event: Event) => {
+      await this.userRepository.setAdmissionRemindedAt(user.pubkey, now)
+
+      return event
+    }
+
+    const logError = (error: Error) => console.error('Unable to send admission expiry reminder', error)
+
+    await pipe(
+      identifyEvent,
+      andThen(signEvent(relayPrivkey)),
+      andThen(persistEvent),
+      andThen(markReminded),
+      andThen(broadcastEvent),
+      otherwise(logError),
+    )(unsignedReminderEvent)
+  }
+
   public async sendInvoiceUpdateNotification(invoice: Invoice): Promise<void> {
     debug('invoice updated notification %s: %o', invoice.id, invoice)
     const currentSettings = this.settings()
@@ -0,0 +1,95 @@
+import { getPublicKey, getRelayPrivateKey, isEventKindOrRangeMatch } from '../utils/event'
+import { ILedgerRepository, IUserRepository } from '../@types/repositories'
+import { PublicationFeeSchedule, Settings } from '../@types/settings'
+import { createLogger } from '../factories/logger-factory'
+import { DatabaseClient } from '../@types/base'
+import { Event } from '../@types/event'
+import { IPublicationFeeService } from '../@types/services'
+import { LedgerEntryType } from '../@types/ledger'
+import { Transaction } from '../database/transaction'
+
+const debug = createLogger('publication-fee-service')
+
+export class PublicationFeeService implements IPublicationFeeService {
+  public constructor(
+    private readonly dbClient: DatabaseClient,
+    private readonly userRepository: IUserRepository,
+    private readonly ledgerRepository: ILedgerRepository,
+    private readonly settings: () => Settings,
+  ) {}
+
+  public getPublicationFee(event: Event): bigint {
+    const currentSettings = this.settings()
+    if (!currentSettings.payments?.enabled) {
+      return 0n
+    }
+
+    if (getPublicKey(getRelayPrivateKey(currentSettings.info.relay_url)) === event.pubkey) {
+      return 0n
+    }
+
+    const isApplicableFee = (feeSchedule: PublicationFeeSchedule) =>
+      feeSchedule.enabled
+      && !feeSchedule.whitelists?.pubkeys?.some((prefix) => event.pubkey.startsWith(prefix))
+      && (!Array.isArray(feeSchedule.kinds) || feeSchedule.kinds.some(isEventKindOrRangeMatch(event)))
+
+    const contentSize = BigInt(Buffer.byteLength(event.content ?? '', 'utf8'))
+
+    return (currentSettings.payments.feeSchedules?.publication ?? [])
+      .filter(isApplicableFee)
+      .reduce(
+        (sum, feeSchedule) => sum + BigInt(feeSchedule.amount) + BigInt(feeSchedule.amountPerByte ?? 0) * contentSize,
+        0n,
+      )
+  }
+
+  public async chargePublicationFee(
+    event: Event,
+    write: (client: DatabaseClient) => Promise<number>,
+  ): Promise<number | undefined> {
+    const fee = this.getPublicationFee(event)
+    if (fee <= 0n) {
+      return write(this.dbClient)
+    }
+
+    debug('charging %s msats to %s for event %s', fee.toString(), event.pubkey, event.id)
+
+    const transaction = new Transaction(this.dbClient)
+
+    try {
+      await transaction.begin()
+
+      const balance = await this.userRepository.adjustBalance(event.pubkey, -fee, transaction.transaction)
+      if (typeof balance === 'undefined') {
+        await transaction.rollback()
+        return
+      }
+
+      const count = await write(transaction.transaction)
+      // Duplicate or outdated events are not charged
+      if (!count) {
+        await transaction.rollback()
+        return count
+      }
+
+      await this.ledgerRepository.create(
+        {
+          pubkey: event.pubkey,
+          type: LedgerEntryType.PublicationFee,
+          amount: -fee,
+          eventId: event.id,
+        },
+        transaction.transaction,
+      )
+
+      await transaction.commit()
+
+      return count
+    } catch (error) {
+      console.error('Unable to charge publication fee. Reason:', error)
+      await transaction.rollback()
+
+      throw error
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { AdmissionFeeSchedule, ContentLimits, Settings } from '../@types/settings'
+import { IRelayInformationService, RelayInformationDocument, RelayInformationFee } from '../@types/services'
+import { createLogger } from '../factories/logger-factory'
+import packageJson from '../../package.json'
+
+const debug = createLogger('relay-information-service')
+
+const positiveOrUndefined = (value: number | undefined): number | undefined =>
+  typeof value === 'number' && value > 0 ? value : undefined
+
+/**
+ * Only content limits applying to every kind can be advertised
+ */
+const getMaxContentLength = (content: ContentLimits | ContentLimits[] | undefined): number | undefined => {
+  const maxLengths = (Array.isArray(content) ? content : [content])
+    .filter((limit) => limit && !Array.isArray(limit.kinds))
+    .map((limit) => limit.maxLength)
+    .filter((maxLength) => typeof maxLength === 'number' && maxLength > 0)
+
+  return maxLengths.length ? Math.min(...maxLengths) : undefined
+}
+
+const getFees = (settings: Settings): Record<string, RelayInformationFee[]> => {
+  const feeSchedules = settings.payments?.feeSchedules ?? {}
+
+  return Object
+    .getOwnPropertyNames(feeSchedules)
+    .reduce((fees, feeName) => {
+      const schedules: AdmissionFeeSchedule[] = Array.isArray(feeSchedules[feeName]) ? feeSchedules[feeName] : []
+
+      return {
+        ...fees,
+        [feeName]: schedules
+          .filter((feeSchedule) => feeSchedule.enabled)
+          .map((feeSchedule) => ({
+            amount: Number(feeSchedule.amount),
+            unit: 'msats',
+            ...(typeof feeSchedule.duration === 'number' ? { period: feeSchedule.duration } : {}),
+          })),
+      }
+    }, {} as Record<string, RelayInformationFee[]>)
+}
+
+export class RelayInformationService implements IRelayInformationService {
+  private cachedSettings: Settings | undefined
+  private cachedDocument: RelayInformationDocument | undefined
+
+  public constructor(
+    private readonly settings: () => Settings,
+  ) {}
+
+  public getRelayInformationDocument(): RelayInformationDocument {
+    const currentSettings = this.settings()
+    // Settings are replaced with a new object whenever they are reloaded
+    if (this.cachedDocument && this.cachedSettings === currentSettings) {
+      return this.cachedDocument
+    }
+
+    debug('building relay information document')
+
+    this.cachedDocument = this.buildRelayInformationDocument(currentSettings)
+    this.cachedSettings = currentSettings
+
+    return this.cachedDocument
+  }
+
+  private buildRelayInformationDocument(settings: Settings): RelayInformationDocument {
+    const {
+      info: {
+        name,
+        description,
+        pubkey,
+        contact,
+        relay_url,
+        icon,
+        posting_policy,
+        relay_countries,
+        language_tags,
+        tags,
+        retention,
+      },
+    } = settings
+
+    const subscriptionLimits = settings.limits?.client?.subscription
+    const eventLimits = settings.limits?.event
+    const paymentsEnabled = Boolean(settings.payments?.enabled)
+
+    const document: RelayInformationDocument = {
+      name,
+      description,
+      pubkey,
+      contact,
+      icon: icon || undefined,
+      supported_nips: packageJson.supportedNips,
+      supported_nip_extensions: packageJson.supportedNipExtensions,
+      software: packageJson.repository.url,
+      version: packageJson.version,
+      limitation: {
+        max_message_length: settings.network?.maxPayloadSize,
+        max_subscriptions: positiveOrUndefined(subscriptionLimits?.maxSubscriptions),
+        max_filters: positiveOrUndefined(subscriptionLimits?.maxFilters),
+        max_limit: subscriptionLimits?.maxLimit,
+        max_subid_length: subscriptionLimits?.maxSubscriptionIdLength,
+        min_prefix: subscriptionLimits?.minPrefixLength,
+        max_event_tags: positiveOrUndefined(eventLimits?.tags?.find((limit) => !Array.isArray(limit.kinds))?.maxTags),
+        max_content_length: getMaxContentLength(eventLimits?.content),
+        min_pow_difficulty: positiveOrUndefined(eventLimits?.eventId?.minLeadingZeroBits),
+        auth_required: Boolean(settings.authentication?.enabled && settings.authentication?.required),
+        payment_required: paymentsEnabled,
+        restricted_writes: paymentsEnabled
+          || Boolean(eventLimits?.pubkey?.whitelist?.length)
+          || Boolean(eventLimits?.pubkey?.nip05?.enabled),
+        created_at_lower_limit: positiveOrUndefined(eventLimits?.createdAt?.maxNegativeDelta),
+        created_at_upper_limit: positiveOrUndefined(eventLimits?.createdAt?.maxPositiveDelta),
+      },
+      retention,
+      relay_countries,
+      language_tags,
+      tags,
+      posting_policy: posting_policy || undefined,
+    }
+
+    if (paymentsEnabled) {
+      const paymentsUrl = new URL(relay_url)
+      paymentsUrl.protocol = paymentsUrl.protocol === 'wss:' ? 'https:' : 'http:'
+      paymentsUrl.pathname = '/invoices'
+
+      document.payments_url = paymentsUrl.toString()
+      document.fees = getFees(settings)
+    }
+
+    return document
+  }
+}
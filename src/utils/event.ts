@@ -1,17 +1,17 @@
 import * as secp256k1 from '@noble/secp256k1'
 
 import { applySpec, converge, curry, mergeLeft, nth, omit, pipe, prop, reduceBy } from 'ramda'
-import { CanonicalEvent, DBEvent, Event, UnidentifiedEvent, UnsignedEvent } from '../@types/event'
+import { CanonicalEvent, DBEvent, Event, EventAddress, UnidentifiedEvent, UnsignedEvent } from '../@types/event'
 import { createCipheriv, getRandomValues } from 'crypto'
 import { EventId, Pubkey, Tag } from '../@types/base'
 import { EventKinds, EventTags } from '../constants/base'
+import { isContentMatchingSearch, isGenericTagQuery } from './filter'
 
 import cluster from 'cluster'
 import { deriveFromSecret } from './secret'
 import { EventKindsRange } from '../@types/settings'
 import { fromBuffer } from './transform'
 import { getLeadingZeroBits } from './proof-of-work'
-import { isGenericTagQuery } from './filter'
 import { RuneLike } from './runes/rune-like'
 import { SubscriptionFilter } from '../@types/subscription'
 import { WebSocketServerAdapterEvent } from '../constants/adapter'
@@ -41,6 +41,19 @@ export const isEventKindOrRangeMatch = ({ kind }: Event) =>
       ? item === kind
       : kind >= item[0] && kind <= item[1]
 
+// NIP-42: protected kinds are only accessible to their author or p-tagged recipients
+export const isEventAccessible = (
+  protectedKinds: (EventKinds | EventKindsRange)[],
+  pubkeys: Pubkey[],
+) => (event: Event): boolean => {
+  if (!protectedKinds.some(isEventKindOrRangeMatch(event))) {
+    return true
+  }
+
+  return pubkeys.includes(event.pubkey)
+    || event.tags.some((tag) => tag.length >= 2 && tag[0] === EventTags.Pubkey && pubkeys.includes(tag[1]))
+}
+
 export const isEventMatchingFilter = (filter: SubscriptionFilter) => (event: Event): boolean => {
   const startsWith = (input: string) => (prefix: string) => input.startsWith(prefix)
 
@@ -83,6 +96,11 @@ export const isEventMatchingFilter = (filter: SubscriptionFilter) => (event: Eve
     }
   }
 
+  // NIP-50: Search capability
+  if (typeof filter.search === 'string' && !isContentMatchingSearch(filter.search)(event.content)) {
+    return false
+  }
+
   // NIP-27: Multicast
   // const targetMulticastGroups: string[] = event.tags.reduce(
   //   (acc, tag) => (tag[0] === EventTags.Multicast)
@@ -280,10 +298,35 @@ export const isParameterizedReplaceableEvent = (event: Event): boolean => {
     && event.kind <= EventKinds.PARAMETERIZED_REPLACEABLE_LAST
 }
 
+export const getEventAddress = (event: Event): string => {
+  const identifier = isParameterizedReplaceableEvent(event)
+    ? event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Deduplication)?.[1] ?? ''
+    : ''
+
+  return `${event.kind}:${event.pubkey}:${identifier}`
+}
+
+export const parseEventAddress = (address: string): EventAddress | undefined => {
+  const [kind, pubkey, ...identifier] = address.split(':')
+  if (!/^\d+$/.test(kind) || !/^[0-9a-f]{64}$/.test(pubkey) || !identifier.length) {
+    return
+  }
+
+  return {
+    kind: Number(kind),
+    pubkey,
+    identifier: identifier.join(':'),
+  }
+}
+
 export const isDeleteEvent = (event: Event): boolean => {
   return event.kind === EventKinds.DELETE
 }
 
+export const isReportEvent = (event: Event): boolean => {
+  return event.kind === EventKinds.REPORTING
+}
+
 export const isExpiredEvent = (event: Event): boolean => {
   if (!event.tags.length) return false
 
@@ -1 +1,56 @@
 export const isGenericTagQuery = (key: string) => /^#[a-z]$/.test(key)
+
+// NIP-50: key:value extensions (e.g. include:spam, language:en) are not full-text terms
+const isSearchExtension = (term: string) => /^[a-z_]+:\S+$/.test(term)
+
+export const getSearchQuery = (search: string): string =>
+  search
+    .split(/\s+/)
+    .filter((term) => term.length && !isSearchExtension(term))
+    .join(' ')
+
+const toWords = (input: string): string[] =>
+  input.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 0)
+
+interface SearchTerm {
+  words: string[]
+  negated: boolean
+}
+
+/**
+ * Parses a search query like websearch_to_tsquery does: terms and "quoted phrases" are ANDed,
+ * a leading - negates them and "or" separates alternatives.
+ */
+const parseSearchQuery = (query: string): SearchTerm[][] => {
+  const alternatives: SearchTerm[][] = [[]]
+
+  for (const [, negation, phrase, word] of query.matchAll(/(-?)(?:"([^"]*)"?|([^\s"]+))/g)) {
+    if (!negation && word?.toLowerCase() === 'or') {
+      alternatives.push([])
+      continue
+    }
+
+    const words = toWords(phrase ?? word)
+    if (words.length) {
+      alternatives[alternatives.length - 1].push({ words, negated: Boolean(negation) })
+    }
+  }
+
+  return alternatives.filter((terms) => terms.length)
+}
+
+const containsPhrase = (words: string[], phrase: string[]): boolean =>
+  words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word))
+
+export const isContentMatchingSearch = (search: string) => (content: string): boolean => {
+  const alternatives = parseSearchQuery(getSearchQuery(search))
+  if (!alternatives.length) {
+    return true
+  }
+
+  const words = toWords(content)
+
+  return alternatives.some((terms) =>
+    terms.every(({ words: phrase, negated }) => containsPhrase(words, phrase) !== negated)
+  )
+}
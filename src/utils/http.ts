@@ -17,3 +17,10 @@ export const getRemoteAddress = (request: IncomingMessage, settings: Settings):
 
   return result.split(',')[0]
 }
+
+export const getHttpRelayUrl = (settings: Settings): URL => {
+  const url = new URL(settings.info.relay_url)
+  url.protocol = (url.protocol === 'wss:') ? 'https:' : 'http:'
+
+  return url
+}
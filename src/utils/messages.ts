@@ -1,4 +1,8 @@
 import {
+  AuthChallengeMessage,
+  ClosedMessage,
+  CommandResult,
+  CountResultMessage,
   EndOfStoredEventsNotice,
   IncomingEventMessage,
   IncomingRelayedEventMessage,
@@ -29,11 +33,26 @@ export const createEndOfStoredEventsNoticeMessage = (
   return [MessageType.EOSE, subscriptionId]
 }
 
+// NIP-01
+export const createClosedMessage = (subscriptionId: SubscriptionId, reason: string): ClosedMessage => {
+  return [MessageType.CLOSED, subscriptionId, reason]
+}
+
 // NIP-20
-export const createCommandResult = (eventId: EventId, successful: boolean, message: string) => {
+export const createCommandResult = (eventId: EventId, successful: boolean, message: string): CommandResult => {
   return [MessageType.OK, eventId, successful, message]
 }
 
+// NIP-42
+export const createAuthChallengeMessage = (challenge: string): AuthChallengeMessage => {
+  return [MessageType.AUTH, challenge]
+}
+
+// NIP-45
+export const createCountResultMessage = (subscriptionId: SubscriptionId, count: number): CountResultMessage => {
+  return [MessageType.COUNT, subscriptionId, { count }]
+}
+
 export const createSubscriptionMessage = (
   subscriptionId: SubscriptionId,
   filters: SubscriptionFilter[]
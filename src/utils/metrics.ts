@@ -0,0 +1,377 @@
+import cluster from 'cluster'
+import { randomUUID } from 'crypto'
+
+import {
+  HistogramSample,
+  ICounter,
+  IGauge,
+  IHistogram,
+  IMetricsRegistry,
+  MetricLabels,
+  MetricSample,
+  MetricsMessage,
+  MetricSnapshot,
+  MetricType,
+} from '../@types/metrics'
+import { EventKinds } from '../constants/base'
+import { MetricsEvent } from '../constants/metrics'
+
+const METRICS_COLLECTION_TIMEOUT = 2000
+
+const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+const KNOWN_EVENT_KINDS = new Set(
+  Object.entries(EventKinds)
+    .filter(([name, value]) => typeof value === 'number' && !/_(FIRST|LAST)$/.test(name))
+    .map(([, value]) => value as number),
+)
+
+/**
+ * Buckets client-controlled event kinds into a bounded set of label values
+ */
+export const getEventKindLabel = (kind: number): string => {
+  if (KNOWN_EVENT_KINDS.has(kind)) {
+    return kind.toString()
+  }
+
+  if (kind >= EventKinds.REPLACEABLE_FIRST && kind <= EventKinds.REPLACEABLE_LAST) {
+    return 'replaceable'
+  }
+
+  if (kind >= EventKinds.EPHEMERAL_FIRST && kind <= EventKinds.EPHEMERAL_LAST) {
+    return 'ephemeral'
+  }
+
+  if (kind >= EventKinds.PARAMETERIZED_REPLACEABLE_FIRST && kind <= EventKinds.PARAMETERIZED_REPLACEABLE_LAST) {
+    return 'parameterized_replaceable'
+  }
+
+  return kind < EventKinds.REPLACEABLE_FIRST ? 'regular' : 'other'
+}
+
+const getLabelsKey = (labels: MetricLabels): string =>
+  JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]))
+
+const isHistogramSample = (sample: MetricSample | HistogramSample): sample is HistogramSample =>
+  'bucketCounts' in sample
+
+const cloneSample = <T extends MetricSample | HistogramSample>(sample: T): T =>
+  isHistogramSample(sample)
+    ? { ...sample, labels: { ...sample.labels }, bucketCounts: [...sample.bucketCounts] }
+    : { ...sample, labels: { ...sample.labels } }
+
+class ValueMetric {
+  protected readonly samples = new Map<string, MetricSample>()
+
+  public constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly type: MetricType,
+  ) {}
+
+  protected add(labels: MetricLabels, value: number, replace: boolean): void {
+    const key = getLabelsKey(labels)
+    const sample = this.samples.get(key)
+    if (!sample) {
+      this.samples.set(key, { labels: { ...labels }, value })
+      return
+    }
+
+    sample.value = replace ? value : sample.value + value
+  }
+
+  public getSnapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      samples: Array.from(this.samples.values()).map(cloneSample),
+    }
+  }
+}
+
+class Counter extends ValueMetric implements ICounter {
+  public constructor(name: string, help: string) {
+    super(name, help, 'counter')
+  }
+
+  public inc(labels: MetricLabels = {}, value = 1): void {
+    this.add(labels, value, false)
+  }
+}
+
+class Gauge extends ValueMetric implements IGauge {
+  public constructor(name: string, help: string) {
+    super(name, help, 'gauge')
+  }
+
+  public set(labels: MetricLabels, value: number): void {
+    this.add(labels, value, true)
+  }
+}
+
+class Histogram implements IHistogram {
+  private readonly samples = new Map<string, HistogramSample>()
+
+  public constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[],
+  ) {}
+
+  public observe(labels: MetricLabels, value: number): void {
+    const key = getLabelsKey(labels)
+    let sample = this.samples.get(key)
+    if (!sample) {
+      sample = { labels: { ...labels }, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.samples.set(key, sample)
+    }
+
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        sample.bucketCounts[index]++
+      }
+    })
+    sample.sum += value
+    sample.count++
+  }
+
+  public startTimer(labels: MetricLabels = {}): () => void {
+    const start = process.hrtime.bigint()
+
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9)
+  }
+
+  public getSnapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'histogram',
+      buckets: [...this.buckets],
+      samples: Array.from(this.samples.values()).map(cloneSample),
+    }
+  }
+}
+
+export class MetricsRegistry implements IMetricsRegistry {
+  private readonly metrics: (ValueMetric | Histogram)[] = []
+
+  public counter(name: string, help: string): ICounter {
+    return this.register(new Counter(name, help))
+  }
+
+  public gauge(name: string, help: string): IGauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  public histogram(name: string, help: string, buckets: number[] = DEFAULT_DURATION_BUCKETS): IHistogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  public getSnapshots(): MetricSnapshot[] {
+    return this.metrics.map((metric) => metric.getSnapshot())
+  }
+
+  private register<T extends ValueMetric | Histogram>(metric: T): T {
+    this.metrics.push(metric)
+
+    return metric
+  }
+}
+
+/**
+ * Sums samples with the same name and labels across snapshots from several processes
+ */
+export const mergeMetricSnapshots = (snapshotsByProcess: MetricSnapshot[][]): MetricSnapshot[] => {
+  const merged = new Map<string, { snapshot: MetricSnapshot, samples: Map<string, MetricSample | HistogramSample> }>()
+
+  for (const snapshot of snapshotsByProcess.flat()) {
+    let existing = merged.get(snapshot.name)
+    if (!existing) {
+      existing = { snapshot: { ...snapshot, samples: [] }, samples: new Map() }
+      merged.set(snapshot.name, existing)
+    }
+
+    for (const sample of snapshot.samples) {
+      const labelsKey = getLabelsKey(sample.labels)
+      const existingSample = existing.samples.get(labelsKey)
+
+      if (!existingSample) {
+        existing.samples.set(labelsKey, cloneSample(sample))
+      } else if (isHistogramSample(existingSample) && isHistogramSample(sample)) {
+        existingSample.bucketCounts = existingSample.bucketCounts
+          .map((count, index) => count + sample.bucketCounts[index])
+        existingSample.sum += sample.sum
+        existingSample.count += sample.count
+      } else if (!isHistogramSample(existingSample) && !isHistogramSample(sample)) {
+        existingSample.value += sample.value
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+    .map(({ snapshot, samples }) => ({ ...snapshot, samples: Array.from(samples.values()) }))
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels)
+  if (!entries.length) {
+    return ''
+  }
+
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+/**
+ * Serializes snapshots using the Prometheus text exposition format
+ */
+export const serializeMetricSnapshots = (snapshots: MetricSnapshot[]): string =>
+  snapshots.map(({ name, help, type, buckets = [], samples }) => {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+
+    for (const sample of samples) {
+      if (!isHistogramSample(sample)) {
+        lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`)
+        continue
+      }
+
+      buckets.forEach((bucket, index) => {
+        lines.push(`${name}_bucket${formatLabels({ ...sample.labels, le: bucket.toString() })} ${sample.bucketCounts[index]}`)
+      })
+      lines.push(`${name}_bucket${formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`)
+      lines.push(`${name}_sum${formatLabels(sample.labels)} ${sample.sum}`)
+      lines.push(`${name}_count${formatLabels(sample.labels)} ${sample.count}`)
+    }
+
+    return `${lines.join('\n')}\n`
+  }).join('')
+
+export const metricsRegistry = new MetricsRegistry()
+
+export const eventsReceivedCounter = metricsRegistry.counter(
+  'nostream_events_received_total',
+  'Number of events received from clients',
+)
+
+export const eventsAcceptedCounter = metricsRegistry.counter(
+  'nostream_events_accepted_total',
+  'Number of events accepted',
+)
+
+export const eventsRejectedCounter = metricsRegistry.counter(
+  'nostream_events_rejected_total',
+  'Number of events rejected',
+)
+
+export const subscriptionsOpenedCounter = metricsRegistry.counter(
+  'nostream_subscriptions_opened_total',
+  'Number of subscriptions opened',
+)
+
+export const subscriptionsClosedCounter = metricsRegistry.counter(
+  'nostream_subscriptions_closed_total',
+  'Number of subscriptions closed',
+)
+
+export const eventQueryDurationHistogram = metricsRegistry.histogram(
+  'nostream_event_query_duration_seconds',
+  'Duration of event queries by filters',
+)
+
+export const rateLimitHitsCounter = metricsRegistry.counter(
+  'nostream_rate_limit_hits_total',
+  'Number of requests that exceeded a rate limit',
+)
+
+const WEB_SOCKET_CONNECTIONS_METRIC = 'nostream_websocket_connections'
+
+export const webSocketConnectionsGauge = metricsRegistry.gauge(
+  WEB_SOCKET_CONNECTIONS_METRIC,
+  'Number of open WebSocket connections per worker',
+)
+
+export const invoicesCreatedCounter = metricsRegistry.counter(
+  'nostream_invoices_created_total',
+  'Number of invoices created',
+)
+
+export const invoiceStatusUpdatesCounter = metricsRegistry.counter(
+  'nostream_invoice_status_updates_total',
+  'Number of invoice status updates',
+)
+
+export const invoicesConfirmedCounter = metricsRegistry.counter(
+  'nostream_invoices_confirmed_total',
+  'Number of invoices confirmed',
+)
+
+/**
+ * Returns the number of open WebSocket connections of each worker, keyed by pid
+ */
+export const getWebSocketConnectionsByWorker = (snapshots: MetricSnapshot[]): Record<string, number> =>
+  snapshots
+    .filter(({ name }) => name === WEB_SOCKET_CONNECTIONS_METRIC)
+    .flatMap(({ samples }) => samples)
+    .reduce((connections, sample) => isHistogramSample(sample)
+      ? connections
+      : { ...connections, [sample.labels.worker]: sample.value },
+    {} as Record<string, number>)
+
+const pendingMetricsRequests = new Map<string, (metrics: MetricSnapshot[]) => void>()
+
+/**
+ * Collects metrics from every process in the cluster through the primary.
+ * Falls back to the metrics of the current process if the primary does not respond in time.
+ */
+export const collectMetrics = (process: NodeJS.Process): Promise<MetricSnapshot[]> => {
+  if (!cluster.isWorker || typeof process.send !== 'function') {
+    return Promise.resolve(metricsRegistry.getSnapshots())
+  }
+
+  const requestId = randomUUID()
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      pendingMetricsRequests.delete(requestId)
+      resolve(metricsRegistry.getSnapshots())
+    }, METRICS_COLLECTION_TIMEOUT)
+
+    pendingMetricsRequests.set(requestId, (metrics) => {
+      clearTimeout(timeout)
+      pendingMetricsRequests.delete(requestId)
+      resolve(metrics)
+    })
+
+    const message: MetricsMessage = { eventName: MetricsEvent.Request, requestId }
+    process.send(message)
+  })
+}
+
+/**
+ * Handles metrics messages sent by the primary to workers.
+ * Returns true if the message was a metrics message.
+ */
+export const handleMetricsMessage = (process: NodeJS.Process, message: { eventName: string }): boolean => {
+  const { eventName, requestId, metrics } = message as MetricsMessage
+
+  switch (eventName) {
+    case MetricsEvent.Collect:
+      if (typeof process.send === 'function') {
+        const report: MetricsMessage = {
+          eventName: MetricsEvent.Report,
+          requestId,
+          metrics: metricsRegistry.getSnapshots(),
+        }
+        process.send(report)
+      }
+      return true
+    case MetricsEvent.Response:
+      pendingMetricsRequests.get(requestId)?.(metrics ?? [])
+      return true
+    default:
+      return false
+  }
+}
@@ -0,0 +1,39 @@
+import { AxiosInstance } from 'axios'
+
+import { Nip05Document, Nip05Fetcher } from '../@types/services'
+
+export interface Nip05Identifier {
+  name: string
+  domain: string
+}
+
+// Hostnames with at least two labels and an alphabetic TLD, which rules out IP literals and ports
+const DOMAIN_REGEX = /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]([a-z0-9-]*[a-z0-9])?$/
+
+const isPublicDomain = (domain: string): boolean =>
+  domain.length <= 253 && DOMAIN_REGEX.test(domain) && !domain.endsWith('.localhost')
+
+export const parseNip05Identifier = (identifier: string): Nip05Identifier | undefined => {
+  const parts = identifier.trim().toLowerCase().split('@')
+  if (parts.length > 2) {
+    return
+  }
+
+  // NIP-05: an identifier without a local part is equivalent to _@domain
+  const [name, domain] = parts.length === 2 ? parts : ['_', parts[0]]
+  if (!/^[a-z0-9._-]+$/.test(name) || !isPublicDomain(domain)) {
+    return
+  }
+
+  return { name, domain }
+}
+
+export const createNip05Fetcher = (httpClient: AxiosInstance): Nip05Fetcher =>
+  async (domain: string, name: string): Promise<Nip05Document> => {
+    const response = await httpClient.get(
+      `https://${domain}/.well-known/nostr.json`,
+      { params: { name } },
+    )
+
+    return response.data
+  }
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto'
+
+import { EventKinds, EventTags } from '../constants/base'
+import { isEventIdValid, isEventSignatureValid } from './event'
+import { Event } from '../@types/event'
+import { eventSchema } from '../schemas/event-schema'
+import { validateSchema } from './validation'
+
+export const NIP98_MAX_CREATED_AT_DELTA = 60
+
+const AUTHORIZATION_SCHEME = 'Nostr '
+
+export const getNip98AuthorizationEvent = (authorization: string | undefined): Event | undefined => {
+  if (typeof authorization !== 'string' || !authorization.startsWith(AUTHORIZATION_SCHEME)) {
+    return
+  }
+
+  try {
+    const event = JSON.parse(
+      Buffer.from(authorization.slice(AUTHORIZATION_SCHEME.length).trim(), 'base64').toString('utf8')
+    )
+
+    if (validateSchema(eventSchema)(event).error) {
+      return
+    }
+
+    return event
+  } catch (error) {
+    return
+  }
+}
+
+const isSameUrl = (input: string, url: string): boolean => {
+  try {
+    return new URL(input).toString() === new URL(url).toString()
+  } catch (error) {
+    return false
+  }
+}
+
+export const isNip98AuthorizationEventValid = async (
+  event: Event,
+  url: string,
+  method: string,
+  payload?: Buffer,
+): Promise<string | undefined> => {
+  if (event.kind !== EventKinds.HTTP_AUTH) {
+    return `invalid: event kind must be ${EventKinds.HTTP_AUTH}`
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  if (Math.abs(now - event.created_at) > NIP98_MAX_CREATED_AT_DELTA) {
+    return `invalid: created_at must be within ${NIP98_MAX_CREATED_AT_DELTA} seconds of the current time`
+  }
+
+  const urlTag = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Url)
+  if (!urlTag || !isSameUrl(urlTag[1], url)) {
+    return 'invalid: url does not match'
+  }
+
+  const methodTag = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Method)
+  if (!methodTag || methodTag[1].toUpperCase() !== method.toUpperCase()) {
+    return 'invalid: method does not match'
+  }
+
+  if (payload) {
+    const payloadTag = event.tags.find((tag) => tag.length >= 2 && tag[0] === EventTags.Payload)
+    if (!payloadTag || payloadTag[1] !== createHash('sha256').update(payload).digest('hex')) {
+      return 'invalid: payload does not match'
+    }
+  }
+
+  if (!await isEventIdValid(event)) {
+    return 'invalid: event id does not match'
+  }
+
+  if (!await isEventSignatureValid(event)) {
+    return 'invalid: event signature verification failed'
+  }
+}
@@ -1,8 +1,8 @@
 import fs from 'fs'
 import yaml from 'js-yaml'
 
+import { assocPath, mergeDeepRight } from 'ramda'
 import { extname, join } from 'path'
-import { mergeDeepRight } from 'ramda'
 
 import { createLogger } from '../factories/logger-factory'
 import { Settings } from '../@types/settings'
@@ -118,6 +118,28 @@ export class SettingsStatic {
     )
   }
 
+  /**
+   * Writes the given overrides to the settings file in use, leaving defaults out of it.
+   * Running workers pick up the change through watchSettings.
+   */
+  public static saveSettingsOverrides(overrides: [string[], unknown][]) {
+    const basePath = SettingsStatic.getSettingsFileBasePath()
+    const fileType = SettingsStatic.settingsFileType(basePath)
+    const settingsFilePath = join(basePath, `settings.${fileType}`)
+
+    const settings = overrides.reduce(
+      (result, [settingsPath, value]) => assocPath(settingsPath, value, result),
+      fs.existsSync(settingsFilePath) ? SettingsStatic.loadSettings(settingsFilePath, fileType) ?? {} : {},
+    )
+
+    debug('saving settings overrides to %s: %o', settingsFilePath, overrides)
+    return fs.writeFileSync(
+      settingsFilePath,
+      fileType === SettingsFileTypes.json ? JSON.stringify(settings, null, 2) : yaml.dump(settings),
+      { encoding: 'utf-8' },
+    )
+  }
+
   public static watchSettings() {
     const basePath = SettingsStatic.getSettingsFileBasePath()
     const defaultsFilePath = SettingsStatic.getDefaultSettingsFilePath()
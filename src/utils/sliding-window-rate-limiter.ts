@@ -1,6 +1,7 @@
 import { IRateLimiter, IRateLimiterOptions } from '../@types/utils'
 import { createLogger } from '../factories/logger-factory'
 import { ICacheAdapter } from '../@types/adapters'
+import { rateLimitHitsCounter } from './metrics'
 
 const debug = createLogger('sliding-window-rate-limiter')
 
@@ -28,6 +29,11 @@ export class SlidingWindowRateLimiter implements IRateLimiter {
 
     debug('hit count on %s bucket: %d', key, hits)
 
-    return hits > options.rate
+    if (hits > options.rate) {
+      rateLimitHitsCounter.inc()
+      return true
+    }
+
+    return false
   }
 }
\ No newline at end of file
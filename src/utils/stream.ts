@@ -15,6 +15,13 @@ export const streamEach = (writeFn: (chunk: any) => void) => new PassThrough({
   },
 })
 
+export const streamEachAsync = (writeFn: (chunk: any) => Promise<void>) => new PassThrough({
+  objectMode: true,
+  write(chunk, _encoding, callback) {
+    writeFn(chunk).then(() => callback(null), callback)
+  },
+})
+
 export const streamFilter = (predicate: (chunk: any) => boolean) => new Transform({
   objectMode: true,
   transform(chunk, _encoding, callback) {
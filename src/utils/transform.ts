@@ -1,7 +1,9 @@
 import { always, applySpec, ifElse, is, isNil, path, pipe, prop, propSatisfies } from 'ramda'
 import { bech32 } from 'bech32'
 
-import { Invoice } from '../@types/invoice'
+import { Invoice, InvoiceStatus } from '../@types/invoice'
+import { Ban } from '../@types/ban'
+import { LedgerEntry } from '../@types/ledger'
 import { User } from '../@types/user'
 
 export const toJSON = (input: any) => JSON.stringify(input)
@@ -14,6 +16,20 @@ export const toBigInt = (input: string): bigint => BigInt(input)
 
 export const fromBigInt = (input: bigint) => input.toString()
 
+const CANCELLED_INVOICE_STATUSES = ['cancelled', 'canceled', 'failed', 'error']
+
+/**
+ * Maps statuses reported by payment processors to invoice statuses.
+ * Unknown statuses are treated as pending.
+ */
+export const toInvoiceStatus = (status: string): InvoiceStatus => {
+  if ((Object.values(InvoiceStatus) as string[]).includes(status)) {
+    return status as InvoiceStatus
+  }
+
+  return CANCELLED_INVOICE_STATUSES.includes(status) ? InvoiceStatus.CANCELLED : InvoiceStatus.PENDING
+}
+
 export const fromDBInvoice = applySpec<Invoice>({
   id: prop('id') as () => string,
   pubkey: pipe(prop('pubkey') as () => Buffer, fromBuffer),
@@ -26,6 +42,7 @@ export const fromDBInvoice = applySpec<Invoice>({
   ),
   unit: prop('unit'),
   status: prop('status'),
+  purpose: prop('purpose'),
   description: prop('description'),
   confirmedAt: prop('confirmed_at'),
   expiresAt: prop('expires_at'),
@@ -37,11 +54,47 @@ export const fromDBInvoice = applySpec<Invoice>({
 export const fromDBUser = applySpec<User>({
   pubkey: pipe(prop('pubkey') as () => Buffer, fromBuffer),
   isAdmitted: prop('is_admitted'),
+  admittedUntil: prop('admitted_until'),
+  admissionRemindedAt: prop('admission_reminded_at'),
   balance: prop('balance'),
   createdAt: prop('created_at'),
   updatedAt: prop('updated_at'),
 })
 
+export const fromDBBan = applySpec<Ban>({
+  id: prop('id') as () => string,
+  pubkey: ifElse(
+    propSatisfies(isNil, 'pubkey'),
+    always(undefined),
+    pipe(prop('pubkey') as () => Buffer, fromBuffer),
+  ),
+  ipAddress: ifElse(propSatisfies(isNil, 'ip_address'), always(undefined), prop('ip_address')),
+  eventId: ifElse(
+    propSatisfies(isNil, 'event_id'),
+    always(undefined),
+    pipe(prop('event_id') as () => Buffer, fromBuffer),
+  ),
+  reason: ifElse(propSatisfies(isNil, 'reason'), always(undefined), prop('reason')),
+  expiresAt: prop('expires_at'),
+  createdAt: prop('created_at'),
+  updatedAt: prop('updated_at'),
+})
+
+export const fromDBLedgerEntry = applySpec<LedgerEntry>({
+  id: prop('id') as () => string,
+  pubkey: pipe(prop('pubkey') as () => Buffer, fromBuffer),
+  type: prop('type'),
+  amount: pipe(prop('amount') as () => string, toBigInt),
+  invoiceId: ifElse(propSatisfies(isNil, 'invoice_id'), always(undefined), prop('invoice_id')),
+  eventId: ifElse(
+    propSatisfies(isNil, 'event_id'),
+    always(undefined),
+    pipe(prop('event_id') as () => Buffer, fromBuffer),
+  ),
+  description: ifElse(propSatisfies(isNil, 'description'), always(undefined), prop('description')),
+  createdAt: prop('created_at'),
+})
+
 export const fromBech32 = (input: string) => {
   const { prefix, words } = bech32.decode(input)
   if (!input.startsWith(prefix)) {
@@ -66,7 +119,7 @@ export const fromZebedeeInvoice = applySpec<Invoice>({
   amountRequested: pipe(prop('amount') as () => string, toBigInt),
   description: prop('description'),
   unit: prop('unit'),
-  status: prop('status'),
+  status: pipe(prop('status') as () => string, toInvoiceStatus),
   expiresAt: ifElse(
     propSatisfies(is(String), 'expiresAt'),
     pipe(prop('expiresAt'), toDate),
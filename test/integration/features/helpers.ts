@@ -96,6 +96,9 @@ export async function waitForEOSE(ws: WebSocket, subscription: string): Promise<
       if (message[0] === MessageType.EOSE && message[1] === subscription) {
         resolve()
         sub.unsubscribe()
+      } else if (message[0] === MessageType.CLOSED && message[1] === subscription) {
+        reject(new Error(message[2]))
+        sub.unsubscribe()
       } else if (message[0] === MessageType.NOTICE) {
         reject(new Error(message[1]))
         sub.unsubscribe()
@@ -142,6 +145,8 @@ export async function waitForNextEvent(ws: WebSocket, subscription: string, cont
         if (typeof content !== 'string' || event.content === content) {
           resolve(message[2])
         }
+      } else if (message[0] === MessageType.CLOSED && message[1] === subscription) {
+        reject(new Error(message[2]))
       } else if (message[0] === MessageType.NOTICE) {
         reject(new Error(message[1]))
       }
@@ -176,6 +181,8 @@ export async function waitForEventCount(
         } else {
           resolve(events)
         }
+      } else if (message[0] === MessageType.CLOSED && message[1] === subscription) {
+        reject(new Error(message[2]))
       } else if (message[0] === MessageType.NOTICE) {
         reject(new Error(message[1]))
       }
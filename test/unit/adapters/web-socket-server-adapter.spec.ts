@@ -0,0 +1,119 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import * as rateLimiterMiddlewareModule from '../../../src/handlers/request-handlers/rate-limiter-middleware'
+
+import { IBanService } from '../../../src/@types/services'
+import { Settings } from '../../../src/@types/settings'
+import { WebSocketServerAdapter } from '../../../src/adapters/web-socket-server-adapter'
+import { WebSocketServerAdapterEvent } from '../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('WebSocketServerAdapter', () => {
+  let webSocketServer: any
+  let createWebSocketAdapterStub: Sinon.SinonStub
+  let getIpAddressBanStub: Sinon.SinonStub
+  let isRateLimitedStub: Sinon.SinonStub
+  let client: any
+  let request: any
+
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    sandbox.useFakeTimers()
+    sandbox.stub(console, 'error')
+
+    isRateLimitedStub = sandbox.stub(rateLimiterMiddlewareModule, 'isRateLimited').resolves(false)
+
+    const webServer = {
+      on: sandbox.stub().returnsThis(),
+      once: sandbox.stub().returnsThis(),
+    } as any
+
+    webSocketServer = {
+      on: sandbox.stub().returnsThis(),
+      clients: new Set(),
+    }
+
+    createWebSocketAdapterStub = sandbox.stub().returns({})
+    getIpAddressBanStub = sandbox.stub()
+
+    const settings = {
+      network: {},
+    } as Settings
+
+    new WebSocketServerAdapter(
+      webServer,
+      webSocketServer,
+      createWebSocketAdapterStub,
+      () => settings,
+      () => ({ getIpAddressBan: getIpAddressBanStub }) as unknown as IBanService,
+    )
+
+    client = {
+      terminate: sandbox.stub(),
+      once: sandbox.stub(),
+    }
+
+    request = {
+      headers: {},
+      socket: {
+        remoteAddress: '127.0.0.1',
+      },
+    }
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('onConnection', () => {
+    const connect = () => {
+      const [, onConnection] = webSocketServer.on.getCalls()
+        .map((call: Sinon.SinonSpyCall) => call.args)
+        .find(([event]) => event === WebSocketServerAdapterEvent.Connection)
+
+      return onConnection(client, request)
+    }
+
+    it('accepts client', async () => {
+      await connect()
+
+      expect(getIpAddressBanStub).to.have.been.calledOnceWithExactly('127.0.0.1')
+      expect(client.terminate).not.to.have.been.called
+      expect(createWebSocketAdapterStub).to.have.been.calledOnce
+    })
+
+    it('terminates rate-limited client', async () => {
+      isRateLimitedStub.resolves(true)
+
+      await connect()
+
+      expect(client.terminate).to.have.been.calledOnce
+      expect(createWebSocketAdapterStub).not.to.have.been.called
+    })
+
+    it('terminates banned client', async () => {
+      getIpAddressBanStub.resolves({ ipAddress: '127.0.0.1', reason: 'spam' })
+
+      await connect()
+
+      expect(client.terminate).to.have.been.calledOnce
+      expect(createWebSocketAdapterStub).not.to.have.been.called
+    })
+
+    it('terminates client if ban cannot be checked', async () => {
+      getIpAddressBanStub.rejects(new Error('database unavailable'))
+
+      await connect()
+
+      expect(client.terminate).to.have.been.calledOnce
+      expect(createWebSocketAdapterStub).not.to.have.been.called
+    })
+  })
+})
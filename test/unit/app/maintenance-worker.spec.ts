@@ -0,0 +1,279 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import * as miscModule from '../../../src/utils/misc'
+
+import { IEventRepository, ILedgerRepository } from '../../../src/@types/repositories'
+import { Invoice, InvoiceStatus } from '../../../src/@types/invoice'
+import { IPaymentsService } from '../../../src/@types/services'
+import { MaintenanceWorker } from '../../../src/app/maintenance-worker'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('MaintenanceWorker', () => {
+  let settings: Settings
+  let paymentsService: IPaymentsService
+  let worker: MaintenanceWorker
+
+  let getPendingInvoicesStub: Sinon.SinonStub
+  let getInvoiceFromPaymentsProcessorStub: Sinon.SinonStub
+  let updateInvoiceStatusStub: Sinon.SinonStub
+  let confirmInvoiceStub: Sinon.SinonStub
+  let sendInvoiceUpdateNotificationStub: Sinon.SinonStub
+  let getUsersWithExpiringAdmissionStub: Sinon.SinonStub
+  let sendAdmissionExpiryReminderStub: Sinon.SinonStub
+
+  let sandbox: Sinon.SinonSandbox
+
+  const createInvoice = (id: string, expiresAt: Date | null = null): Invoice => ({
+    id,
+    pubkey: 'pubkey',
+    amountRequested: 1000n,
+    status: InvoiceStatus.PENDING,
+    expiresAt,
+  }) as any
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    sandbox.stub(miscModule, 'delayMs').resolves()
+    sandbox.stub(console, 'error')
+
+    settings = {
+      payments: {
+        enabled: true,
+      },
+    } as any
+
+    getPendingInvoicesStub = sandbox.stub()
+    getInvoiceFromPaymentsProcessorStub = sandbox.stub()
+    updateInvoiceStatusStub = sandbox.stub().resolves()
+    confirmInvoiceStub = sandbox.stub().resolves()
+    sendInvoiceUpdateNotificationStub = sandbox.stub().resolves()
+    getUsersWithExpiringAdmissionStub = sandbox.stub().resolves([])
+    sendAdmissionExpiryReminderStub = sandbox.stub().resolves()
+
+    paymentsService = {
+      getPendingInvoices: getPendingInvoicesStub,
+      getInvoiceFromPaymentsProcessor: getInvoiceFromPaymentsProcessorStub,
+      updateInvoiceStatus: updateInvoiceStatusStub,
+      confirmInvoice: confirmInvoiceStub,
+      sendInvoiceUpdateNotification: sendInvoiceUpdateNotificationStub,
+      getUsersWithExpiringAdmission: getUsersWithExpiringAdmissionStub,
+      sendAdmissionExpiryReminder: sendAdmissionExpiryReminderStub,
+    } as any
+
+    const process = {
+      on: sandbox.stub().returnsThis(),
+    } as any
+
+    worker = new MaintenanceWorker(
+      process,
+      paymentsService,
+      {} as IEventRepository,
+      {} as ILedgerRepository,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    worker.close()
+    sandbox.restore()
+  })
+
+  describe('onSchedule', () => {
+    const onSchedule = () => (worker as any).onSchedule()
+
+    it('does nothing if payments are disabled', async () => {
+      settings.payments.enabled = false
+
+      await onSchedule()
+
+      expect(getPendingInvoicesStub).not.to.have.been.called
+    })
+
+    it('skips the run if the previous run is still updating invoices', async () => {
+      let resolve: (invoices: Invoice[]) => void
+      getPendingInvoicesStub.returns(new Promise((r) => { resolve = r }))
+
+      const firstRun = onSchedule()
+      await onSchedule()
+      resolve([])
+      await firstRun
+
+      expect(getPendingInvoicesStub).to.have.been.calledOnce
+    })
+
+    it('advances the offset past invoices that are still pending', async () => {
+      const firstPage = Array.from({ length: 10 }, (_, i) => createInvoice(`invoice-${i}`))
+      getPendingInvoicesStub.onFirstCall().resolves(firstPage)
+      getPendingInvoicesStub.onSecondCall().resolves([createInvoice('invoice-10')])
+      getInvoiceFromPaymentsProcessorStub.callsFake(async (invoice: Invoice) => ({
+        id: invoice.id,
+        status: InvoiceStatus.PENDING,
+      }))
+
+      await onSchedule()
+
+      expect(getPendingInvoicesStub).to.have.been.calledTwice
+      expect(getPendingInvoicesStub.firstCall).to.have.been.calledWithExactly(0, 10)
+      expect(getPendingInvoicesStub.secondCall).to.have.been.calledWithExactly(10, 10)
+    })
+
+    it('keeps the offset for invoices that are no longer pending', async () => {
+      const expiresAt = new Date(Date.now() - 1000)
+      const firstPage = Array.from({ length: 10 }, (_, i) => createInvoice(`invoice-${i}`, expiresAt))
+      getPendingInvoicesStub.onFirstCall().resolves(firstPage)
+      getPendingInvoicesStub.onSecondCall().resolves([])
+      getInvoiceFromPaymentsProcessorStub.callsFake(async (invoice: Invoice) => ({
+        id: invoice.id,
+        status: InvoiceStatus.PENDING,
+      }))
+
+      await onSchedule()
+
+      expect(getPendingInvoicesStub).to.have.been.calledTwice
+      expect(getPendingInvoicesStub.secondCall).to.have.been.calledWithExactly(0, 10)
+    })
+  })
+
+  describe('updateInvoice', () => {
+    const updateInvoice = (invoice: Invoice) => (worker as any).updateInvoice(invoice, async () => undefined)
+
+    it('expires pending invoice past its expiry date', async () => {
+      const invoice = createInvoice('invoice', new Date(Date.now() - 1000))
+      getInvoiceFromPaymentsProcessorStub.resolves({ id: 'invoice', status: InvoiceStatus.PENDING })
+
+      const status = await updateInvoice(invoice)
+
+      expect(status).to.equal(InvoiceStatus.EXPIRED)
+      expect(updateInvoiceStatusStub).to.have.been.calledOnceWithExactly({
+        id: 'invoice',
+        status: InvoiceStatus.EXPIRED,
+      })
+    })
+
+    it('expires invoice past its expiry date if payment processor fails', async () => {
+      const invoice = createInvoice('invoice', new Date(Date.now() - 1000))
+      getInvoiceFromPaymentsProcessorStub.rejects(new Error('unavailable'))
+
+      const status = await updateInvoice(invoice)
+
+      expect(status).to.equal(InvoiceStatus.EXPIRED)
+      expect(updateInvoiceStatusStub).to.have.been.calledOnceWithExactly({
+        id: 'invoice',
+        status: InvoiceStatus.EXPIRED,
+      })
+    })
+
+    it('leaves unexpired invoice pending if payment processor fails', async () => {
+      const invoice = createInvoice('invoice', new Date(Date.now() + 60000))
+      getInvoiceFromPaymentsProcessorStub.rejects(new Error('unavailable'))
+
+      const status = await updateInvoice(invoice)
+
+      expect(status).to.equal(InvoiceStatus.PENDING)
+      expect(updateInvoiceStatusStub).not.to.have.been.called
+    })
+
+    it('cancels invoice the payment processor failed', async () => {
+      const invoice = createInvoice('invoice', new Date(Date.now() + 60000))
+      getInvoiceFromPaymentsProcessorStub.resolves({ id: 'invoice', status: 'error' })
+
+      const status = await updateInvoice(invoice)
+
+      expect(status).to.equal(InvoiceStatus.CANCELLED)
+      expect(updateInvoiceStatusStub).to.have.been.calledOnceWithExactly({
+        id: 'invoice',
+        status: InvoiceStatus.CANCELLED,
+      })
+      expect(confirmInvoiceStub).not.to.have.been.called
+    })
+
+    it('does not expire invoice without expiry date', async () => {
+      const invoice = createInvoice('invoice')
+      getInvoiceFromPaymentsProcessorStub.resolves({ id: 'invoice', status: InvoiceStatus.PENDING })
+
+      const status = await updateInvoice(invoice)
+
+      expect(status).to.equal(InvoiceStatus.PENDING)
+      expect(updateInvoiceStatusStub).to.have.been.calledOnceWithExactly({
+        id: 'invoice',
+        status: InvoiceStatus.PENDING,
+      })
+    })
+
+    it('confirms invoice paid before its expiry date', async () => {
+      const confirmedAt = new Date()
+      const invoice = createInvoice('invoice', new Date(Date.now() - 1000))
+      getInvoiceFromPaymentsProcessorStub.resolves({ id: 'invoice', status: InvoiceStatus.COMPLETED, confirmedAt })
+
+      const status = await updateInvoice(invoice)
+
+      expect(status).to.equal(InvoiceStatus.COMPLETED)
+      expect(confirmInvoiceStub).to.have.been.calledOnce
+      expect(confirmInvoiceStub.firstCall.args[0]).to.include({
+        id: 'invoice',
+        status: InvoiceStatus.COMPLETED,
+        amountPaid: 1000n,
+        confirmedAt,
+      })
+      expect(sendInvoiceUpdateNotificationStub).to.have.been.calledOnce
+    })
+  })
+
+  describe('sendAdmissionExpiryReminders', () => {
+    const sendAdmissionExpiryReminders = () => (worker as any).sendAdmissionExpiryReminders()
+
+    it('does nothing if payments are disabled', async () => {
+      settings.payments.enabled = false
+
+      await sendAdmissionExpiryReminders()
+
+      expect(getUsersWithExpiringAdmissionStub).not.to.have.been.called
+    })
+
+    it('does nothing if admission expiry reminders are disabled', async () => {
+      settings.maintenance = { admissionExpiryReminders: { enabled: false } } as any
+
+      await sendAdmissionExpiryReminders()
+
+      expect(getUsersWithExpiringAdmissionStub).not.to.have.been.called
+    })
+
+    it('gets users with admission expiring within the notice period', async () => {
+      sandbox.useFakeTimers(new Date('2023-04-01T00:00:00.000Z'))
+      settings.maintenance = { admissionExpiryReminders: { notice: 3600 } } as any
+
+      await sendAdmissionExpiryReminders()
+
+      expect(getUsersWithExpiringAdmissionStub).to.have.been.calledOnceWithExactly(
+        new Date('2023-04-01T01:00:00.000Z'),
+      )
+    })
+
+    it('sends a reminder to each user', async () => {
+      const users = [{ pubkey: 'pubkey1' }, { pubkey: 'pubkey2' }]
+      getUsersWithExpiringAdmissionStub.resolves(users)
+
+      await sendAdmissionExpiryReminders()
+
+      expect(sendAdmissionExpiryReminderStub).to.have.been.calledTwice
+      expect(sendAdmissionExpiryReminderStub.firstCall).to.have.been.calledWithExactly(users[0])
+      expect(sendAdmissionExpiryReminderStub.secondCall).to.have.been.calledWithExactly(users[1])
+    })
+
+    it('logs error if users cannot be fetched', async () => {
+      getUsersWithExpiringAdmissionStub.rejects(new Error('database unavailable'))
+
+      await sendAdmissionExpiryReminders()
+
+      expect(sendAdmissionExpiryReminderStub).not.to.have.been.called
+      expect(console.error).to.have.been.calledOnce
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import * as metricsModule from '../../../../src/utils/metrics'
+
+import { GetConnectionsController } from '../../../../src/controllers/admin/get-connections-controller'
+
+const { expect } = chai
+
+describe('GetConnectionsController', () => {
+  let collectMetricsStub: Sinon.SinonStub
+  let response: any
+  let controller: GetConnectionsController
+
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    collectMetricsStub = sandbox.stub(metricsModule, 'collectMetrics')
+
+    response = {
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+
+    controller = new GetConnectionsController()
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('sums connections across workers', async () => {
+    collectMetricsStub.resolves([
+      {
+        name: 'nostream_websocket_connections',
+        help: 'help',
+        type: 'gauge',
+        samples: [{ labels: { worker: '100' }, value: 2 }, { labels: { worker: '101' }, value: 5 }],
+      },
+    ])
+
+    await controller.handleRequest({} as any, response)
+
+    expect(collectMetricsStub).to.have.been.calledOnceWithExactly(process)
+    expect(response.status).to.have.been.calledOnceWithExactly(200)
+    expect(JSON.parse(response.send.firstCall.args[0])).to.deep.equal({
+      connections: 7,
+      workers: { '100': 2, '101': 5 },
+    })
+  })
+
+  it('returns no connections if none were reported', async () => {
+    collectMetricsStub.resolves([])
+
+    await controller.handleRequest({} as any, response)
+
+    expect(JSON.parse(response.send.firstCall.args[0])).to.deep.equal({ connections: 0, workers: {} })
+  })
+})
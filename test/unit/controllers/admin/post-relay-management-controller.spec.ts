@@ -0,0 +1,310 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { IBanRepository, IEventRepository } from '../../../../src/@types/repositories'
+import { IBanService } from '../../../../src/@types/services'
+import { PostRelayManagementController } from '../../../../src/controllers/admin/post-relay-management-controller'
+import { Settings } from '../../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('PostRelayManagementController', () => {
+  const pubkey = '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793'
+  const eventId = 'a'.repeat(64)
+
+  let settings: any
+  let banService: Record<string, Sinon.SinonStub>
+  let findActiveStub: Sinon.SinonStub
+  let deleteByIdsStub: Sinon.SinonStub
+  let saveSettingsOverridesStub: Sinon.SinonStub
+  let response: any
+  let controller: PostRelayManagementController
+
+  let sandbox: Sinon.SinonSandbox
+
+  const call = async (method: string, params: unknown[] = []) => {
+    await controller.handleRequest(
+      { body: Buffer.from(JSON.stringify({ method, params })) } as any,
+      response,
+    )
+
+    return JSON.parse(response.send.firstCall.args[0])
+  }
+
+  const savedOverride = (settingsPath: string[]) => saveSettingsOverridesStub.firstCall.args[0]
+    .find(([overridePath]: [string[]]) => overridePath.join('.') === settingsPath.join('.'))
+    ?.[1]
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    settings = {
+      info: {
+        name: 'relay',
+      },
+      limits: {
+        event: {
+          pubkey: {
+            whitelist: [],
+            blacklist: [],
+          },
+          kind: {
+            whitelist: [],
+            blacklist: [],
+          },
+        },
+      },
+    }
+
+    banService = {
+      banPubkey: sandbox.stub().resolves(),
+      unbanPubkey: sandbox.stub().resolves(),
+      banEvent: sandbox.stub().resolves(),
+      unbanEvent: sandbox.stub().resolves(),
+      banIpAddress: sandbox.stub().resolves(),
+      unbanIpAddress: sandbox.stub().resolves(),
+    }
+    findActiveStub = sandbox.stub().resolves([])
+    deleteByIdsStub = sandbox.stub().resolves(1)
+    saveSettingsOverridesStub = sandbox.stub()
+
+    response = {
+      locals: {},
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+
+    controller = new PostRelayManagementController(
+      banService as unknown as IBanService,
+      { findActive: findActiveStub } as unknown as IBanRepository,
+      { deleteByIds: deleteByIdsStub } as unknown as IEventRepository,
+      () => settings as Settings,
+      saveSettingsOverridesStub,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('handleRequest', () => {
+    it('rejects malformed request', async () => {
+      await controller.handleRequest({ body: Buffer.from('{') } as any, response)
+
+      expect(response.status).to.have.been.calledOnceWithExactly(400)
+      expect(JSON.parse(response.send.firstCall.args[0])).to.deep.equal({ result: null, error: 'invalid request' })
+    })
+
+    it('rejects unsupported method', async () => {
+      expect(await call('hasOwnProperty')).to.deep.equal({ result: null, error: 'unsupported method: hasOwnProperty' })
+    })
+
+    it('rejects invalid params', async () => {
+      const body = await call('banpubkey', ['invalid'])
+
+      expect(body.result).to.be.null
+      expect(body.error).to.match(/^invalid params: /)
+      expect(banService.banPubkey).not.to.have.been.called
+    })
+
+    it('lists supported methods', async () => {
+      const { result } = await call('supportedmethods')
+
+      expect(result).to.include.members(['banpubkey', 'allowpubkey', 'allowkind', 'listallowedkinds'])
+    })
+  })
+
+  describe('pubkeys', () => {
+    it('bans pubkey', async () => {
+      expect(await call('banpubkey', [pubkey, 'spam'])).to.deep.equal({ result: true })
+
+      expect(banService.banPubkey).to.have.been.calledOnceWithExactly(pubkey, 'spam')
+    })
+
+    it('lists banned pubkeys', async () => {
+      findActiveStub.resolves([{ pubkey, reason: 'spam' }, { ipAddress: '10.0.0.1' }])
+
+      expect(await call('listbannedpubkeys')).to.deep.equal({ result: [{ pubkey, reason: 'spam' }] })
+    })
+
+    it('unbans pubkey without enabling the whitelist', async () => {
+      await call('allowpubkey', [pubkey])
+
+      expect(banService.unbanPubkey).to.have.been.calledOnceWithExactly(pubkey)
+      expect(savedOverride(['limits', 'event', 'pubkey', 'whitelist'])).to.deep.equal([])
+    })
+
+    it('adds pubkey to whitelist in use', async () => {
+      settings.limits.event.pubkey.whitelist = ['aa']
+
+      await call('allowpubkey', [pubkey])
+
+      expect(savedOverride(['limits', 'event', 'pubkey', 'whitelist'])).to.deep.equal(['aa', pubkey])
+    })
+
+    it('does not add pubkey already matching whitelist', async () => {
+      settings.limits.event.pubkey.whitelist = ['22e8']
+
+      await call('allowpubkey', [pubkey])
+
+      expect(savedOverride(['limits', 'event', 'pubkey', 'whitelist'])).to.deep.equal(['22e8'])
+    })
+
+    it('removes blacklist entries matching pubkey', async () => {
+      settings.limits.event.pubkey.blacklist = ['22e8', 'bb']
+
+      await call('allowpubkey', [pubkey])
+
+      expect(savedOverride(['limits', 'event', 'pubkey', 'blacklist'])).to.deep.equal(['bb'])
+    })
+
+    it('lists allowed pubkeys', async () => {
+      settings.limits.event.pubkey.whitelist = [pubkey]
+
+      expect(await call('listallowedpubkeys')).to.deep.equal({ result: [{ pubkey }] })
+    })
+  })
+
+  describe('events', () => {
+    it('bans and deletes event', async () => {
+      expect(await call('banevent', [eventId, 'spam'])).to.deep.equal({ result: true })
+
+      expect(banService.banEvent).to.have.been.calledOnceWithExactly(eventId, 'spam')
+      expect(deleteByIdsStub).to.have.been.calledOnceWithExactly([eventId])
+    })
+
+    it('allows event', async () => {
+      await call('allowevent', [eventId])
+
+      expect(banService.unbanEvent).to.have.been.calledOnceWithExactly(eventId)
+    })
+
+    it('lists banned events', async () => {
+      findActiveStub.resolves([{ eventId, reason: 'spam' }, { pubkey }])
+
+      expect(await call('listbannedevents')).to.deep.equal({ result: [{ id: eventId, reason: 'spam' }] })
+    })
+  })
+
+  describe('kinds', () => {
+    it('removes kind from blacklist without enabling the whitelist', async () => {
+      settings.limits.event.kind.blacklist = [1, 4]
+
+      await call('allowkind', [1])
+
+      expect(savedOverride(['limits', 'event', 'kind', 'blacklist'])).to.deep.equal([4])
+      expect(savedOverride(['limits', 'event', 'kind', 'whitelist'])).to.deep.equal([])
+    })
+
+    it('adds kind to whitelist in use', async () => {
+      settings.limits.event.kind.whitelist = [0, [3, 5]]
+
+      await call('allowkind', [7])
+
+      expect(savedOverride(['limits', 'event', 'kind', 'whitelist'])).to.deep.equal([0, [3, 5], 7])
+    })
+
+    it('does not add kind already in whitelisted range', async () => {
+      settings.limits.event.kind.whitelist = [[3, 5]]
+
+      await call('allowkind', [4])
+
+      expect(savedOverride(['limits', 'event', 'kind', 'whitelist'])).to.deep.equal([[3, 5]])
+    })
+
+    it('splits blacklisted range around allowed kind', async () => {
+      settings.limits.event.kind.blacklist = [[10, 20]]
+
+      await call('allowkind', [15])
+
+      expect(savedOverride(['limits', 'event', 'kind', 'blacklist'])).to.deep.equal([[10, 14], [16, 20]])
+    })
+
+    it('shrinks blacklisted range at its bounds', async () => {
+      settings.limits.event.kind.blacklist = [[10, 11], [20, 22]]
+
+      await call('allowkind', [10])
+      await call('allowkind', [22])
+
+      expect(saveSettingsOverridesStub.firstCall.args[0][0][1]).to.deep.equal([11, [20, 22]])
+      expect(saveSettingsOverridesStub.secondCall.args[0][0][1]).to.deep.equal([[10, 11], [20, 21]])
+    })
+
+    it('adds kind to blacklist leaving whitelist alone', async () => {
+      settings.limits.event.kind.whitelist = [1]
+
+      await call('disallowkind', [1])
+
+      expect(saveSettingsOverridesStub.firstCall.args[0]).to.deep.equal([
+        [['limits', 'event', 'kind', 'blacklist'], [1]],
+      ])
+    })
+
+    it('does not add kind already in blacklisted range', async () => {
+      settings.limits.event.kind.blacklist = [[0, 5]]
+
+      await call('disallowkind', [3])
+
+      expect(savedOverride(['limits', 'event', 'kind', 'blacklist'])).to.deep.equal([[0, 5]])
+    })
+
+    it('lists all kinds but blacklisted ones if whitelist is empty', async () => {
+      settings.limits.event.kind.blacklist = [[1, 65534]]
+
+      expect(await call('listallowedkinds')).to.deep.equal({ result: [0, 65535] })
+    })
+
+    it('lists whitelisted kinds but blacklisted ones', async () => {
+      settings.limits.event.kind.whitelist = [0, [3, 6]]
+      settings.limits.event.kind.blacklist = [4]
+
+      expect(await call('listallowedkinds')).to.deep.equal({ result: [0, 3, 5, 6] })
+    })
+  })
+
+  describe('ips', () => {
+    it('blocks ip', async () => {
+      await call('blockip', ['10.0.0.1', 'spam'])
+
+      expect(banService.banIpAddress).to.have.been.calledOnceWithExactly('10.0.0.1', 'spam')
+    })
+
+    it('unblocks ip', async () => {
+      await call('unblockip', ['10.0.0.1'])
+
+      expect(banService.unbanIpAddress).to.have.been.calledOnceWithExactly('10.0.0.1')
+    })
+
+    it('lists blocked ips', async () => {
+      findActiveStub.resolves([{ ipAddress: '10.0.0.1', reason: 'spam' }, { pubkey }])
+
+      expect(await call('listblockedips')).to.deep.equal({ result: [{ ip: '10.0.0.1', reason: 'spam' }] })
+    })
+  })
+
+  describe('relay information', () => {
+    it('changes relay name', async () => {
+      await call('changerelayname', ['new name'])
+
+      expect(saveSettingsOverridesStub).to.have.been.calledOnceWithExactly([[['info', 'name'], 'new name']])
+    })
+
+    it('changes relay description', async () => {
+      await call('changerelaydescription', ['description'])
+
+      expect(saveSettingsOverridesStub).to.have.been.calledOnceWithExactly([[['info', 'description'], 'description']])
+    })
+
+    it('changes relay icon', async () => {
+      await call('changerelayicon', ['https://relay.example.com/icon.png'])
+
+      expect(saveSettingsOverridesStub).to.have.been.calledOnceWithExactly([
+        [['info', 'icon'], 'https://relay.example.com/icon.png'],
+      ])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { IUserRepository } from '../../../../src/@types/repositories'
+import { PutUserAdmissionController } from '../../../../src/controllers/admin/put-user-admission-controller'
+
+const { expect } = chai
+
+describe('PutUserAdmissionController', () => {
+  const pubkey = '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793'
+
+  let upsertStub: Sinon.SinonStub
+  let response: any
+  let controller: PutUserAdmissionController
+
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    upsertStub = sandbox.stub().resolves(1)
+
+    response = {
+      locals: {},
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+
+    controller = new PutUserAdmissionController({ upsert: upsertStub } as unknown as IUserRepository)
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('admits user permanently clearing an expired admission', async () => {
+    await controller.handleRequest({ params: { pubkey }, body: { isAdmitted: true } } as any, response)
+
+    expect(upsertStub).to.have.been.calledOnceWithExactly({
+      pubkey,
+      isAdmitted: true,
+      admittedUntil: null,
+      admissionRemindedAt: null,
+    })
+    expect(response.status).to.have.been.calledOnceWithExactly(204)
+  })
+
+  it('admits user until given time', async () => {
+    await controller.handleRequest(
+      { params: { pubkey }, body: { isAdmitted: true, admittedUntil: 1700000000 } } as any,
+      response,
+    )
+
+    expect(upsertStub).to.have.been.calledOnceWithExactly({
+      pubkey,
+      isAdmitted: true,
+      admittedUntil: new Date(1700000000000),
+      admissionRemindedAt: null,
+    })
+  })
+
+  it('rejects invalid admission', async () => {
+    await controller.handleRequest(
+      { params: { pubkey }, body: { isAdmitted: true, admittedUntil: 'tomorrow' } } as any,
+      response,
+    )
+
+    expect(upsertStub).not.to.have.been.called
+    expect(response.status).to.have.been.calledOnceWithExactly(400)
+  })
+})
@@ -1,5 +1,7 @@
 import { expect } from 'chai'
+import Sinon from 'sinon'
 
+import { IEventRepository, IModerationActionRepository } from '../../../src/@types/repositories'
 import { DefaultEventStrategy } from '../../../src/handlers/event-strategies/default-event-strategy'
 import { DeleteEventStrategy } from '../../../src/handlers/event-strategies/delete-event-strategy'
 import { EphemeralEventStrategy } from '../../../src/handlers/event-strategies/ephemeral-event-strategy'
@@ -7,24 +9,35 @@ import { Event } from '../../../src/@types/event'
 import { EventKinds } from '../../../src/constants/base'
 import { eventStrategyFactory } from '../../../src/factories/event-strategy-factory'
 import { Factory } from '../../../src/@types/base'
-import { IEventRepository } from '../../../src/@types/repositories'
 import { IEventStrategy } from '../../../src/@types/message-handlers'
 import { IWebSocketAdapter } from '../../../src/@types/adapters'
+import { ModerationEventStrategy } from '../../../src/handlers/event-strategies/moderation-event-strategy'
 import { ParameterizedReplaceableEventStrategy } from '../../../src/handlers/event-strategies/parameterized-replaceable-event-strategy'
 import { ReplaceableEventStrategy } from '../../../src/handlers/event-strategies/replaceable-event-strategy'
+import { SettingsStatic } from '../../../src/utils/settings'
 
 describe('eventStrategyFactory', () => {
   let eventRepository: IEventRepository
+  let moderationActionRepository: IModerationActionRepository
+  let createSettingsStub: Sinon.SinonStub
   let event: Event
   let adapter: IWebSocketAdapter
   let factory: Factory<IEventStrategy<Event, Promise<void>>, [Event, IWebSocketAdapter]>
 
   beforeEach(() => {
     eventRepository = {} as any
+    moderationActionRepository = {} as any
     event = {} as any
     adapter = {} as any
+    createSettingsStub = Sinon.stub(SettingsStatic, 'createSettings').returns({
+      admin: { pubkeys: ['admin'] },
+    } as any)
 
-    factory = eventStrategyFactory(eventRepository)
+    factory = eventStrategyFactory(eventRepository, moderationActionRepository)
+  })
+
+  afterEach(() => {
+    createSettingsStub.restore()
   })
 
   it('returns ReplaceableEvent given a set_metadata event', () => {
@@ -57,6 +70,18 @@ describe('eventStrategyFactory', () => {
     expect(factory([event, adapter])).to.be.an.instanceOf(ParameterizedReplaceableEventStrategy)
   })
 
+  it('returns ModerationEventStrategy given a report event by an admin', () => {
+    event.kind = EventKinds.REPORTING
+    event.pubkey = 'admin'
+    expect(factory([event, adapter])).to.be.an.instanceOf(ModerationEventStrategy)
+  })
+
+  it('returns DefaultEventStrategy given a report event by a non-admin', () => {
+    event.kind = EventKinds.REPORTING
+    event.pubkey = 'pubkey'
+    expect(factory([event, adapter])).to.be.an.instanceOf(DefaultEventStrategy)
+  })
+
   it('returns DefaultEventStrategy given a text_note event', () => {
     event.kind = EventKinds.TEXT_NOTE
     expect(factory([event, adapter])).to.be.an.instanceOf(DefaultEventStrategy)
@@ -1,7 +1,9 @@
 import { expect } from 'chai'
 
-import { IEventRepository, IUserRepository } from '../../../src/@types/repositories'
+import { IEventRepository, IModerationActionRepository, IUserRepository } from '../../../src/@types/repositories'
 import { IncomingMessage, MessageType } from '../../../src/@types/messages'
+import { AuthMessageHandler } from '../../../src/handlers/auth-message-handler'
+import { CountMessageHandler } from '../../../src/handlers/count-message-handler'
 import { DelegatedEventMessageHandler } from '../../../src/handlers/delegated-event-message-handler'
 import { Event } from '../../../src/@types/event'
 import { EventMessageHandler } from '../../../src/handlers/event-message-handler'
@@ -15,6 +17,7 @@ describe('messageHandlerFactory', () => {
   let event: Event
   let eventRepository: IEventRepository
   let userRepository: IUserRepository
+  let moderationActionRepository: IModerationActionRepository
   let message: IncomingMessage
   let adapter: IWebSocketAdapter
   let factory
@@ -22,11 +25,12 @@ describe('messageHandlerFactory', () => {
   beforeEach(() => {
     eventRepository = {} as any
     userRepository = {} as any
+    moderationActionRepository = {} as any
     adapter = {} as any
     event = {
       tags: [],
     } as any
-    factory = messageHandlerFactory(eventRepository, userRepository)
+    factory = messageHandlerFactory(eventRepository, userRepository, moderationActionRepository)
   })
 
   it('returns EventMessageHandler when given an EVENT message', () => {
@@ -69,6 +73,25 @@ describe('messageHandlerFactory', () => {
     expect(factory([message, adapter])).to.be.an.instanceOf(UnsubscribeMessageHandler)
   })
 
+  it('returns AuthMessageHandler when given an AUTH message', () => {
+    message = [
+       MessageType.AUTH,
+       event,
+    ]
+
+    expect(factory([message, adapter])).to.be.an.instanceOf(AuthMessageHandler)
+  })
+
+  it('returns CountMessageHandler when given a COUNT message', () => {
+    message = [
+       MessageType.COUNT,
+       '',
+       {},
+    ] as any
+
+    expect(factory([message, adapter])).to.be.an.instanceOf(CountMessageHandler)
+  })
+
   it('throws when given an invalid message', () => {
     message = [] as any
 
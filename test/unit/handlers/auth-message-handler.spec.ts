@@ -0,0 +1,154 @@
+import chai from 'chai'
+import EventEmitter from 'events'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { getPublicKey, identifyEvent, signEvent } from '../../../src/utils/event'
+import { IncomingAuthMessage, MessageType } from '../../../src/@types/messages'
+import { AuthMessageHandler } from '../../../src/handlers/auth-message-handler'
+import { Event } from '../../../src/@types/event'
+import { EventKinds } from '../../../src/constants/base'
+import { IMessageHandler } from '../../../src/@types/message-handlers'
+import { IWebSocketAdapter } from '../../../src/@types/adapters'
+import { Settings } from '../../../src/@types/settings'
+import { Tag } from '../../../src/@types/base'
+import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('AuthMessageHandler', () => {
+  const privkey = 'a'.repeat(64)
+  const pubkey = getPublicKey(privkey)
+  const challenge = 'challenge'
+
+  let settings: Settings
+  let webSocket: IWebSocketAdapter
+  let handler: IMessageHandler
+  let onMessageStub: Sinon.SinonStub
+  let onAuthenticateStub: Sinon.SinonStub
+  let sandbox: Sinon.SinonSandbox
+
+  const createAuthEvent = async (
+    tags: Tag[] = [['challenge', challenge], ['relay', 'wss://relay.example.com/']],
+    kind = EventKinds.AUTH,
+    createdAt = Math.floor(Date.now() / 1000),
+  ): Promise<Event> => {
+    const unsignedEvent = await identifyEvent({
+      pubkey,
+      created_at: createdAt,
+      kind,
+      tags,
+      content: '',
+    })
+
+    return signEvent(privkey)(unsignedEvent)
+  }
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      info: {
+        relay_url: 'wss://relay.example.com',
+      },
+      authentication: {
+        enabled: true,
+        maxCreatedAtDelta: 600,
+      },
+    } as any
+    onMessageStub = sandbox.stub()
+    onAuthenticateStub = sandbox.stub()
+    webSocket = new EventEmitter() as any
+    webSocket.getClientId = () => 'clientId'
+    webSocket.getAuthChallenge = () => challenge
+    webSocket
+      .on(WebSocketAdapterEvent.Message, onMessageStub)
+      .on(WebSocketAdapterEvent.Authenticate, onAuthenticateStub)
+    handler = new AuthMessageHandler(webSocket, () => settings)
+  })
+
+  afterEach(() => {
+    webSocket.removeAllListeners()
+    sandbox.restore()
+  })
+
+  describe('handleMessage()', () => {
+    it('authenticates client given a valid auth event', async () => {
+      const event = await createAuthEvent()
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).to.have.been.calledOnceWithExactly(pubkey)
+      expect(onMessageStub).to.have.been.calledOnceWithExactly([MessageType.OK, event.id, true, ''])
+    })
+
+    it('rejects auth event if authentication is disabled', async () => {
+      settings.authentication.enabled = false
+      const event = await createAuthEvent()
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'restricted: authentication is disabled'],
+      )
+    })
+
+    it('rejects auth event with wrong kind', async () => {
+      const event = await createAuthEvent(undefined, EventKinds.TEXT_NOTE)
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'invalid: AUTH event kind must be 22242'],
+      )
+    })
+
+    it('rejects stale auth event', async () => {
+      const event = await createAuthEvent(undefined, undefined, Math.floor(Date.now() / 1000) - 601)
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'invalid: created_at must be within 600 seconds of the current time'],
+      )
+    })
+
+    it('rejects auth event with wrong challenge', async () => {
+      const event = await createAuthEvent([['challenge', 'other'], ['relay', 'wss://relay.example.com']])
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'invalid: challenge does not match'],
+      )
+    })
+
+    it('rejects auth event with wrong relay', async () => {
+      const event = await createAuthEvent([['challenge', challenge], ['relay', 'wss://other.example.com']])
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'invalid: relay does not match'],
+      )
+    })
+
+    it('rejects auth event with invalid signature', async () => {
+      const event = await createAuthEvent()
+      event.sig = 'f'.repeat(128)
+
+      await handler.handleMessage([MessageType.AUTH, event] as IncomingAuthMessage)
+
+      expect(onAuthenticateStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'invalid: event signature verification failed'],
+      )
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import EventEmitter from 'events'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+chai.use(chaiAsPromised)
+
+import { CountMessage, MessageType } from '../../../src/@types/messages'
+import { CountMessageHandler } from '../../../src/handlers/count-message-handler'
+import { IEventRepository } from '../../../src/@types/repositories'
+import { IMessageHandler } from '../../../src/@types/message-handlers'
+import { IWebSocketAdapter } from '../../../src/@types/adapters'
+import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('CountMessageHandler', () => {
+  const subscriptionId = 'subscriptionId'
+  let handler: IMessageHandler
+  let webSocket: IWebSocketAdapter
+  let eventRepository: IEventRepository
+  let countByFiltersStub: Sinon.SinonStub
+  let settingsFactory: Sinon.SinonStub
+  let onMessageStub: Sinon.SinonStub
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    countByFiltersStub = sandbox.stub()
+    eventRepository = {
+      countByFilters: countByFiltersStub,
+    } as any
+    settingsFactory = sandbox.stub().returns({})
+    onMessageStub = sandbox.stub()
+    webSocket = new EventEmitter() as any
+    webSocket.getAuthenticatedPubkeys = () => new Set()
+    webSocket.on(WebSocketAdapterEvent.Message, onMessageStub)
+    handler = new CountMessageHandler(webSocket, eventRepository, settingsFactory)
+  })
+
+  afterEach(() => {
+    webSocket.removeAllListeners()
+    sandbox.restore()
+  })
+
+  describe('handleMessage()', () => {
+    it('emits count result', async () => {
+      countByFiltersStub.resolves(3)
+      const message = [MessageType.COUNT, subscriptionId, { kinds: [7] }, { kinds: [7] }] as CountMessage
+
+      await handler.handleMessage(message)
+
+      expect(countByFiltersStub).to.have.been.calledOnceWithExactly(
+        [{ kinds: [7] }],
+        { protectedKinds: [], authenticatedPubkeys: [] },
+      )
+      expect(onMessageStub).to.have.been.calledOnceWithExactly([MessageType.COUNT, subscriptionId, { count: 3 }])
+    })
+
+    it('emits closed if there are too many filters', async () => {
+      settingsFactory.returns({ limits: { client: { subscription: { maxFilters: 1 } } } })
+      const message = [MessageType.COUNT, subscriptionId, { kinds: [1] }, { kinds: [7] }] as CountMessage
+
+      await handler.handleMessage(message)
+
+      expect(countByFiltersStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.CLOSED, subscriptionId, 'restricted: number of filters per subscription must be less than or equal to 1'],
+      )
+    })
+
+    it('emits closed if subscription id is too long', async () => {
+      settingsFactory.returns({ limits: { client: { subscription: { maxSubscriptionIdLength: 4 } } } })
+      const message = [MessageType.COUNT, subscriptionId, { kinds: [1] }] as CountMessage
+
+      await handler.handleMessage(message)
+
+      expect(countByFiltersStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.CLOSED, subscriptionId, 'invalid: subscription id must be less than or equal to 4 characters'],
+      )
+    })
+
+    it('emits closed if limit is too high', async () => {
+      settingsFactory.returns({ limits: { client: { subscription: { maxLimit: 100 } } } })
+      const message = [MessageType.COUNT, subscriptionId, { kinds: [1], limit: 101 }] as CountMessage
+
+      await handler.handleMessage(message)
+
+      expect(countByFiltersStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.CLOSED, subscriptionId, 'invalid: limit must be less than or equal to 100'],
+      )
+    })
+
+    it('emits closed if prefix is too short', async () => {
+      settingsFactory.returns({ limits: { client: { subscription: { minPrefixLength: 4 } } } })
+      const message = [MessageType.COUNT, subscriptionId, { authors: ['aab'] }] as CountMessage
+
+      await handler.handleMessage(message)
+
+      expect(countByFiltersStub).not.to.have.been.called
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.CLOSED, subscriptionId, 'invalid: prefixes must be at least 4 characters'],
+      )
+    })
+
+    it('emits closed with error if count fails', async () => {
+      const error = new Error('mistakes were made')
+      countByFiltersStub.rejects(error)
+      const message = [MessageType.COUNT, subscriptionId, { kinds: [1] }] as CountMessage
+
+      await expect(handler.handleMessage(message)).to.eventually.be.rejectedWith(error)
+
+      expect(onMessageStub).to.have.been.calledOnceWithExactly(
+        [MessageType.CLOSED, subscriptionId, 'error: unable to count events'],
+      )
+    })
+  })
+})
@@ -7,12 +7,13 @@ import sinonChai from 'sinon-chai'
 chai.use(sinonChai)
 chai.use(chaiAsPromised)
 
+import { IBanService, INip05VerificationService } from '../../../src/@types/services'
+import { IEventRepository, IUserRepository } from '../../../src/@types/repositories'
 import { IncomingEventMessage, MessageType } from '../../../src/@types/messages'
 import { DelegatedEventMessageHandler } from '../../../src/handlers/delegated-event-message-handler'
 import { Event } from '../../../src/@types/event'
 import { EventMessageHandler } from '../../../src/handlers/event-message-handler'
 import { EventTags } from '../../../src/constants/base'
-import { IUserRepository } from '../../../src/@types/repositories'
 import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
 
 const { expect } = chai
@@ -20,7 +21,10 @@ const { expect } = chai
 describe('DelegatedEventMessageHandler', () => {
   let webSocket: EventEmitter
   let handler: DelegatedEventMessageHandler
+  let eventRepository: IEventRepository
   let userRepository: IUserRepository
+  let nip05VerificationService: INip05VerificationService
+  let banService: IBanService
   let event: Event
   let message: IncomingEventMessage
   let sandbox: Sinon.SinonSandbox
@@ -57,11 +61,20 @@ describe('DelegatedEventMessageHandler', () => {
     let strategyExecuteStub: Sinon.SinonStub
     let isRateLimitedStub: Sinon.SinonStub
     let isUserAdmitted: Sinon.SinonStub
+    let isEventDeletedStub: Sinon.SinonStub
+    let isPubkeyBannedStub: Sinon.SinonStub
+    let isPubkeyVerifiedStub: Sinon.SinonStub
+    let isDelegationRevokedStub: Sinon.SinonStub
 
     beforeEach(() => {
       canAcceptEventStub = sandbox.stub(DelegatedEventMessageHandler.prototype, 'canAcceptEvent' as any)
       isEventValidStub = sandbox.stub(DelegatedEventMessageHandler.prototype, 'isEventValid' as any)
       isUserAdmitted = sandbox.stub(EventMessageHandler.prototype, 'isUserAdmitted' as any)
+      isEventDeletedStub = sandbox.stub(EventMessageHandler.prototype, 'isEventDeleted' as any)
+      isPubkeyBannedStub = sandbox.stub(EventMessageHandler.prototype, 'isPubkeyBanned' as any)
+      sandbox.stub(EventMessageHandler.prototype, 'isEventBanned' as any)
+      isPubkeyVerifiedStub = sandbox.stub(EventMessageHandler.prototype, 'isPubkeyVerified' as any)
+      isDelegationRevokedStub = sandbox.stub(DelegatedEventMessageHandler.prototype, 'isDelegationRevoked' as any)
       strategyExecuteStub = sandbox.stub()
       strategyFactoryStub = sandbox.stub().returns({
         execute: strategyExecuteStub,
@@ -74,9 +87,12 @@ describe('DelegatedEventMessageHandler', () => {
       handler = new DelegatedEventMessageHandler(
         webSocket as any,
         strategyFactoryStub,
+        eventRepository,
         userRepository,
         () => ({}) as any,
         () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
       )
     })
 
@@ -113,6 +129,54 @@ describe('DelegatedEventMessageHandler', () => {
       expect(strategyFactoryStub).not.to.have.been.called
     })
 
+    it('rejects event if pubkey is banned', async () => {
+      isPubkeyBannedStub.resolves('blocked: pubkey is banned')
+
+      await handler.handleMessage(message)
+
+      expect(isPubkeyBannedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: pubkey is banned'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
+    it('rejects event if delegation was revoked', async () => {
+      isDelegationRevokedStub.resolves(true)
+
+      await handler.handleMessage(message)
+
+      expect(isDelegationRevokedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: delegation was revoked'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
+    it('rejects event if it was deleted', async () => {
+      isEventDeletedStub.resolves(true)
+
+      await handler.handleMessage(message)
+
+      expect(isEventDeletedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: event was deleted'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
+    it('rejects event if pubkey is not nip05 verified', async () => {
+      isPubkeyVerifiedStub.resolves('blocked: nip05 verification required')
+
+      await handler.handleMessage(message)
+
+      expect(isPubkeyVerifiedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: nip05 verification required'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
     it('rejects event if rate-limited', async () => {
       isRateLimitedStub.resolves(true)
 
@@ -226,4 +290,158 @@ describe('DelegatedEventMessageHandler', () => {
       return expect((handler as any).isEventValid(event)).to.eventually.equal('invalid: delegation verification failed')
     })
   })
+
+  describe('isDelegationRevoked', () => {
+    let isDelegationRevokedStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      isDelegationRevokedStub = sandbox.stub()
+      eventRepository = { isDelegationRevoked: isDelegationRevokedStub } as any
+      handler = new DelegatedEventMessageHandler(
+        webSocket as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => ({}) as any,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+      event.tags[0][1] = 'a'.repeat(64)
+    })
+
+    it('queries revocation by delegator and delegation token', async () => {
+      isDelegationRevokedStub.resolves(false)
+
+      await (handler as any).isDelegationRevoked(event)
+
+      expect(isDelegationRevokedStub).to.have.been.calledOnceWithExactly('a'.repeat(64), 'signature')
+    })
+
+    it('returns false if delegation token was not revoked', () => {
+      isDelegationRevokedStub.resolves(false)
+
+      return expect((handler as any).isDelegationRevoked(event)).to.eventually.be.false
+    })
+
+    it('returns true if delegator revoked the delegation token', () => {
+      isDelegationRevokedStub.resolves(true)
+
+      return expect((handler as any).isDelegationRevoked(event)).to.eventually.be.true
+    })
+  })
+
+  describe('delegator limits', () => {
+    let settings: any
+    let parentCanAcceptEventStub: Sinon.SinonStub
+    let parentIsRateLimitedStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      settings = { limits: { event: { delegation: { applyLimitsToDelegator: false } } } }
+      parentCanAcceptEventStub = sandbox.stub(EventMessageHandler.prototype, 'canAcceptEvent' as any)
+      parentIsRateLimitedStub = sandbox.stub(EventMessageHandler.prototype, 'isRateLimited' as any)
+      handler = new DelegatedEventMessageHandler(
+        webSocket as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => settings,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    describe('canAcceptEvent', () => {
+      it('only checks delegatee if disabled', () => {
+        parentCanAcceptEventStub.returns(undefined)
+
+        expect((handler as any).canAcceptEvent(event)).to.be.undefined
+        expect(parentCanAcceptEventStub).to.have.been.calledOnceWithExactly(event)
+      })
+
+      it('returns reason if delegatee cannot be accepted', () => {
+        settings.limits.event.delegation.applyLimitsToDelegator = true
+        parentCanAcceptEventStub.returns('blocked: pubkey not allowed')
+
+        expect((handler as any).canAcceptEvent(event)).to.equal('blocked: pubkey not allowed')
+        expect(parentCanAcceptEventStub).to.have.been.calledOnceWithExactly(event)
+      })
+
+      it('returns reason if delegator cannot be accepted', () => {
+        settings.limits.event.delegation.applyLimitsToDelegator = true
+        parentCanAcceptEventStub.onFirstCall().returns(undefined)
+        parentCanAcceptEventStub.onSecondCall().returns('blocked: pubkey not allowed')
+
+        expect((handler as any).canAcceptEvent(event)).to.equal('blocked: pubkey not allowed')
+        expect(parentCanAcceptEventStub.secondCall).to.have.been.calledWithExactly({ ...event, pubkey: 'delegator' })
+      })
+    })
+
+    describe('isRateLimited', () => {
+      it('only checks delegatee if disabled', async () => {
+        parentIsRateLimitedStub.resolves(false)
+
+        expect(await (handler as any).isRateLimited(event)).to.be.false
+        expect(parentIsRateLimitedStub).to.have.been.calledOnceWithExactly(event)
+      })
+
+      it('returns true if delegator is rate limited', async () => {
+        settings.limits.event.delegation.applyLimitsToDelegator = true
+        parentIsRateLimitedStub.onFirstCall().resolves(false)
+        parentIsRateLimitedStub.onSecondCall().resolves(true)
+
+        expect(await (handler as any).isRateLimited(event)).to.be.true
+        expect(parentIsRateLimitedStub.secondCall).to.have.been.calledWithExactly({ ...event, pubkey: 'delegator' })
+      })
+
+      it('returns true if delegatee is rate limited', async () => {
+        settings.limits.event.delegation.applyLimitsToDelegator = true
+        parentIsRateLimitedStub.onFirstCall().resolves(true)
+        parentIsRateLimitedStub.onSecondCall().resolves(false)
+
+        expect(await (handler as any).isRateLimited(event)).to.be.true
+        expect(parentIsRateLimitedStub).to.have.been.calledTwice
+      })
+    })
+  })
+
+  describe('isPubkeyBanned', () => {
+    let parentIsPubkeyBannedStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      parentIsPubkeyBannedStub = sandbox.stub(EventMessageHandler.prototype, 'isPubkeyBanned' as any)
+      handler = new DelegatedEventMessageHandler(
+        webSocket as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => ({}) as any,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    it('returns reason if delegatee is banned', async () => {
+      parentIsPubkeyBannedStub.resolves('blocked: pubkey is banned')
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.equal('blocked: pubkey is banned')
+      expect(parentIsPubkeyBannedStub).to.have.been.calledOnceWithExactly(event)
+    })
+
+    it('returns reason if delegator is banned', async () => {
+      parentIsPubkeyBannedStub.onFirstCall().resolves(undefined)
+      parentIsPubkeyBannedStub.onSecondCall().resolves('blocked: pubkey is banned')
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.equal('blocked: pubkey is banned')
+      expect(parentIsPubkeyBannedStub.secondCall).to.have.been.calledWithExactly({ ...event, pubkey: 'delegator' })
+    })
+
+    it('returns undefined if neither delegatee nor delegator are banned', async () => {
+      parentIsPubkeyBannedStub.resolves(undefined)
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.be.undefined
+    })
+  })
 })
@@ -9,11 +9,12 @@ chai.use(sinonChai)
 chai.use(chaiAsPromised)
 
 import { EventLimits, Settings } from '../../../src/@types/settings'
+import { IBanService, INip05VerificationService } from '../../../src/@types/services'
+import { IEventRepository, IUserRepository } from '../../../src/@types/repositories'
 import { IncomingEventMessage, MessageType } from '../../../src/@types/messages'
 import { Event } from '../../../src/@types/event'
 import { EventKinds } from '../../../src/constants/base'
 import { EventMessageHandler } from '../../../src/handlers/event-message-handler'
-import { IUserRepository } from '../../../src/@types/repositories'
 import { IWebSocketAdapter } from '../../../src/@types/adapters'
 import { WebSocketAdapterEvent } from '../../../src/constants/adapter'
 
@@ -22,7 +23,10 @@ const { expect } = chai
 describe('EventMessageHandler', () => {
   let webSocket: IWebSocketAdapter
   let handler: EventMessageHandler
+  let eventRepository: IEventRepository
   let userRepository: IUserRepository
+  let nip05VerificationService: INip05VerificationService
+  let banService: IBanService
   let event: Event
   let message: IncomingEventMessage
   let sandbox: Sinon.SinonSandbox
@@ -64,11 +68,19 @@ describe('EventMessageHandler', () => {
     let strategyExecuteStub: Sinon.SinonStub
     let isRateLimitedStub: Sinon.SinonStub
     let isUserAdmitted: Sinon.SinonStub
+    let isEventDeletedStub: Sinon.SinonStub
+    let isPubkeyBannedStub: Sinon.SinonStub
+    let isEventBannedStub: Sinon.SinonStub
+    let isPubkeyVerifiedStub: Sinon.SinonStub
 
     beforeEach(() => {
       canAcceptEventStub = sandbox.stub(EventMessageHandler.prototype, 'canAcceptEvent' as any)
       isEventValidStub = sandbox.stub(EventMessageHandler.prototype, 'isEventValid' as any)
       isUserAdmitted = sandbox.stub(EventMessageHandler.prototype, 'isUserAdmitted' as any)
+      isEventDeletedStub = sandbox.stub(EventMessageHandler.prototype, 'isEventDeleted' as any)
+      isPubkeyBannedStub = sandbox.stub(EventMessageHandler.prototype, 'isPubkeyBanned' as any)
+      isEventBannedStub = sandbox.stub(EventMessageHandler.prototype, 'isEventBanned' as any)
+      isPubkeyVerifiedStub = sandbox.stub(EventMessageHandler.prototype, 'isPubkeyVerified' as any)
       strategyExecuteStub = sandbox.stub()
       strategyFactoryStub = sandbox.stub().returns({
         execute: strategyExecuteStub,
@@ -81,11 +93,14 @@ describe('EventMessageHandler', () => {
       handler = new EventMessageHandler(
         webSocket as any,
         strategyFactoryStub,
+        eventRepository,
         userRepository,
         () => ({
           info: { relay_url: 'relay_url' },
         }) as any,
-        () => ({ hit: async () => false })
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
       )
     })
 
@@ -107,6 +122,54 @@ describe('EventMessageHandler', () => {
       expect(strategyFactoryStub).not.to.have.been.called
     })
 
+    it('rejects event if pubkey is banned', async () => {
+      isPubkeyBannedStub.resolves('blocked: pubkey is banned')
+
+      await handler.handleMessage(message)
+
+      expect(isPubkeyBannedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: pubkey is banned'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
+    it('rejects event if it is banned', async () => {
+      isEventBannedStub.resolves('blocked: event is banned')
+
+      await handler.handleMessage(message)
+
+      expect(isEventBannedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: event is banned'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
+    it('rejects event if it was deleted', async () => {
+      isEventDeletedStub.resolves(true)
+
+      await handler.handleMessage(message)
+
+      expect(isEventDeletedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: event was deleted'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
+    it('rejects event if pubkey is not nip05 verified', async () => {
+      isPubkeyVerifiedStub.resolves('blocked: nip05 verification required')
+
+      await handler.handleMessage(message)
+
+      expect(isPubkeyVerifiedStub).to.have.been.calledOnceWithExactly(event)
+      expect(onMessageSpy).to.have.been.calledOnceWithExactly(
+        [MessageType.OK, event.id, false, 'blocked: nip05 verification required'],
+      )
+      expect(strategyFactoryStub).not.to.have.been.called
+    })
+
     it('rejects event if rate-limited', async () => {
       isRateLimitedStub.resolves(true)
 
@@ -155,7 +218,7 @@ describe('EventMessageHandler', () => {
       expect(isEventValidStub).to.have.been.calledOnceWithExactly(expiredEvent)
 
       expect(onMessageSpy).to.have.been.calledOnceWithExactly(
-        [MessageType.OK, event.id, false, 'event is expired'],
+        [MessageType.OK, event.id, false, 'invalid: event is expired'],
       )
       expect(strategyExecuteStub).not.to.have.been.called
     })
@@ -242,9 +305,12 @@ describe('EventMessageHandler', () => {
       handler = new EventMessageHandler(
         {} as any,
         () => null,
+        eventRepository,
         userRepository,
         () => settings,
-        () => ({ hit: async () => false })
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
       )
     })
 
@@ -268,7 +334,7 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: created_at is more than 100 seconds in the future')
+          ).to.equal('invalid: created_at is more than 100 seconds in the future')
         })
       })
 
@@ -287,7 +353,7 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: created_at is more than 100 seconds in the past')
+          ).to.equal('invalid: created_at is more than 100 seconds in the past')
         })
       })
     })
@@ -335,7 +401,7 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: content is longer than 1 bytes')
+          ).to.equal('invalid: content is longer than 1 characters')
         })
 
         it('returns reason if content is too long', () => {
@@ -344,7 +410,36 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: content is longer than 1 bytes')
+          ).to.equal('invalid: content is longer than 1 characters')
+        })
+      })
+
+      describe('unit', () => {
+        it('returns undefined if multi-byte content is short in characters', () => {
+          eventLimits.content = [{ maxLength: 1 }]
+          event.content = 'é'
+
+          expect(
+            (handler as any).canAcceptEvent(event)
+          ).to.be.undefined
+        })
+
+        it('returns reason if multi-byte content is too long in bytes', () => {
+          eventLimits.content = [{ maxLength: 1, unit: 'bytes' }]
+          event.content = 'é'
+
+          expect(
+            (handler as any).canAcceptEvent(event)
+          ).to.equal('invalid: content is longer than 1 bytes')
+        })
+
+        it('returns undefined if content is short in bytes', () => {
+          eventLimits.content = [{ maxLength: 2, unit: 'bytes' }]
+          event.content = 'é'
+
+          expect(
+            (handler as any).canAcceptEvent(event)
+          ).to.be.undefined
         })
       })
 
@@ -372,7 +467,7 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: content is longer than 1 bytes')
+          ).to.equal('invalid: content is longer than 1 characters')
         })
 
         it('returns undefined if kind matches and content is short', () => {
@@ -399,7 +494,7 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: content is longer than 1 bytes')
+          ).to.equal('invalid: content is longer than 1 characters')
         })
 
         it('returns undefined if content is not set', () => {
@@ -427,11 +522,140 @@ describe('EventMessageHandler', () => {
 
           expect(
             (handler as any).canAcceptEvent(event)
-          ).to.equal('rejected: created_at is more than 100 seconds in the past')
+          ).to.equal('invalid: created_at is more than 100 seconds in the past')
         })
       })
     })
 
+    describe('size', () => {
+      it('returns undefined if size limit is not set', () => {
+        eventLimits.size = undefined
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns undefined if maxBytes is zero', () => {
+        eventLimits.size = [{ maxBytes: 0 }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns undefined if event is small', () => {
+        eventLimits.size = [{ maxBytes: Buffer.byteLength(JSON.stringify(event)) }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns reason if event is too large', () => {
+        eventLimits.size = [{ maxBytes: 100 }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.equal('invalid: event is larger than 100 bytes')
+      })
+
+      it('returns undefined if kind does not match and event is too large', () => {
+        eventLimits.size = [{ kinds: [[EventKinds.CONTACT_LIST, EventKinds.REACTION]], maxBytes: 100 }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns reason if kind range matches and event is too large', () => {
+        eventLimits.size = [{ kinds: [[EventKinds.CONTACT_LIST, EventKinds.REACTION]], maxBytes: 100 }]
+        event.kind = EventKinds.DELETE
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.equal('invalid: event is larger than 100 bytes')
+      })
+    })
+
+    describe('tags', () => {
+      beforeEach(() => {
+        event.tags = [['p', 'a'.repeat(64)], ['e', 'b'.repeat(64)], ['t', 'nostr']]
+      })
+
+      it('returns undefined if tags limit is not set', () => {
+        eventLimits.tags = undefined
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns undefined if maxTags is zero', () => {
+        eventLimits.tags = [{ maxTags: 0 }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns reason if event has too many tags', () => {
+        eventLimits.tags = [{ maxTags: 2 }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.equal('invalid: event has more than 2 tags')
+      })
+
+      it('does not count whitelisted tags', () => {
+        eventLimits.tags = [{ maxTags: 2, whitelist: ['p'] }]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('returns reason if tag value is too long', () => {
+        eventLimits.tags = [{ maxTagValueLength: 5 }]
+        event.tags = [['t', 'nostr'], ['r', 'wss://relay']]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.equal('invalid: tag value is longer than 5 characters')
+      })
+
+      it('does not check length of whitelisted tag values', () => {
+        eventLimits.tags = [{ maxTagValueLength: 5, whitelist: ['r'] }]
+        event.tags = [['t', 'nostr'], ['r', 'wss://relay']]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('applies per-kind limit instead of default limit if kind matches', () => {
+        eventLimits.tags = [
+          { maxTags: 1 },
+          { kinds: [EventKinds.TEXT_NOTE], maxTags: 3 },
+        ]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.be.undefined
+      })
+
+      it('applies default limit if kind does not match', () => {
+        eventLimits.tags = [
+          { maxTags: 1 },
+          { kinds: [EventKinds.CONTACT_LIST], maxTags: 3 },
+        ]
+
+        expect(
+          (handler as any).canAcceptEvent(event)
+        ).to.equal('invalid: event has more than 1 tags')
+      })
+    })
+
     describe('eventId', () => {
       describe('minLeadingZeroBits', () => {
         it('returns undefined if minLeadingZeroBits is zero', () => {
@@ -689,6 +913,247 @@ describe('EventMessageHandler', () => {
     })
   })
 
+  describe('isEventDeleted', () => {
+    let isDeletedStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      isDeletedStub = sandbox.stub()
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        { isDeleted: isDeletedStub } as any,
+        userRepository,
+        () => ({}) as any,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    it('returns true if event id was deleted', async () => {
+      isDeletedStub.resolves(true)
+
+      expect(await (handler as any).isEventDeleted(event)).to.be.true
+      expect(isDeletedStub).to.have.been.calledOnceWithExactly(event.id, event.pubkey)
+    })
+
+    it('returns false if event id was not deleted', async () => {
+      isDeletedStub.resolves(false)
+
+      expect(await (handler as any).isEventDeleted(event)).to.be.false
+    })
+  })
+
+  describe('isPubkeyBanned', () => {
+    let settings: Settings
+    let getPubkeyBanStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      settings = {
+        info: {
+          relay_url: 'relay_url',
+        },
+        admin: {
+          pubkeys: [],
+        },
+      } as any
+      getPubkeyBanStub = sandbox.stub()
+      banService = { getPubkeyBan: getPubkeyBanStub } as any
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => settings,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    it('returns reason if pubkey is banned', async () => {
+      getPubkeyBanStub.resolves({ pubkey: event.pubkey })
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.equal('blocked: pubkey is banned')
+      expect(getPubkeyBanStub).to.have.been.calledOnceWithExactly(event.pubkey)
+    })
+
+    it('returns reason with ban reason if pubkey is banned with a reason', async () => {
+      getPubkeyBanStub.resolves({ pubkey: event.pubkey, reason: 'spam' })
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.equal('blocked: pubkey is banned: spam')
+    })
+
+    it('returns undefined if pubkey is not banned', async () => {
+      getPubkeyBanStub.resolves(undefined)
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.be.undefined
+    })
+
+    it('returns undefined if pubkey is an admin', async () => {
+      settings.admin.pubkeys = [event.pubkey]
+
+      expect(await (handler as any).isPubkeyBanned(event)).to.be.undefined
+      expect(getPubkeyBanStub).not.to.have.been.called
+    })
+  })
+
+  describe('isEventBanned', () => {
+    let getEventBanStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      getEventBanStub = sandbox.stub()
+      banService = { getEventBan: getEventBanStub } as any
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => ({}) as any,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    it('returns reason if event is banned', async () => {
+      getEventBanStub.resolves({ eventId: event.id })
+
+      expect(await (handler as any).isEventBanned(event)).to.equal('blocked: event is banned')
+      expect(getEventBanStub).to.have.been.calledOnceWithExactly(event.id)
+    })
+
+    it('returns reason with ban reason if event is banned with a reason', async () => {
+      getEventBanStub.resolves({ eventId: event.id, reason: 'illegal' })
+
+      expect(await (handler as any).isEventBanned(event)).to.equal('blocked: event is banned: illegal')
+    })
+
+    it('returns undefined if event is not banned', async () => {
+      getEventBanStub.resolves(undefined)
+
+      expect(await (handler as any).isEventBanned(event)).to.be.undefined
+    })
+  })
+
+  describe('isPubkeyVerified', () => {
+    let settings: Settings
+    let isPubkeyVerifiedStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      settings = {
+        info: {
+          relay_url: 'relay_url',
+        },
+        limits: {
+          event: {
+            pubkey: {
+              nip05: {
+                enabled: true,
+              },
+            },
+          },
+        },
+      } as any
+      isPubkeyVerifiedStub = sandbox.stub()
+      nip05VerificationService = { isPubkeyVerified: isPubkeyVerifiedStub }
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => settings,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    it('returns undefined if nip05 verification is disabled', async () => {
+      settings.limits.event.pubkey.nip05.enabled = false
+
+      expect(await (handler as any).isPubkeyVerified(event)).to.be.undefined
+      expect(isPubkeyVerifiedStub).not.to.have.been.called
+    })
+
+    it('returns undefined for metadata events', async () => {
+      event.kind = EventKinds.SET_METADATA
+
+      expect(await (handler as any).isPubkeyVerified(event)).to.be.undefined
+      expect(isPubkeyVerifiedStub).not.to.have.been.called
+    })
+
+    it('returns undefined if pubkey is verified', async () => {
+      isPubkeyVerifiedStub.resolves(true)
+
+      expect(await (handler as any).isPubkeyVerified(event)).to.be.undefined
+      expect(isPubkeyVerifiedStub).to.have.been.calledOnceWithExactly(event.pubkey)
+    })
+
+    it('returns reason if pubkey is not verified', async () => {
+      isPubkeyVerifiedStub.resolves(false)
+
+      expect(await (handler as any).isPubkeyVerified(event)).to.equal('blocked: nip05 verification required')
+    })
+  })
+
+  describe('isUserAdmitted', () => {
+    let settings: Settings
+    let findByPubkeyStub: Sinon.SinonStub
+
+    beforeEach(() => {
+      settings = {
+        info: {
+          relay_url: 'relay_url',
+        },
+        payments: {
+          enabled: true,
+          feeSchedules: {
+            admission: [
+              { enabled: true, amount: 1000n },
+            ],
+          },
+        },
+      } as any
+      findByPubkeyStub = sandbox.stub()
+      userRepository = { findByPubkey: findByPubkeyStub } as any
+      handler = new EventMessageHandler(
+        {} as any,
+        () => null,
+        eventRepository,
+        userRepository,
+        () => settings,
+        () => ({ hit: async () => false }),
+        () => nip05VerificationService,
+        () => banService,
+      )
+    })
+
+    it('returns undefined if user is admitted', async () => {
+      findByPubkeyStub.resolves({ isAdmitted: true, balance: 0n })
+
+      expect(await (handler as any).isUserAdmitted(event)).to.be.undefined
+    })
+
+    it('returns reason if user is not admitted', async () => {
+      findByPubkeyStub.resolves({ isAdmitted: false, balance: 0n })
+
+      expect(await (handler as any).isUserAdmitted(event)).to.equal('blocked: pubkey not admitted')
+    })
+
+    it('returns undefined if admission has not expired', async () => {
+      findByPubkeyStub.resolves({ isAdmitted: true, admittedUntil: new Date(Date.now() + 60000), balance: 0n })
+
+      expect(await (handler as any).isUserAdmitted(event)).to.be.undefined
+    })
+
+    it('returns reason if admission has expired', async () => {
+      findByPubkeyStub.resolves({ isAdmitted: true, admittedUntil: new Date(Date.now() - 60000), balance: 0n })
+
+      expect(await (handler as any).isUserAdmitted(event)).to.equal('blocked: admission expired')
+    })
+  })
+
   describe('isRateLimited', () => {
     let eventLimits: EventLimits
     let settings: Settings
@@ -717,9 +1182,12 @@ describe('EventMessageHandler', () => {
       handler = new EventMessageHandler(
         webSocket,
         () => null,
+        eventRepository,
         userRepository,
         () => settings,
-        () => ({ hit: rateLimiterHitStub })
+        () => ({ hit: rateLimiterHitStub }),
+        () => nip05VerificationService,
+        () => banService,
       )
     })
 
@@ -10,6 +10,7 @@ import { Event } from '../../../../src/@types/event'
 import { EventRepository } from '../../../../src/repositories/event-repository'
 import { IEventRepository } from '../../../../src/@types/repositories'
 import { IEventStrategy } from '../../../../src/@types/message-handlers'
+import { IPublicationFeeService } from '../../../../src/@types/services'
 import { IWebSocketAdapter } from '../../../../src/@types/adapters'
 import { MessageType } from '../../../../src/@types/messages'
 import { WebSocketAdapterEvent } from '../../../../src/constants/adapter'
@@ -23,7 +24,11 @@ describe('DefaultEventStrategy', () => {
   let webSocket: IWebSocketAdapter
   let eventRepository: IEventRepository
 
+  let publicationFeeService: IPublicationFeeService
+  let dbClient: DatabaseClient
+
   let webSocketEmitStub: Sinon.SinonStub
+  let chargePublicationFeeStub: Sinon.SinonStub
   let eventRepositoryCreateStub: Sinon.SinonStub
 
   let strategy: IEventStrategy<Event, Promise<void>>
@@ -43,7 +48,13 @@ describe('DefaultEventStrategy', () => {
     const readReplicaClient: DatabaseClient = {} as any
     eventRepository = new EventRepository(masterClient, readReplicaClient)
 
-    strategy = new DefaultEventStrategy(webSocket, eventRepository)
+    dbClient = {} as any
+    chargePublicationFeeStub = sandbox.stub().callsFake((_event, write) => write(dbClient))
+    publicationFeeService = {
+      chargePublicationFee: chargePublicationFeeStub,
+    } as any
+
+    strategy = new DefaultEventStrategy(webSocket, eventRepository, () => publicationFeeService)
   })
 
   afterEach(() => {
@@ -54,7 +65,7 @@ describe('DefaultEventStrategy', () => {
     it('creates event', async () => {
       await strategy.execute(event)
 
-      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event, dbClient)
     })
 
     it('broadcast event if event is created', async () => {
@@ -62,7 +73,7 @@ describe('DefaultEventStrategy', () => {
 
       await strategy.execute(event)
 
-      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).to.have.been.calledTwice
       expect(webSocketEmitStub).to.have.been.calledWithExactly(
         WebSocketAdapterEvent.Message,
@@ -79,7 +90,7 @@ describe('DefaultEventStrategy', () => {
 
       await strategy.execute(event)
 
-      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
         WebSocketAdapterEvent.Message,
         ['OK', 'id', true, 'duplicate:']
@@ -92,8 +103,21 @@ describe('DefaultEventStrategy', () => {
 
       await expect(strategy.execute(event)).to.eventually.be.rejectedWith(error)
 
-      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).not.to.have.been.called
     })
+
+    it('rejects event without creating it if balance is insufficient', async () => {
+      chargePublicationFeeStub.resolves(undefined)
+
+      await strategy.execute(event)
+
+      expect(chargePublicationFeeStub).to.have.been.calledOnceWith(event)
+      expect(eventRepositoryCreateStub).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', false, 'blocked: insufficient balance']
+      )
+    })
   })
 })
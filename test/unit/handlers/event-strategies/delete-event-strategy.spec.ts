@@ -33,6 +33,7 @@ describe('DeleteEventStrategy', () => {
   let eventRepositoryCreateStub: Sinon.SinonStub
   let eventRepositoryDeleteByPubkeyAndIdsStub: Sinon.SinonStub
   let eventRepositoryInsertStubsStub: Sinon.SinonStub
+  let eventRepositoryDeleteByPubkeyAndAddressesStub: Sinon.SinonStub
 
   let strategy: IEventStrategy<Event, Promise<void>>
 
@@ -44,6 +45,7 @@ describe('DeleteEventStrategy', () => {
     eventRepositoryCreateStub = sandbox.stub(EventRepository.prototype, 'create')
     eventRepositoryDeleteByPubkeyAndIdsStub = sandbox.stub(EventRepository.prototype, 'deleteByPubkeyAndIds')
     eventRepositoryInsertStubsStub = sandbox.stub(EventRepository.prototype, 'insertStubs')
+    eventRepositoryDeleteByPubkeyAndAddressesStub = sandbox.stub(EventRepository.prototype, 'deleteByPubkeyAndAddresses')
 
     webSocketEmitStub = sandbox.stub()
     webSocket = {
@@ -99,6 +101,39 @@ describe('DeleteEventStrategy', () => {
       expect(eventRepositoryDeleteByPubkeyAndIdsStub).not.to.have.been.called
     })
 
+    it('deletes events by address if it has a tags', async () => {
+      const pubkey = 'a'.repeat(64)
+      const addressDeletionEvent: Event = {
+        id: 'id',
+        pubkey,
+        created_at: 1000,
+        tags: [
+          [EventTags.Address, `30023:${pubkey}:article`],
+          [EventTags.Address, `0:${pubkey}:`],
+          [EventTags.Address, `30023:${'b'.repeat(64)}:article`],
+          [EventTags.Address, `1:${pubkey}:`],
+          [EventTags.Address, 'invalid'],
+        ],
+      } as any
+
+      await strategy.execute(addressDeletionEvent)
+
+      expect(eventRepositoryDeleteByPubkeyAndAddressesStub).to.have.been.calledOnceWithExactly(
+        pubkey,
+        [
+          { kind: 30023, pubkey, identifier: 'article' },
+          { kind: 0, pubkey, identifier: '' },
+        ],
+        1000,
+      )
+    })
+
+    it('does not delete events by address if there are no a tags', async () => {
+      await strategy.execute(event)
+
+      expect(eventRepositoryDeleteByPubkeyAndAddressesStub).not.to.have.been.called
+    })
+
     it('broadcast event if created', async () => {
       eventRepositoryCreateStub.resolves(1)
 
@@ -136,6 +171,7 @@ describe('DeleteEventStrategy', () => {
       expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
       expect(eventRepositoryDeleteByPubkeyAndIdsStub).not.to.have.been.called
       expect(eventRepositoryInsertStubsStub).to.not.have.been.called
+      expect(eventRepositoryDeleteByPubkeyAndAddressesStub).not.to.have.been.called
       expect(webSocketEmitStub).not.to.have.been.called
     })
   })
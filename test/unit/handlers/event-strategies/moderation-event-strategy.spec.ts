@@ -0,0 +1,255 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+
+chai.use(chaiAsPromised)
+
+import { EventKinds, EventTags } from '../../../../src/constants/base'
+import { IEventRepository, IModerationActionRepository } from '../../../../src/@types/repositories'
+import { DatabaseClient } from '../../../../src/@types/base'
+import { Event } from '../../../../src/@types/event'
+import { IBanService } from '../../../../src/@types/services'
+import { IEventStrategy } from '../../../../src/@types/message-handlers'
+import { IWebSocketAdapter } from '../../../../src/@types/adapters'
+import { MessageType } from '../../../../src/@types/messages'
+import { ModerationActionType } from '../../../../src/@types/moderation'
+import { ModerationEventStrategy } from '../../../../src/handlers/event-strategies/moderation-event-strategy'
+import { Settings } from '../../../../src/@types/settings'
+import { Transaction } from '../../../../src/database/transaction'
+import { WebSocketAdapterEvent } from '../../../../src/constants/adapter'
+
+const { expect } = chai
+
+describe('ModerationEventStrategy', () => {
+  const admin = 'a'.repeat(64)
+  const reported = 'b'.repeat(64)
+  const reportedEventId = 'c'.repeat(64)
+
+  let event: Event
+  let settings: Settings
+  let webSocket: IWebSocketAdapter
+  let eventRepository: IEventRepository
+  let moderationActionRepository: IModerationActionRepository
+  let banService: IBanService
+
+  let webSocketEmitStub: Sinon.SinonStub
+  let eventRepositoryCreateStub: Sinon.SinonStub
+  let eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub: Sinon.SinonStub
+  let moderationActionRepositoryCreateStub: Sinon.SinonStub
+  let banServiceBanPubkeyStub: Sinon.SinonStub
+  let banServiceCacheBanStub: Sinon.SinonStub
+  let transactionClient: DatabaseClient
+  let commitStub: Sinon.SinonStub
+  let rollbackStub: Sinon.SinonStub
+
+  let strategy: IEventStrategy<Event, Promise<void>>
+
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    event = {
+      id: 'id',
+      pubkey: admin,
+      kind: EventKinds.REPORTING,
+      content: 'spam bot',
+      tags: [
+        [EventTags.Event, reportedEventId, 'spam'],
+        [EventTags.Pubkey, reported],
+      ],
+    } as any
+    settings = {
+      admin: {
+        pubkeys: [admin],
+        banReportedPubkeys: false,
+      },
+    } as any
+
+    eventRepositoryCreateStub = sandbox.stub().resolves(1)
+    eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub = sandbox.stub().resolves([reportedEventId])
+    moderationActionRepositoryCreateStub = sandbox.stub().resolves(1)
+    banServiceBanPubkeyStub = sandbox.stub().callsFake(async (pubkey, reason) => ({ pubkey, reason }))
+    banServiceCacheBanStub = sandbox.stub().resolves()
+
+    transactionClient = {} as any
+    sandbox.stub(Transaction.prototype, 'begin').resolves()
+    commitStub = sandbox.stub(Transaction.prototype, 'commit').resolves()
+    rollbackStub = sandbox.stub(Transaction.prototype, 'rollback').resolves()
+    sandbox.stub(Transaction.prototype, 'transaction').get(() => transactionClient)
+
+    webSocketEmitStub = sandbox.stub()
+    webSocket = {
+      emit: webSocketEmitStub,
+    } as any
+    eventRepository = {
+      create: eventRepositoryCreateStub,
+      deleteByPubkeyAndIdsReturningIds: eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub,
+    } as any
+    moderationActionRepository = {
+      create: moderationActionRepositoryCreateStub,
+    } as any
+    banService = {
+      banPubkey: banServiceBanPubkeyStub,
+      cacheBan: banServiceCacheBanStub,
+    } as any
+
+    strategy = new ModerationEventStrategy(
+      webSocket,
+      {} as any,
+      eventRepository,
+      moderationActionRepository,
+      () => settings,
+      () => banService,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('execute', () => {
+    it('deletes reported events', async () => {
+      await strategy.execute(event)
+
+      expect(eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub).to.have.been.calledOnceWithExactly(
+        reported,
+        [reportedEventId],
+        transactionClient,
+      )
+      expect(banServiceBanPubkeyStub).not.to.have.been.called
+      expect(commitStub).to.have.been.calledOnce
+    })
+
+    it('records deletion of reported events', async () => {
+      await strategy.execute(event)
+
+      expect(moderationActionRepositoryCreateStub).to.have.been.calledOnceWithExactly([
+        {
+          type: ModerationActionType.DeleteEvent,
+          moderatorPubkey: admin,
+          pubkey: reported,
+          eventId: reportedEventId,
+          reportEventId: 'id',
+          reason: 'spam: spam bot',
+        },
+      ], transactionClient)
+    })
+
+    it('records deletion of reported events that were actually deleted', async () => {
+      const otherEventId = 'd'.repeat(64)
+      event.tags.push([EventTags.Event, otherEventId])
+      eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub.resolves([otherEventId])
+
+      await strategy.execute(event)
+
+      expect(moderationActionRepositoryCreateStub).to.have.been.calledOnce
+      expect(moderationActionRepositoryCreateStub.firstCall.args[0]).to.have.lengthOf(1)
+      expect(moderationActionRepositoryCreateStub.firstCall.args[0][0]).to.include({ eventId: otherEventId })
+    })
+
+    it('does not record deletion if no reported events were deleted', async () => {
+      eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub.resolves([])
+
+      await strategy.execute(event)
+
+      expect(moderationActionRepositoryCreateStub).not.to.have.been.called
+      expect(commitStub).to.have.been.calledOnce
+    })
+
+    it('rolls back and rejects if recording moderation actions fails', async () => {
+      const error = new Error('failed')
+      moderationActionRepositoryCreateStub.rejects(error)
+
+      await expect(strategy.execute(event)).to.eventually.be.rejectedWith(error)
+
+      expect(rollbackStub).to.have.been.calledOnce
+      expect(commitStub).not.to.have.been.called
+      expect(eventRepositoryCreateStub).not.to.have.been.called
+    })
+
+    it('does not ban reported pubkey without e tags if disabled', async () => {
+      event.tags = [[EventTags.Pubkey, reported, 'impersonation']]
+
+      await strategy.execute(event)
+
+      expect(banServiceBanPubkeyStub).not.to.have.been.called
+      expect(moderationActionRepositoryCreateStub).not.to.have.been.called
+    })
+
+    it('bans reported pubkey without e tags if enabled', async () => {
+      settings.admin.banReportedPubkeys = true
+      event.tags = [[EventTags.Pubkey, reported, 'impersonation']]
+
+      await strategy.execute(event)
+
+      expect(banServiceBanPubkeyStub).to.have.been.calledOnceWithExactly(
+        reported,
+        'impersonation: spam bot',
+        undefined,
+        transactionClient,
+      )
+      expect(eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub).not.to.have.been.called
+      expect(moderationActionRepositoryCreateStub).to.have.been.calledOnceWithExactly([
+        {
+          type: ModerationActionType.BanPubkey,
+          moderatorPubkey: admin,
+          pubkey: reported,
+          reportEventId: 'id',
+          reason: 'impersonation: spam bot',
+        },
+      ], transactionClient)
+      expect(banServiceCacheBanStub).to.have.been.calledOnceWithExactly({
+        pubkey: reported,
+        reason: 'impersonation: spam bot',
+      })
+      expect(banServiceCacheBanStub).to.have.been.calledAfter(commitStub)
+    })
+
+    it('does not cache ban if transaction rolls back', async () => {
+      settings.admin.banReportedPubkeys = true
+      event.tags = [[EventTags.Pubkey, reported, 'impersonation']]
+      moderationActionRepositoryCreateStub.rejects(new Error('failed'))
+
+      await expect(strategy.execute(event)).to.eventually.be.rejected
+
+      expect(banServiceBanPubkeyStub).to.have.been.calledOnce
+      expect(rollbackStub).to.have.been.calledOnce
+      expect(banServiceCacheBanStub).not.to.have.been.called
+    })
+
+    it('ignores invalid p tags', async () => {
+      event.tags = [[EventTags.Event, reportedEventId], [EventTags.Pubkey, 'invalid']]
+
+      await strategy.execute(event)
+
+      expect(eventRepositoryDeleteByPubkeyAndIdsReturningIdsStub).not.to.have.been.called
+      expect(moderationActionRepositoryCreateStub).not.to.have.been.called
+    })
+
+    it('broadcasts report if created', async () => {
+      await strategy.execute(event)
+
+      expect(eventRepositoryCreateStub).to.have.been.calledOnceWithExactly(event)
+      expect(webSocketEmitStub).to.have.been.calledWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', true, '']
+      )
+      expect(webSocketEmitStub).to.have.been.calledWithExactly(
+        WebSocketAdapterEvent.Broadcast,
+        event
+      )
+    })
+
+    it('does not broadcast report if duplicate', async () => {
+      eventRepositoryCreateStub.resolves(0)
+
+      await strategy.execute(event)
+
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', true, 'duplicate:']
+      )
+    })
+  })
+})
@@ -10,6 +10,7 @@ import { Event } from '../../../../src/@types/event'
 import { EventRepository } from '../../../../src/repositories/event-repository'
 import { IEventRepository } from '../../../../src/@types/repositories'
 import { IEventStrategy } from '../../../../src/@types/message-handlers'
+import { IPublicationFeeService } from '../../../../src/@types/services'
 import { IWebSocketAdapter } from '../../../../src/@types/adapters'
 import { MessageType } from '../../../../src/@types/messages'
 import { ParameterizedReplaceableEventStrategy } from '../../../../src/handlers/event-strategies/parameterized-replaceable-event-strategy'
@@ -27,8 +28,13 @@ describe('ParameterizedReplaceableEventStrategy', () => {
   let webSocket: IWebSocketAdapter
   let eventRepository: IEventRepository
 
+  let publicationFeeService: IPublicationFeeService
+  let dbClient: DatabaseClient
+
   let webSocketEmitStub: Sinon.SinonStub
+  let chargePublicationFeeStub: Sinon.SinonStub
   let eventRepositoryUpsertStub: Sinon.SinonStub
+  let eventRepositoryIsAddressDeletedStub: Sinon.SinonStub
 
   let strategy: IEventStrategy<Event, Promise<void>>
 
@@ -38,6 +44,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
     sandbox = Sinon.createSandbox()
 
     eventRepositoryUpsertStub = sandbox.stub(EventRepository.prototype, 'upsert')
+    eventRepositoryIsAddressDeletedStub = sandbox.stub(EventRepository.prototype, 'isAddressDeleted').resolves(false)
 
     webSocketEmitStub = sandbox.stub()
     webSocket = {
@@ -47,7 +54,13 @@ describe('ParameterizedReplaceableEventStrategy', () => {
     const readReplicaClient: DatabaseClient = {} as any
     eventRepository = new EventRepository(masterClient, readReplicaClient)
 
-    strategy = new ParameterizedReplaceableEventStrategy(webSocket, eventRepository)
+    dbClient = {} as any
+    chargePublicationFeeStub = sandbox.stub().callsFake((_event, write) => write(dbClient))
+    publicationFeeService = {
+      chargePublicationFee: chargePublicationFeeStub,
+    } as any
+
+    strategy = new ParameterizedReplaceableEventStrategy(webSocket, eventRepository, () => publicationFeeService)
   })
 
   afterEach(() => {
@@ -59,7 +72,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
       event.tags = []
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(eventRepositoryUpsertStub.firstCall.firstArg).to.have.property(EventDeduplicationMetadataKey).and.deep.equal([''])
     })
 
@@ -67,7 +80,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
       event.tags = [[EventTags.Deduplication, 'one']]
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(eventRepositoryUpsertStub.firstCall.firstArg).to.have.property(EventDeduplicationMetadataKey).and.deep.equal(['one'])
     })
 
@@ -75,7 +88,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
       event.tags = [[EventTags.Deduplication, 'one', 'two']]
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(eventRepositoryUpsertStub.firstCall.firstArg).to.have.property(EventDeduplicationMetadataKey).and.deep.equal(['one', 'two'])
     })
 
@@ -84,7 +97,7 @@ describe('ParameterizedReplaceableEventStrategy', () => {
 
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).to.have.been.calledTwice
       expect(webSocketEmitStub).to.have.been.calledWithExactly(
         WebSocketAdapterEvent.Message,
@@ -113,8 +126,38 @@ describe('ParameterizedReplaceableEventStrategy', () => {
 
       await expect(strategy.execute(event)).to.eventually.be.rejectedWith(error)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).not.to.have.been.called
     })
+
+    it('looks up deletions referencing the event address', async () => {
+      const addressableEvent: Event = {
+        ...event,
+        pubkey: 'a'.repeat(64),
+        kind: 30023,
+        created_at: 1000,
+        tags: [[EventTags.Deduplication, 'dedup']],
+      }
+
+      await strategy.execute(addressableEvent)
+
+      expect(eventRepositoryIsAddressDeletedStub).to.have.been.calledOnceWithExactly(
+        'a'.repeat(64),
+        `30023:${'a'.repeat(64)}:dedup`,
+        1000,
+      )
+    })
+
+    it('rejects event if a newer deletion references its address', async () => {
+      eventRepositoryIsAddressDeletedStub.resolves(true)
+
+      await strategy.execute(event)
+
+      expect(eventRepositoryUpsertStub).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', false, 'blocked: event was deleted']
+      )
+    })
   })
 })
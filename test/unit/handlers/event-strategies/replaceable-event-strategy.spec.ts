@@ -9,6 +9,7 @@ import { Event } from '../../../../src/@types/event'
 import { EventRepository } from '../../../../src/repositories/event-repository'
 import { IEventRepository } from '../../../../src/@types/repositories'
 import { IEventStrategy } from '../../../../src/@types/message-handlers'
+import { IPublicationFeeService } from '../../../../src/@types/services'
 import { IWebSocketAdapter } from '../../../../src/@types/adapters'
 import { MessageType } from '../../../../src/@types/messages'
 import { ReplaceableEventStrategy } from '../../../../src/handlers/event-strategies/replaceable-event-strategy'
@@ -23,8 +24,13 @@ describe('ReplaceableEventStrategy', () => {
   let webSocket: IWebSocketAdapter
   let eventRepository: IEventRepository
 
+  let publicationFeeService: IPublicationFeeService
+  let dbClient: DatabaseClient
+
   let webSocketEmitStub: Sinon.SinonStub
+  let chargePublicationFeeStub: Sinon.SinonStub
   let eventRepositoryUpsertStub: Sinon.SinonStub
+  let eventRepositoryIsAddressDeletedStub: Sinon.SinonStub
 
   let strategy: IEventStrategy<Event, Promise<void>>
 
@@ -34,6 +40,7 @@ describe('ReplaceableEventStrategy', () => {
     sandbox = Sinon.createSandbox()
 
     eventRepositoryUpsertStub = sandbox.stub(EventRepository.prototype, 'upsert')
+    eventRepositoryIsAddressDeletedStub = sandbox.stub(EventRepository.prototype, 'isAddressDeleted').resolves(false)
 
     webSocketEmitStub = sandbox.stub()
     webSocket = {
@@ -43,7 +50,13 @@ describe('ReplaceableEventStrategy', () => {
     const readReplicaClient: DatabaseClient = {} as any
     eventRepository = new EventRepository(masterClient, readReplicaClient)
 
-    strategy = new ReplaceableEventStrategy(webSocket, eventRepository)
+    dbClient = {} as any
+    chargePublicationFeeStub = sandbox.stub().callsFake((_event, write) => write(dbClient))
+    publicationFeeService = {
+      chargePublicationFee: chargePublicationFeeStub,
+    } as any
+
+    strategy = new ReplaceableEventStrategy(webSocket, eventRepository, () => publicationFeeService)
   })
 
   afterEach(() => {
@@ -54,7 +67,7 @@ describe('ReplaceableEventStrategy', () => {
     it('upserts event', async () => {
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
     })
 
     it('broadcast event if event is created', async () => {
@@ -62,7 +75,7 @@ describe('ReplaceableEventStrategy', () => {
 
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).to.have.been.calledTwice
       expect(webSocketEmitStub).to.have.been.calledWithExactly(
         WebSocketAdapterEvent.Message,
@@ -79,7 +92,7 @@ describe('ReplaceableEventStrategy', () => {
 
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
         WebSocketAdapterEvent.Message,
         ['OK', 'id', true, 'duplicate:']
@@ -92,11 +105,36 @@ describe('ReplaceableEventStrategy', () => {
 
       await strategy.execute(event)
 
-      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event)
+      expect(eventRepositoryUpsertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
         WebSocketAdapterEvent.Message,
         ['OK', 'id', false, 'error: ']
       )
     })
+
+    it('rejects event if a newer deletion references its address', async () => {
+      eventRepositoryIsAddressDeletedStub.resolves(true)
+
+      await strategy.execute(event)
+
+      expect(eventRepositoryUpsertStub).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', false, 'blocked: event was deleted']
+      )
+    })
+
+    it('rejects event without upserting it if balance is insufficient', async () => {
+      chargePublicationFeeStub.resolves(undefined)
+
+      await strategy.execute(event)
+
+      expect(chargePublicationFeeStub).to.have.been.calledOnceWith(event)
+      expect(eventRepositoryUpsertStub).not.to.have.been.called
+      expect(webSocketEmitStub).to.have.been.calledOnceWithExactly(
+        WebSocketAdapterEvent.Message,
+        [MessageType.OK, 'id', false, 'blocked: insufficient balance']
+      )
+    })
   })
 })
@@ -0,0 +1,126 @@
+import chai from 'chai'
+import { createHash } from 'crypto'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+import * as cacheAdapterFactoryModule from '../../../../src/factories/cache-adapter-factory'
+import * as settingsFactoryModule from '../../../../src/factories/settings-factory'
+import { getPublicKey, identifyEvent, signEvent } from '../../../../src/utils/event'
+import { adminAuthMiddleware } from '../../../../src/handlers/request-handlers/admin-auth-middleware'
+import { EventKinds } from '../../../../src/constants/base'
+import { Tag } from '../../../../src/@types/base'
+
+chai.use(sinonChai)
+
+const { expect } = chai
+
+describe('adminAuthMiddleware', () => {
+  const privkey = 'a'.repeat(64)
+  const pubkey = getPublicKey(privkey)
+  const url = 'https://relay.example.com/admin/users/pubkey/balance'
+  const body = Buffer.from(JSON.stringify({ amount: '1000' }))
+
+  let sandbox: Sinon.SinonSandbox
+  let setKeyIfNotExistsStub: Sinon.SinonStub
+  let request: any
+  let response: any
+  let next: Sinon.SinonStub
+
+  const createAuthorization = async (tags: Tag[]) => {
+    const event = await signEvent(privkey)(await identifyEvent({
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: EventKinds.HTTP_AUTH,
+      tags,
+      content: '',
+    }))
+
+    return `Nostr ${Buffer.from(JSON.stringify(event)).toString('base64')}`
+  }
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    sandbox.stub(settingsFactoryModule, 'createSettings').returns({
+      info: { relay_url: 'wss://relay.example.com' },
+      network: { remoteIpHeader: 'x-forwarded-for' },
+      admin: { pubkeys: [pubkey] },
+    } as any)
+    setKeyIfNotExistsStub = sandbox.stub().resolves(true)
+    sandbox.stub(cacheAdapterFactoryModule, 'cacheAdapterFactory').returns({
+      setKeyIfNotExists: setKeyIfNotExistsStub,
+    } as any)
+
+    request = {
+      headers: {},
+      originalUrl: '/admin/users/pubkey/balance',
+      method: 'POST',
+      body,
+      socket: { remoteAddress: '127.0.0.1' },
+    }
+    response = {
+      locals: {},
+      status: sandbox.stub().returnsThis(),
+      setHeader: sandbox.stub().returnsThis(),
+      send: sandbox.stub().returnsThis(),
+    }
+    next = sandbox.stub()
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  it('calls next if authorization covers the payload', async () => {
+    request.headers.authorization = await createAuthorization([
+      ['u', url],
+      ['method', 'POST'],
+      ['payload', createHash('sha256').update(body).digest('hex')],
+    ])
+
+    await adminAuthMiddleware(request, response, next)
+
+    expect(next).to.have.been.calledOnce
+    expect(response.locals.pubkey).to.equal(pubkey)
+    expect(setKeyIfNotExistsStub).to.have.been.calledOnceWith(Sinon.match(/^nip98:[0-9a-f]{64}$/), pubkey, 120)
+  })
+
+  it('rejects request with body if payload tag is missing', async () => {
+    request.headers.authorization = await createAuthorization([['u', url], ['method', 'POST']])
+
+    await adminAuthMiddleware(request, response, next)
+
+    expect(next).not.to.have.been.called
+    expect(response.status).to.have.been.calledOnceWithExactly(401)
+    expect(response.send).to.have.been.calledOnceWithExactly('invalid: payload does not match')
+  })
+
+  it('rejects request if body does not match payload tag', async () => {
+    request.headers.authorization = await createAuthorization([
+      ['u', url],
+      ['method', 'POST'],
+      ['payload', createHash('sha256').update(body).digest('hex')],
+    ])
+    request.body = Buffer.from(JSON.stringify({ amount: '-1000' }))
+
+    await adminAuthMiddleware(request, response, next)
+
+    expect(next).not.to.have.been.called
+    expect(response.send).to.have.been.calledOnceWithExactly('invalid: payload does not match')
+  })
+
+  it('rejects replayed authorization', async () => {
+    request.headers.authorization = await createAuthorization([
+      ['u', url],
+      ['method', 'POST'],
+      ['payload', createHash('sha256').update(body).digest('hex')],
+    ])
+    setKeyIfNotExistsStub.resolves(false)
+
+    await adminAuthMiddleware(request, response, next)
+
+    expect(next).not.to.have.been.called
+    expect(response.status).to.have.been.calledOnceWithExactly(401)
+    expect(response.send).to.have.been.calledOnceWithExactly('invalid: authorization event already used')
+  })
+})
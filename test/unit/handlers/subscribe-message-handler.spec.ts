@@ -87,17 +87,41 @@ describe('SubscribeMessageHandler', () => {
       canSubscribeStub = sandbox.stub(SubscribeMessageHandler.prototype, 'canSubscribe' as any)
     })
 
-    it('emits notice message if subscription is rejected', async () => {
+    it('emits closed message if subscription is rejected', async () => {
       canSubscribeStub.returns('reason')
       message = [MessageType.REQ, subscriptionId, ...filters] as any
 
       await handler.handleMessage(message)
 
       expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(
-        ['NOTICE', 'Subscription rejected: reason']
+        ['CLOSED', subscriptionId, 'reason']
       )
     })
 
+    it('ignores duplicate subscription', async () => {
+      filters = [{ authors: ['aa'] }]
+      subscriptions.set(subscriptionId, filters)
+      message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+      await handler.handleMessage(message)
+
+      expect(canSubscribeStub).not.to.have.been.called
+      expect(webSocketOnMessageStub).not.to.have.been.called
+      expect(webSocketOnSubscribeStub).not.to.have.been.called
+      expect(fetchAndSendStub).not.to.have.been.called
+    })
+
+    it('replaces subscription with same id and different filters', async () => {
+      canSubscribeStub.returns(undefined)
+      subscriptions.set(subscriptionId, [{ authors: ['aa'] }])
+      message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+      await handler.handleMessage(message)
+
+      expect(webSocketOnSubscribeStub).to.have.been.calledOnceWith(subscriptionId)
+      expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
+    })
+
     it('emits subscribe event if subscription is accepted', async () => {
       canSubscribeStub.returns(undefined)
       message = [MessageType.REQ, subscriptionId, ...filters] as any
@@ -108,6 +132,21 @@ describe('SubscribeMessageHandler', () => {
       expect(fetchAndSendStub).to.have.been.calledOnceWithExactly(subscriptionId, filters)
     })
 
+    it('aborts if client unsubscribes while fetching', async () => {
+      const abortSpy = sandbox.spy(handler, 'abort')
+      canSubscribeStub.returns(undefined)
+      fetchAndSendStub.callsFake(async () => {
+        webSocket.emit(WebSocketAdapterEvent.Unsubscribe, 'other-subscription')
+        webSocket.emit(WebSocketAdapterEvent.Unsubscribe, subscriptionId)
+      })
+      message = [MessageType.REQ, subscriptionId, ...filters] as any
+
+      await handler.handleMessage(message)
+
+      expect(abortSpy).to.have.been.calledOnce
+      expect(webSocket.listenerCount(WebSocketAdapterEvent.Unsubscribe)).to.equal(0)
+    })
+
   })
 
   describe('#fetchAndSend', () => {
@@ -129,6 +168,10 @@ describe('SubscribeMessageHandler', () => {
 
       isClientSubscribedToEventStub = sandbox.stub(SubscribeMessageHandler, 'isClientSubscribedToEvent' as any)
 
+      settingsFactory.returns({})
+      webSocket.getAuthenticatedPubkeys = () => new Set()
+      webSocket.hasBackpressure = () => false
+
       webSocketOnMessageStub = sandbox.stub()
       webSocketOnSubscribeStub = sandbox.stub()
       webSocket.on(WebSocketAdapterEvent.Message, webSocketOnMessageStub)
@@ -146,7 +189,10 @@ describe('SubscribeMessageHandler', () => {
 
       await promise
 
-      expect(eventRepositoryFindByFiltersStub).to.have.been.calledOnceWithExactly(filters)
+      expect(eventRepositoryFindByFiltersStub).to.have.been.calledOnceWithExactly(
+        filters,
+        { protectedKinds: [], authenticatedPubkeys: [], signal: Sinon.match.instanceOf(AbortSignal) },
+      )
     })
 
     it('sends event if client is subscribed', async () => {
@@ -159,7 +205,48 @@ describe('SubscribeMessageHandler', () => {
 
       await promise
 
-      expect(eventRepositoryFindByFiltersStub).to.have.been.calledOnceWithExactly(filters)
+      expect(eventRepositoryFindByFiltersStub).to.have.been.calledOnceWithExactly(
+        filters,
+        { protectedKinds: [], authenticatedPubkeys: [], signal: Sinon.match.instanceOf(AbortSignal) },
+      )
+      expect(webSocketOnMessageStub).to.have.been.calledWithExactly(
+        ['EVENT', subscriptionId, event],
+      )
+    })
+
+    it('does not send protected event if client is not authenticated as author or recipient', async () => {
+      isClientSubscribedToEventStub.returns(always(true))
+      settingsFactory.returns({ limits: { client: { subscription: { protectedKinds: [1] } } } })
+      webSocket.getAuthenticatedPubkeys = () => new Set(['a'.repeat(64)])
+
+      const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+      stream.write(toDbEvent(event))
+      stream.end()
+
+      await promise
+
+      expect(eventRepositoryFindByFiltersStub).to.have.been.calledOnceWithExactly(
+        filters,
+        { protectedKinds: [1], authenticatedPubkeys: ['a'.repeat(64)], signal: Sinon.match.instanceOf(AbortSignal) },
+      )
+      expect(webSocketOnMessageStub).not.to.have.been.calledWith(
+        ['EVENT', subscriptionId, event],
+      )
+    })
+
+    it('sends protected event if client is authenticated as author', async () => {
+      isClientSubscribedToEventStub.returns(always(true))
+      settingsFactory.returns({ limits: { client: { subscription: { protectedKinds: [1] } } } })
+      webSocket.getAuthenticatedPubkeys = () => new Set([event.pubkey])
+
+      const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+      stream.write(toDbEvent(event))
+      stream.end()
+
+      await promise
+
       expect(webSocketOnMessageStub).to.have.been.calledWithExactly(
         ['EVENT', subscriptionId, event],
       )
@@ -193,6 +280,62 @@ describe('SubscribeMessageHandler', () => {
       await expect(promise).to.eventually.be.rejectedWith(error)
       expect(closeSpy).to.have.been.called
     })
+
+    it('waits for client to catch up before sending more events', async () => {
+      const clock = sandbox.useFakeTimers()
+      const hasBackpressureStub = sandbox.stub().returns(true)
+      webSocket.hasBackpressure = hasBackpressureStub
+      isClientSubscribedToEventStub.returns(always(true))
+
+      const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+      stream.write(toDbEvent(event))
+      stream.write(toDbEvent(event))
+      stream.end()
+
+      await clock.tickAsync(200)
+
+      expect(webSocketOnMessageStub).to.have.been.calledOnceWithExactly(['EVENT', subscriptionId, event])
+
+      hasBackpressureStub.returns(false)
+      await clock.tickAsync(50)
+      await promise
+
+      expect(webSocketOnMessageStub).to.have.been.calledThrice
+      expect(webSocketOnMessageStub.lastCall).to.have.been.calledWithExactly(['EOSE', subscriptionId])
+    })
+
+    it('stops streaming events without EOSE if aborted', async () => {
+      isClientSubscribedToEventStub.returns(always(true))
+
+      const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+      stream.write(toDbEvent(event))
+      handler.abort()
+
+      await expect(promise).to.eventually.be.fulfilled
+      expect(stream.destroyed).to.be.true
+      expect(webSocketOnMessageStub).not.to.have.been.calledWithExactly(
+        ['EOSE', subscriptionId],
+      )
+    })
+
+    it('emits closed message and unsubscribes if error occurs', async () => {
+      const error = new Error('mistakes were made')
+      const webSocketOnUnsubscribeStub = sandbox.stub()
+      webSocket.on(WebSocketAdapterEvent.Unsubscribe, webSocketOnUnsubscribeStub)
+      isClientSubscribedToEventStub.returns(always(true))
+
+      const promise = (handler as any).fetchAndSend(subscriptionId, filters)
+
+      stream.emit('error', error)
+
+      await expect(promise).to.eventually.be.rejectedWith(error)
+      expect(webSocketOnUnsubscribeStub).to.have.been.calledOnceWithExactly(subscriptionId)
+      expect(webSocketOnMessageStub).to.have.been.calledWithExactly(
+        ['CLOSED', subscriptionId, 'error: unable to fetch events'],
+      )
+    })
   })
 
   describe('.isClientSubscribedToEvent', () => {
@@ -256,7 +399,7 @@ describe('SubscribeMessageHandler', () => {
       expect((handler as any).canSubscribe(subscriptionId, filters)).to.be.undefined
     })
 
-    it('returns reason if client is sending a duplicate subscription', () => {
+    it('returns reason if client subscriptions exceed limits', () => {
       settingsFactory.returns({
         limits: {
           client: {
@@ -266,43 +409,42 @@ describe('SubscribeMessageHandler', () => {
           },
         },
       })
-      filters = [{ authors: ['aa'] }]
-      subscriptions.set(subscriptionId, filters)
+      subscriptions.set('other-sub', [])
 
-      expect((handler as any).canSubscribe(subscriptionId, filters))
-        .to.equal('Duplicate subscription subscriptionId: Ignorning')
+      expect((handler as any).canSubscribe(subscriptionId, filters)).to.equal('restricted: number of subscriptions must be less than or equal to 1')
     })
 
-    it('returns reason if client subscriptions exceed limits', () => {
+    it('returns reason if filter count exceeds limit', () => {
       settingsFactory.returns({
         limits: {
           client: {
             subscription: {
-              maxSubscriptions: 1,
+              maxFilters: 1,
             },
           },
         },
       })
-      subscriptions.set('other-sub', [])
+      filters = [
+        {}, {},
+      ]
 
-      expect((handler as any).canSubscribe(subscriptionId, filters)).to.equal('Too many subscriptions: Number of subscriptions must be less than or equal to 1')
+      expect((handler as any).canSubscribe(subscriptionId, filters)).to.equal('restricted: number of filters per subscription must be less than or equal to 1')
     })
 
-    it('returns reason if filter count exceeds limit', () => {
+    it('does not enforce count limits on subscriptions', () => {
       settingsFactory.returns({
         limits: {
           client: {
             subscription: {
-              maxFilters: 1,
+              maxLimit: 100,
+              minPrefixLength: 4,
             },
           },
         },
       })
-      filters = [
-        {}, {},
-      ]
+      filters = [{ limit: 101, ids: ['aab'], authors: ['aab'] }]
 
-      expect((handler as any).canSubscribe(subscriptionId, filters)).to.equal('Too many filters: Number of filters per susbscription must be less then or equal to 1')
+      expect((handler as any).canSubscribe(subscriptionId, filters)).to.be.undefined
     })
   })
 })
\ No newline at end of file
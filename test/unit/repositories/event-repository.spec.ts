@@ -51,13 +51,46 @@ describe('EventRepository', () => {
       expect(() => repository.findByFilters([])).to.throw(Error, 'Filters cannot be empty')
     })
 
+    describe('signal', () => {
+      it('tags query with a hint comment', () => {
+        const query = repository.findByFilters([{}], { signal: new AbortController().signal }).toString()
+
+        expect(query).to.match(
+          /^select \/\*\+ query:[0-9a-f-]{36} \*\/ \* from "events" where .* order by "event_created_at" asc limit 500$/,
+        )
+      })
+
+      it('cancels tagged queries on read replica when aborted', async () => {
+        const rawStub = sandbox.stub(rrDbClient, 'raw').resolves({ rowCount: 1 } as any)
+        const abortController = new AbortController()
+
+        const query = repository.findByFilters([{}], { signal: abortController.signal }).toString()
+        const [, tag] = query.match(/\/\*\+ (query:[0-9a-f-]{36}) \*\//)
+
+        abortController.abort()
+
+        expect(rawStub).to.have.been.calledOnceWithExactly(
+          'select pg_cancel_backend(pid) from pg_stat_activity where pid <> pg_backend_pid() and state = ? and query like ?',
+          ['active', `%/*+ ${tag} */%`],
+        )
+      })
+
+      it('does not cancel queries if not aborted', () => {
+        const rawStub = sandbox.stub(rrDbClient, 'raw')
+
+        repository.findByFilters([{}], { signal: new AbortController().signal })
+
+        expect(rawStub).not.to.have.been.called
+      })
+    })
+
     describe('1 filter', () => {
       it('selects all events', () => {
         const filters = [{}]
 
         const query = repository.findByFilters(filters).toString()
 
-        expect(query).to.equal('select * from "events" order by "event_created_at" asc limit 500')
+        expect(query).to.equal('select * from "events" where ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
       })
 
       describe('authors', () => {
@@ -66,7 +99,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one author', () => {
@@ -74,7 +107,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\') or "event_delegator" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\') or "event_delegator" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\')) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two authors', () => {
@@ -89,7 +122,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', X\'32e1827635450ebb3c5a7d12c1f8e7b2b514439ac10a67eef3d9fd9c5c68e245\') or "event_delegator" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', X\'32e1827635450ebb3c5a7d12c1f8e7b2b514439ac10a67eef3d9fd9c5c68e245\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_pubkey" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', X\'32e1827635450ebb3c5a7d12c1f8e7b2b514439ac10a67eef3d9fd9c5c68e245\') or "event_delegator" in (X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', X\'32e1827635450ebb3c5a7d12c1f8e7b2b514439ac10a67eef3d9fd9c5c68e245\')) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one author prefix (even length)', () => {
@@ -103,7 +136,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\' or substring("event_delegator" from 1 for 3) = X\'22e804\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\' or substring("event_delegator" from 1 for 3) = X\'22e804\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one author prefix (odd length)', () => {
@@ -117,7 +150,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x22e804f0\' AND E\'\\\\x22e804ff\' or substring("event_delegator" from 1 for 4) BETWEEN E\'\\\\x22e804f0\' AND E\'\\\\x22e804ff\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x22e804f0\' AND E\'\\\\x22e804ff\' or substring("event_delegator" from 1 for 4) BETWEEN E\'\\\\x22e804f0\' AND E\'\\\\x22e804ff\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two author prefix (first even, second odd)', () => {
@@ -132,7 +165,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\' or substring("event_delegator" from 1 for 3) = X\'22e804\' or substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x32e18270\' AND E\'\\\\x32e1827f\' or substring("event_delegator" from 1 for 4) BETWEEN E\'\\\\x32e18270\' AND E\'\\\\x32e1827f\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_pubkey" from 1 for 3) = X\'22e804\' or substring("event_delegator" from 1 for 3) = X\'22e804\' or substring("event_pubkey" from 1 for 4) BETWEEN E\'\\\\x32e18270\' AND E\'\\\\x32e1827f\' or substring("event_delegator" from 1 for 4) BETWEEN E\'\\\\x32e18270\' AND E\'\\\\x32e1827f\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -142,7 +175,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one id', () => {
@@ -150,7 +183,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\')) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two ids', () => {
@@ -165,7 +198,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\', X\'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\')) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_id" in (X\'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\', X\'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\')) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one id prefix (even length)', () => {
@@ -179,7 +212,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) = X\'abcd\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) = X\'abcd\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one id prefix (odd length)', () => {
@@ -193,7 +226,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two id prefix (first even, second odd)', () => {
@@ -208,7 +241,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 3) = X\'abcdef\' or substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (substring("event_id" from 1 for 3) = X\'abcdef\' or substring("event_id" from 1 for 2) BETWEEN E\'\\\\xabc0\' AND E\'\\\\xabcf\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -218,7 +251,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where 1 = 0 order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where 1 = 0 and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one kind', () => {
@@ -226,7 +259,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_kind" in (1) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_kind" in (1) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two kinds', () => {
@@ -234,7 +267,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_kind" in (1, 2) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_kind" in (1, 2) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -244,7 +277,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_created_at" >= 1000 order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_created_at" >= 1000 and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -254,7 +287,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where "event_created_at" <= 1000 order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where "event_created_at" <= 1000 and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -264,7 +297,25 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" order by "event_created_at" DESC limit 1000')
+          expect(query).to.equal('select * from "events" where ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" DESC limit 1000')
+        })
+      })
+
+      describe('search', () => {
+        it('selects events by full-text search', () => {
+          const filters = [{ search: 'best nostr apps' }]
+
+          const query = repository.findByFilters(filters).toString()
+
+          expect(query).to.equal('select * from "events" where "event_content_tsv" @@ websearch_to_tsquery(\'simple\', \'best nostr apps\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
+        })
+
+        it('ignores search extensions', () => {
+          const filters = [{ search: 'nostr include:spam language:en' }]
+
+          const query = repository.findByFilters(filters).toString()
+
+          expect(query).to.equal('select * from "events" where "event_content_tsv" @@ websearch_to_tsquery(\'simple\', \'nostr\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -274,7 +325,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one #e tag', () => {
@@ -282,7 +333,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["e","aaaaaa"]]\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["e","aaaaaa"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two #e tag', () => {
@@ -290,7 +341,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["e","aaaaaa"]]\' or "event_tags" @> \'[["e","bbbbbb"]]\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["e","aaaaaa"]]\' or "event_tags" @> \'[["e","bbbbbb"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -300,7 +351,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one #p tag', () => {
@@ -308,7 +359,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["p","aaaaaa"]]\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["p","aaaaaa"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two #p tag', () => {
@@ -316,7 +367,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["p","aaaaaa"]]\' or "event_tags" @> \'[["p","bbbbbb"]]\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["p","aaaaaa"]]\' or "event_tags" @> \'[["p","bbbbbb"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
 
@@ -326,7 +377,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where (1 = 0) order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where (1 = 0) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by one #r tag', () => {
@@ -334,7 +385,7 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["r","aaaaaa"]]\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["r","aaaaaa"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
 
         it('selects events by two #r tag', () => {
@@ -342,18 +393,39 @@ describe('EventRepository', () => {
 
           const query = repository.findByFilters(filters).toString()
 
-          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["r","aaaaaa"]]\' or "event_tags" @> \'[["r","bbbbbb"]]\') order by "event_created_at" asc limit 500')
+          expect(query).to.equal('select * from "events" where ("event_tags" @> \'[["r","aaaaaa"]]\' or "event_tags" @> \'[["r","bbbbbb"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
         })
       })
     })
 
+    describe('protected kinds', () => {
+      it('excludes protected kinds given no authenticated pubkeys', () => {
+        const filters = [{ kinds: [1, 4] }]
+
+        const query = repository.findByFilters(filters, { protectedKinds: [4] }).toString()
+
+        expect(query).to.equal('select * from "events" where "event_kind" in (1, 4) and (not ("event_kind" = 4)) and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
+      })
+
+      it('selects protected kinds authored by or tagging authenticated pubkeys', () => {
+        const filters = [{}]
+
+        const query = repository.findByFilters(
+          filters,
+          { protectedKinds: [4, [20000, 29999]], authenticatedPubkeys: ['aaaaaa'] },
+        ).toString()
+
+        expect(query).to.equal('select * from "events" where (not ("event_kind" = 4 or "event_kind" between 20000 and 29999) or "event_pubkey" in (X\'aaaaaa\') or "event_tags" @> \'[["p","aaaaaa"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500')
+      })
+    })
+
     describe('2 filters', () => {
       it('selects union of both filters', () => {
         const filters = [{}, {}]
 
         const query = repository.findByFilters(filters).toString()
 
-        expect(query).to.equal('(select * from "events") union (select * from "events" order by "event_created_at" asc limit 500) order by "event_created_at" asc limit 500')
+        expect(query).to.equal('(select * from "events" where ("expires_at" is null or "expires_at" > extract(epoch from now()))) union (select * from "events" where ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500) order by "event_created_at" asc limit 500')
       })
     })
 
@@ -363,11 +435,35 @@ describe('EventRepository', () => {
 
         const query = repository.findByFilters(filters).toString()
 
-        expect(query).to.equal('(select * from "events" where "event_kind" in (1)) union (select * from "events" where (substring("event_id" from 1 for 3) BETWEEN E\'\\\\xaaaaa0\' AND E\'\\\\xaaaaaf\') order by "event_created_at" asc limit 500) union (select * from "events" where (substring("event_pubkey" from 1 for 3) BETWEEN E\'\\\\xbbbbb0\' AND E\'\\\\xbbbbbf\' or substring("event_delegator" from 1 for 3) BETWEEN E\'\\\\xbbbbb0\' AND E\'\\\\xbbbbbf\') order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" >= 1000 order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" <= 1000 order by "event_created_at" asc limit 500) union (select * from "events" order by "event_created_at" DESC limit 1000) order by "event_created_at" asc limit 500')
+        expect(query).to.equal('(select * from "events" where "event_kind" in (1) and ("expires_at" is null or "expires_at" > extract(epoch from now()))) union (select * from "events" where (substring("event_id" from 1 for 3) BETWEEN E\'\\\\xaaaaa0\' AND E\'\\\\xaaaaaf\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500) union (select * from "events" where (substring("event_pubkey" from 1 for 3) BETWEEN E\'\\\\xbbbbb0\' AND E\'\\\\xbbbbbf\' or substring("event_delegator" from 1 for 3) BETWEEN E\'\\\\xbbbbb0\' AND E\'\\\\xbbbbbf\') and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" >= 1000 and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500) union (select * from "events" where "event_created_at" <= 1000 and ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" asc limit 500) union (select * from "events" where ("expires_at" is null or "expires_at" > extract(epoch from now())) order by "event_created_at" DESC limit 1000) order by "event_created_at" asc limit 500')
       })
     })
   })
 
+  describe('.countByFilters', () => {
+    it('throws error if filters is empty', async () => {
+      let error: Error | undefined
+      try {
+        await repository.countByFilters([])
+      } catch (e) {
+        error = e
+      }
+
+      expect(error).to.have.property('message', 'Filters cannot be empty')
+    })
+
+    it('counts distinct non-deleted events matching all filters', async () => {
+      const fromStub = sandbox.stub().resolves([{ count: '42' }])
+      const countStub = sandbox.stub(rrDbClient, 'count').returns({ from: fromStub } as any)
+
+      const count = await repository.countByFilters([{ kinds: [7] }, { '#e': ['aa'] }])
+
+      expect(count).to.equal(42)
+      expect(countStub).to.have.been.calledOnceWithExactly({ count: '*' })
+      expect(fromStub.firstCall.args[0].toString()).to.equal('select "event_id" from "events" where "deleted_at" is null and "event_kind" in (7) and ("expires_at" is null or "expires_at" > extract(epoch from now())) union select "event_id" from "events" where "deleted_at" is null and ("event_tags" @> \'[["e","aa"]]\') and ("expires_at" is null or "expires_at" > extract(epoch from now()))')
+    })
+  })
+
   describe('.create', () => {
     let insertStub: sinon.SinonStub
     beforeEach(() => {
@@ -402,7 +498,7 @@ describe('EventRepository', () => {
 
       const result = await repository.create(event)
 
-      expect(insertStub).to.have.been.calledOnceWithExactly(event)
+      expect(insertStub).to.have.been.calledOnceWithExactly(event, dbClient)
       expect(result).to.equal(1)
     })
   })
@@ -465,6 +561,95 @@ describe('EventRepository', () => {
     })
   })
 
+  describe('deleteByIds', () => {
+    it('marks events as deleted by event_id if not deleted', () => {
+      const query = repository.deleteByIds(['aabbcc', 'ddeeff']).toString()
+
+      expect(query).to.equal('update "events" set "deleted_at" = now() where "event_id" in (X\'aabbcc\', X\'ddeeff\') and "deleted_at" is null')
+    })
+  })
+
+  describe('isDeleted', () => {
+    let query: any
+    let row: any
+
+    beforeEach(() => {
+      const masterDbClient = ((table: string) => {
+        query = dbClient(table)
+        sandbox.stub(query, 'then').callsFake((resolve: any) => resolve(row))
+
+        return query
+      }) as any
+
+      repository = new EventRepository(masterDbClient, rrDbClient)
+    })
+
+    it('looks up deleted event by event_id & event_pubkey on primary', async () => {
+      row = { event_id: Buffer.from('aabbcc', 'hex') }
+
+      expect(await repository.isDeleted('aabbcc', '001122')).to.be.true
+      expect(query.toString()).to.equal('select "event_id" from "events" where "event_id" = X\'aabbcc\' and "event_pubkey" = X\'001122\' and "deleted_at" is not null limit 1')
+    })
+
+    it('returns false if event is not deleted', async () => {
+      row = undefined
+
+      expect(await repository.isDeleted('aabbcc', '001122')).to.be.false
+    })
+  })
+
+  describe('isAddressDeleted', () => {
+    let query: any
+    let row: any
+
+    beforeEach(() => {
+      const masterDbClient = ((table: string) => {
+        query = dbClient(table)
+        sandbox.stub(query, 'then').callsFake((resolve: any) => resolve(row))
+
+        return query
+      }) as any
+
+      repository = new EventRepository(masterDbClient, rrDbClient)
+    })
+
+    it('looks up deletions referencing address since given time on primary', async () => {
+      row = { event_id: Buffer.from('aabbcc', 'hex') }
+
+      expect(await repository.isAddressDeleted('001122', '30023:001122:article', 1000)).to.be.true
+      expect(query.toString()).to.equal('select "event_id" from "events" where "event_pubkey" = X\'001122\' and "event_kind" = 5 and "event_created_at" >= 1000 and "deleted_at" is null and "event_tags" @> \'[["a","30023:001122:article"]]\' limit 1')
+    })
+
+    it('returns false if address is not deleted', async () => {
+      row = undefined
+
+      expect(await repository.isAddressDeleted('001122', '30023:001122:article', 1000)).to.be.false
+    })
+  })
+
+  describe('deleteByPubkeyAndAddresses', () => {
+    it('marks all versions of addressed events up to given time as deleted', () => {
+      const query = repository.deleteByPubkeyAndAddresses(
+        '001122',
+        [
+          { kind: 30023, pubkey: '001122', identifier: 'article' },
+          { kind: 0, pubkey: '001122', identifier: '' },
+        ],
+        1000,
+      ).toString()
+
+      expect(query).to.equal('update "events" set "deleted_at" = now() where "event_pubkey" = X\'001122\' and "event_created_at" <= 1000 and (("event_kind" = 30023 and "event_deduplication" = \'["article"]\') or ("event_kind" = 0)) and "deleted_at" is null')
+    })
+  })
+
+  describe('deleteExpiredEvents', () => {
+    it('deletes a batch of expired events', () => {
+      const query = repository.deleteExpiredEvents(1000).toString()
+
+      expect(query).to.equal('delete from "events" where "event_id" in (select "event_id" from "events" where "expires_at" <= extract(epoch from now()) limit 1000)')
+    })
+  })
+
   describe('upsert', () => {
     it('replaces event based on event_pubkey and event_kind', () => {
       const event: Event = {
@@ -480,7 +665,7 @@ describe('EventRepository', () => {
 
       const query = repository.upsert(event).toString()
 
-      expect(query).to.equal('insert into "events" ("event_content", "event_created_at", "event_deduplication", "event_delegator", "event_id", "event_kind", "event_pubkey", "event_signature", "event_tags", "expires_at", "remote_address") values (\'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\', 1564498626, \'["55b702c167c85eb1c2d5ab35d68bedd1a35b94c01147364d2395c2f66f35a503",0]\', NULL, X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\', 0, X\'55b702c167c85eb1c2d5ab35d68bedd1a35b94c01147364d2395c2f66f35a503\', X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\', \'[]\', NULL, \'::1\') on conflict (event_pubkey, event_kind, event_deduplication) WHERE (event_kind = 0 OR event_kind = 3 OR event_kind = 41 OR (event_kind >= 10000 AND event_kind < 20000)) OR (event_kind >= 30000 AND event_kind < 40000) do update set "event_id" = X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\',"event_created_at" = 1564498626,"event_tags" = \'[]\',"event_content" = \'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\',"event_signature" = X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\',"event_delegator" = NULL,"remote_address" = \'::1\',"expires_at" = NULL where "events"."event_created_at" < 1564498626')
+      expect(query).to.equal('insert into "events" ("event_content", "event_created_at", "event_deduplication", "event_delegator", "event_id", "event_kind", "event_pubkey", "event_signature", "event_tags", "expires_at", "remote_address") values (\'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\', 1564498626, \'["55b702c167c85eb1c2d5ab35d68bedd1a35b94c01147364d2395c2f66f35a503",0]\', NULL, X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\', 0, X\'55b702c167c85eb1c2d5ab35d68bedd1a35b94c01147364d2395c2f66f35a503\', X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\', \'[]\', NULL, \'::1\') on conflict (event_pubkey, event_kind, event_deduplication) WHERE (event_kind = 0 OR event_kind = 3 OR event_kind = 41 OR (event_kind >= 10000 AND event_kind < 20000)) OR (event_kind >= 30000 AND event_kind < 40000) do update set "event_id" = X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\',"event_created_at" = 1564498626,"event_tags" = \'[]\',"event_content" = \'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\',"event_signature" = X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\',"event_delegator" = NULL,"remote_address" = \'::1\',"expires_at" = NULL,"deleted_at" = NULL where "events"."event_created_at" < 1564498626')
     })
 
     it('replaces event based on event_pubkey, event_kind and event_deduplication', () => {
@@ -498,7 +683,7 @@ describe('EventRepository', () => {
 
       const query = repository.upsert(event).toString()
 
-      expect(query).to.equal('insert into "events" ("event_content", "event_created_at", "event_deduplication", "event_delegator", "event_id", "event_kind", "event_pubkey", "event_signature", "event_tags", "expires_at", "remote_address") values (\'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\', 1564498626, \'["deduplication"]\', NULL, X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\', 0, X\'55b702c167c85eb1c2d5ab35d68bedd1a35b94c01147364d2395c2f66f35a503\', X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\', \'[]\', NULL, \'::1\') on conflict (event_pubkey, event_kind, event_deduplication) WHERE (event_kind = 0 OR event_kind = 3 OR event_kind = 41 OR (event_kind >= 10000 AND event_kind < 20000)) OR (event_kind >= 30000 AND event_kind < 40000) do update set "event_id" = X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\',"event_created_at" = 1564498626,"event_tags" = \'[]\',"event_content" = \'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\',"event_signature" = X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\',"event_delegator" = NULL,"remote_address" = \'::1\',"expires_at" = NULL where "events"."event_created_at" < 1564498626')
+      expect(query).to.equal('insert into "events" ("event_content", "event_created_at", "event_deduplication", "event_delegator", "event_id", "event_kind", "event_pubkey", "event_signature", "event_tags", "expires_at", "remote_address") values (\'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\', 1564498626, \'["deduplication"]\', NULL, X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\', 0, X\'55b702c167c85eb1c2d5ab35d68bedd1a35b94c01147364d2395c2f66f35a503\', X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\', \'[]\', NULL, \'::1\') on conflict (event_pubkey, event_kind, event_deduplication) WHERE (event_kind = 0 OR event_kind = 3 OR event_kind = 41 OR (event_kind >= 10000 AND event_kind < 20000)) OR (event_kind >= 30000 AND event_kind < 40000) do update set "event_id" = X\'e527fe8b0f64a38c6877f943a9e8841074056ba72aceb31a4c85e6d10b27095a\',"event_created_at" = 1564498626,"event_tags" = \'[]\',"event_content" = \'{"name":"ottman@minds.io","about":"","picture":"https://feat-2311-nostr.minds.io/icon/1002952989368913934/medium/1564498626/1564498626/1653379539"}\',"event_signature" = X\'d1de98733de2b412549aa64454722d9b66ab3c68e9e0d0f9c5d42e7bd54c30a06174364b683d2c8dbb386ff47f31e6cb7e2f3c3498d8819ee80421216c8309a9\',"event_delegator" = NULL,"remote_address" = \'::1\',"expires_at" = NULL,"deleted_at" = NULL where "events"."event_created_at" < 1564498626')
     })
   })
 })
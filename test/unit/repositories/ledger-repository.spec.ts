@@ -0,0 +1,59 @@
+import * as chai from 'chai'
+import knex from 'knex'
+
+import { DatabaseClient } from '../../../src/@types/base'
+import { ILedgerRepository } from '../../../src/@types/repositories'
+import { LedgerEntryType } from '../../../src/@types/ledger'
+import { LedgerRepository } from '../../../src/repositories/ledger-repository'
+
+const { expect } = chai
+
+describe('LedgerRepository', () => {
+  let repository: ILedgerRepository
+  let dbClient: DatabaseClient
+
+  beforeEach(() => {
+    dbClient = knex({
+      client: 'pg',
+    })
+
+    repository = new LedgerRepository(dbClient)
+  })
+
+  afterEach(() => {
+    dbClient.destroy()
+  })
+
+  describe('.create', () => {
+    it('inserts invoice payment ignoring duplicate invoices', () => {
+      const query = repository.create({
+        pubkey: '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793',
+        type: LedgerEntryType.InvoicePayment,
+        amount: 1000n,
+        invoiceId: 'invoice-id',
+        description: 'Top up',
+      }).toString()
+
+      expect(query).to.equal(
+        'insert into "ledger_entries" ("amount", "description", "event_id", "invoice_id", "pubkey", "type") values '
+        + '(\'1000\', \'Top up\', NULL, \'invoice-id\', X\'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793\', '
+        + '\'invoice_payment\') on conflict ("type", "invoice_id") do nothing',
+      )
+    })
+
+    it('inserts publication fee debit', () => {
+      const query = repository.create({
+        pubkey: '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793',
+        type: LedgerEntryType.PublicationFee,
+        amount: -50n,
+        eventId: 'a'.repeat(64),
+      }).toString()
+
+      expect(query).to.equal(
+        'insert into "ledger_entries" ("amount", "description", "event_id", "invoice_id", "pubkey", "type") values '
+        + `('-50', NULL, X'${'a'.repeat(64)}', NULL, X'22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793', `
+        + '\'publication_fee\') on conflict ("type", "invoice_id") do nothing',
+      )
+    })
+  })
+})
@@ -16,6 +16,7 @@ describe('NIP-01', () => {
         since: 1000,
         until: 1000,
         limit: 100,
+        search: 'nostr relay',
         '#e': ['aa', 'bb', 'cc'],
         '#p': ['dd', 'ee', 'ff'],
         '#r': ['00', '11', '22'],
@@ -71,6 +72,11 @@ describe('NIP-01', () => {
         { message: 'must be greater than or equal to 0', transform: assocPath(['limit'], -1) },
         { message: 'must be a multiple of 1', transform: assocPath(['limit'], Math.PI) },
       ],
+      search: [
+        { message: 'must be a string', transform: assocPath(['search'], null) },
+        { message: 'is not allowed to be empty', transform: assocPath(['search'], '') },
+        { message: 'length must be less than or equal to 256 characters long', transform: assocPath(['search'], 'f'.repeat(257)) },
+      ],
       '#e': [
         { message: 'must be an array', transform: assocPath(['#e'], null) },
       ],
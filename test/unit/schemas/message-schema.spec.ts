@@ -33,6 +33,44 @@ describe('NIP-01', () => {
       })
     })
 
+    describe('AUTH', () => {
+      it('returns same message if valid', () => {
+        message = ['AUTH', getEvents()[0]] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).not.to.have.property('error')
+        expect(result).to.have.deep.property('value', message)
+      })
+
+      it('returns error if event is missing', () => {
+        message = ['AUTH'] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).to.have.nested.property('error.message', '"AUTH message" does not contain 1 required value(s)')
+      })
+    })
+
+    describe('COUNT', () => {
+      it('returns same message if valid', () => {
+        message = ['COUNT', 'id', { kinds: [7], '#e': ['aa'] }] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).not.to.have.property('error')
+        expect(result).to.have.deep.property('value', message)
+      })
+
+      it('returns error if filter is missing', () => {
+        message = ['COUNT', 'id'] as any
+
+        const result = validateSchema(messageSchema)(message)
+
+        expect(result).to.have.nested.property('error.message', '"COUNT message" does not contain [filter]')
+      })
+    })
+
     describe('CLOSE', () => {
       it('returns same message if valid', () => {
         message = ['CLOSE', 'id'] as any
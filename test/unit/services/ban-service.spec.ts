@@ -0,0 +1,198 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { BanService } from '../../../src/services/ban-service'
+import { IBanRepository } from '../../../src/@types/repositories'
+import { IBanService } from '../../../src/@types/services'
+import { ICacheAdapter } from '../../../src/@types/adapters'
+
+const { expect } = chai
+
+describe('BanService', () => {
+  const pubkey = 'b'.repeat(64)
+  const ipAddress = '10.10.10.1'
+  const eventId = 'e'.repeat(64)
+
+  let findActiveByPubkeyStub: Sinon.SinonStub
+  let findActiveByIpAddressStub: Sinon.SinonStub
+  let findActiveByEventIdStub: Sinon.SinonStub
+  let upsertStub: Sinon.SinonStub
+  let deleteByPubkeyStub: Sinon.SinonStub
+  let deleteByEventIdStub: Sinon.SinonStub
+  let getKeyStub: Sinon.SinonStub
+  let setKeyStub: Sinon.SinonStub
+  let setKeyExpiryStub: Sinon.SinonStub
+  let deleteKeyStub: Sinon.SinonStub
+  let service: IBanService
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    findActiveByPubkeyStub = sandbox.stub().resolves(undefined)
+    findActiveByIpAddressStub = sandbox.stub().resolves(undefined)
+    findActiveByEventIdStub = sandbox.stub().resolves(undefined)
+    upsertStub = sandbox.stub().callsFake(async (ban) => ({ id: 'ban-id', ...ban }))
+    deleteByPubkeyStub = sandbox.stub().resolves(1)
+    deleteByEventIdStub = sandbox.stub().resolves(1)
+    getKeyStub = sandbox.stub().resolves(null)
+    setKeyStub = sandbox.stub().resolves(true)
+    setKeyExpiryStub = sandbox.stub().resolves()
+    deleteKeyStub = sandbox.stub().resolves(1)
+
+    service = new BanService(
+      {
+        findActiveByPubkey: findActiveByPubkeyStub,
+        findActiveByIpAddress: findActiveByIpAddressStub,
+        findActiveByEventId: findActiveByEventIdStub,
+        upsert: upsertStub,
+        deleteByPubkey: deleteByPubkeyStub,
+        deleteByEventId: deleteByEventIdStub,
+      } as unknown as IBanRepository,
+      {
+        getKey: getKeyStub,
+        setKey: setKeyStub,
+        setKeyExpiry: setKeyExpiryStub,
+        deleteKey: deleteKeyStub,
+      } as unknown as ICacheAdapter,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('getPubkeyBan', () => {
+    it('returns ban from repository and caches it', async () => {
+      findActiveByPubkeyStub.resolves({ pubkey, reason: 'spam' })
+
+      expect(await service.getPubkeyBan(pubkey)).to.deep.equal({ pubkey, reason: 'spam' })
+      expect(findActiveByPubkeyStub).to.have.been.calledOnceWithExactly(pubkey)
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:ban`, JSON.stringify({ pubkey, reason: 'spam' }))
+      expect(setKeyExpiryStub).to.have.been.calledOnceWithExactly(`${pubkey}:ban`, 300)
+    })
+
+    it('caches pubkeys that are not banned', async () => {
+      expect(await service.getPubkeyBan(pubkey)).to.be.undefined
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:ban`, 'none')
+    })
+
+    it('returns cached ban without querying repository', async () => {
+      getKeyStub.resolves(JSON.stringify({ pubkey, reason: 'spam', expiresAt: '2100-01-01T00:00:00.000Z' }))
+
+      expect(await service.getPubkeyBan(pubkey)).to.deep.equal({
+        pubkey,
+        reason: 'spam',
+        expiresAt: new Date('2100-01-01T00:00:00.000Z'),
+      })
+      expect(findActiveByPubkeyStub).not.to.have.been.called
+    })
+
+    it('returns undefined if cached ban has expired', async () => {
+      getKeyStub.resolves(JSON.stringify({ pubkey, expiresAt: '2000-01-01T00:00:00.000Z' }))
+
+      expect(await service.getPubkeyBan(pubkey)).to.be.undefined
+      expect(findActiveByPubkeyStub).not.to.have.been.called
+    })
+
+    it('returns undefined if pubkey is cached as not banned', async () => {
+      getKeyStub.resolves('none')
+
+      expect(await service.getPubkeyBan(pubkey)).to.be.undefined
+      expect(findActiveByPubkeyStub).not.to.have.been.called
+    })
+  })
+
+  describe('getIpAddressBan', () => {
+    it('returns ban from repository', async () => {
+      findActiveByIpAddressStub.resolves({ ipAddress })
+
+      expect(await service.getIpAddressBan(ipAddress)).to.deep.equal({ ipAddress })
+      expect(findActiveByIpAddressStub).to.have.been.calledOnceWithExactly(ipAddress)
+    })
+  })
+
+  describe('banPubkey', () => {
+    const expiresAt = new Date('2100-01-01T00:00:00.000Z')
+
+    it('upserts ban and updates cache', async () => {
+      const ban = await service.banPubkey(pubkey, 'spam', expiresAt)
+
+      expect(ban).to.deep.equal({ id: 'ban-id', pubkey, reason: 'spam', expiresAt })
+      expect(upsertStub).to.have.been.calledOnceWithExactly({ pubkey, reason: 'spam', expiresAt }, undefined)
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(
+        `${pubkey}:ban`,
+        JSON.stringify({ pubkey, reason: 'spam', expiresAt }),
+      )
+    })
+
+    it('does not cache ban written with a client', async () => {
+      const client = {} as any
+
+      await service.banPubkey(pubkey, 'spam', expiresAt, client)
+
+      expect(upsertStub).to.have.been.calledOnceWithExactly({ pubkey, reason: 'spam', expiresAt }, client)
+      expect(setKeyStub).not.to.have.been.called
+    })
+  })
+
+  describe('cacheBan', () => {
+    it('caches pubkey ban', async () => {
+      await service.cacheBan({ pubkey, reason: 'spam' })
+
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:ban`, JSON.stringify({ pubkey, reason: 'spam' }))
+      expect(setKeyExpiryStub).to.have.been.calledOnceWithExactly(`${pubkey}:ban`, 300)
+    })
+
+    it('caches ip address ban', async () => {
+      await service.cacheBan({ ipAddress })
+
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(`${ipAddress}:ban`, JSON.stringify({ ipAddress }))
+    })
+  })
+
+  describe('unbanPubkey', () => {
+    it('deletes ban and cache key', async () => {
+      await service.unbanPubkey(pubkey)
+
+      expect(deleteByPubkeyStub).to.have.been.calledOnceWithExactly(pubkey)
+      expect(deleteKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:ban`)
+    })
+  })
+
+  describe('getEventBan', () => {
+    it('returns ban from database and caches it', async () => {
+      findActiveByEventIdStub.resolves({ eventId, reason: 'illegal' })
+
+      expect(await service.getEventBan(eventId)).to.deep.equal({ eventId, reason: 'illegal' })
+      expect(findActiveByEventIdStub).to.have.been.calledOnceWithExactly(eventId)
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(
+        `${eventId}:event-ban`,
+        JSON.stringify({ eventId, reason: 'illegal' }),
+      )
+    })
+  })
+
+  describe('banEvent', () => {
+    it('upserts ban and updates cache', async () => {
+      await service.banEvent(eventId, 'illegal')
+
+      expect(upsertStub).to.have.been.calledOnceWithExactly({ eventId, reason: 'illegal' })
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(
+        `${eventId}:event-ban`,
+        JSON.stringify({ eventId, reason: 'illegal' }),
+      )
+    })
+  })
+
+  describe('unbanEvent', () => {
+    it('deletes ban and cache key', async () => {
+      await service.unbanEvent(eventId)
+
+      expect(deleteByEventIdStub).to.have.been.calledOnceWithExactly(eventId)
+      expect(deleteKeyStub).to.have.been.calledOnceWithExactly(`${eventId}:event-ban`)
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import { ICacheAdapter } from '../../../src/@types/adapters'
+import { IEventRepository } from '../../../src/@types/repositories'
+import { INip05VerificationService } from '../../../src/@types/services'
+import { Nip05VerificationService } from '../../../src/services/nip05-verification-service'
+import { Settings } from '../../../src/@types/settings'
+
+const { expect } = chai
+
+describe('Nip05VerificationService', () => {
+  const pubkey = 'b'.repeat(64)
+
+  let settings: Settings
+  let fetchNostrJsonStub: Sinon.SinonStub
+  let findByFiltersStub: Sinon.SinonStub
+  let getKeyStub: Sinon.SinonStub
+  let setKeyStub: Sinon.SinonStub
+  let setKeyExpiryStub: Sinon.SinonStub
+  let service: INip05VerificationService
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+    settings = {
+      limits: {
+        event: {
+          pubkey: {
+            nip05: {
+              enabled: true,
+              domainWhitelist: [],
+              domainBlacklist: [],
+              cacheTtl: 100,
+              failureCacheTtl: 10,
+            },
+          },
+        },
+      },
+    } as any
+    fetchNostrJsonStub = sandbox.stub().resolves({ names: { bob: pubkey } })
+    findByFiltersStub = sandbox.stub().resolves([
+      { event_content: JSON.stringify({ nip05: 'bob@example.com' }) },
+    ])
+    getKeyStub = sandbox.stub().resolves(null)
+    setKeyStub = sandbox.stub().resolves(true)
+    setKeyExpiryStub = sandbox.stub().resolves()
+
+    service = new Nip05VerificationService(
+      fetchNostrJsonStub,
+      { findByFilters: findByFiltersStub } as unknown as IEventRepository,
+      { getKey: getKeyStub, setKey: setKeyStub, setKeyExpiry: setKeyExpiryStub } as unknown as ICacheAdapter,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('isPubkeyVerified', () => {
+    it('returns true and caches result if nostr.json maps name to pubkey', async () => {
+      expect(await service.isPubkeyVerified(pubkey)).to.be.true
+
+      expect(findByFiltersStub).to.have.been.calledOnceWithExactly([{ kinds: [0], authors: [pubkey], limit: 1 }])
+      expect(fetchNostrJsonStub).to.have.been.calledOnceWithExactly('example.com', 'bob')
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:nip05:bob@example.com`, 'verified')
+      expect(setKeyExpiryStub).to.have.been.calledOnceWithExactly(`${pubkey}:nip05:bob@example.com`, 100)
+    })
+
+    it('returns false and caches failure if nostr.json maps name to other pubkey', async () => {
+      fetchNostrJsonStub.resolves({ names: { bob: 'c'.repeat(64) } })
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.false
+
+      expect(setKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:nip05:bob@example.com`, 'unverified')
+      expect(setKeyExpiryStub).to.have.been.calledOnceWithExactly(`${pubkey}:nip05:bob@example.com`, 10)
+    })
+
+    it('returns false if nostr.json cannot be fetched', async () => {
+      fetchNostrJsonStub.rejects(new Error('connection refused'))
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.false
+    })
+
+    it('returns cached result without fetching nostr.json', async () => {
+      getKeyStub.resolves('verified')
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.true
+
+      expect(getKeyStub).to.have.been.calledOnceWithExactly(`${pubkey}:nip05:bob@example.com`)
+      expect(fetchNostrJsonStub).not.to.have.been.called
+    })
+
+    it('returns false if pubkey has no metadata', async () => {
+      findByFiltersStub.resolves([])
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.false
+      expect(fetchNostrJsonStub).not.to.have.been.called
+    })
+
+    it('returns false if metadata has no nip05 identifier', async () => {
+      findByFiltersStub.resolves([{ event_content: '{"name":"bob"}' }])
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.false
+      expect(fetchNostrJsonStub).not.to.have.been.called
+    })
+
+    it('returns false if domain is not whitelisted', async () => {
+      settings.limits.event.pubkey.nip05.domainWhitelist = ['other.com']
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.false
+      expect(fetchNostrJsonStub).not.to.have.been.called
+    })
+
+    it('returns false if domain is blacklisted', async () => {
+      settings.limits.event.pubkey.nip05.domainBlacklist = ['example.com']
+
+      expect(await service.isPubkeyVerified(pubkey)).to.be.false
+      expect(fetchNostrJsonStub).not.to.have.been.called
+    })
+  })
+})
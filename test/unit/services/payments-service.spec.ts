@@ -0,0 +1,239 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+chai.use(sinonChai)
+
+import * as eventModule from '../../../src/utils/event'
+
+import { EventExpirationTimeMetadataKey, EventKinds, EventTags } from '../../../src/constants/base'
+import { IEventRepository, IInvoiceRepository, ILedgerRepository, IUserRepository } from '../../../src/@types/repositories'
+import { Invoice, InvoicePurpose, InvoiceStatus, InvoiceUnit } from '../../../src/@types/invoice'
+import { AdmissionFeeSchedule } from '../../../src/@types/settings'
+import { DatabaseClient } from '../../../src/@types/base'
+import { LedgerEntryType } from '../../../src/@types/ledger'
+import { PaymentsService } from '../../../src/services/payments-service'
+import { Transaction } from '../../../src/database/transaction'
+import { User } from '../../../src/@types/user'
+
+const { expect } = chai
+
+describe('PaymentsService', () => {
+  const relayPrivkey = 'a'.repeat(64)
+  const pubkey = '22e804d26ed16b68db5259e78449e96dab5d464c8f470bda3eb1a70467f2c793'
+
+  let settings: any
+  let dbClient: DatabaseClient
+  let transactionClient: DatabaseClient
+  let service: PaymentsService
+
+  let findByPubkeyStub: Sinon.SinonStub
+  let upsertUserStub: Sinon.SinonStub
+  let findInvoiceByIdForUpdateStub: Sinon.SinonStub
+  let confirmInvoiceStub: Sinon.SinonStub
+  let createLedgerEntryStub: Sinon.SinonStub
+  let commitStub: Sinon.SinonStub
+  let setAdmissionRemindedAtStub: Sinon.SinonStub
+  let createEventStub: Sinon.SinonStub
+  let broadcastEventStub: Sinon.SinonStub
+
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    settings = {
+      info: {
+        name: 'relay',
+        relay_url: 'wss://relay.your-domain.com',
+      },
+      payments: {
+        enabled: true,
+      },
+    }
+
+    dbClient = {} as any
+    transactionClient = {} as any
+
+    sandbox.stub(Transaction.prototype, 'begin').resolves()
+    commitStub = sandbox.stub(Transaction.prototype, 'commit').resolves()
+    sandbox.stub(Transaction.prototype, 'rollback').resolves()
+    sandbox.stub(Transaction.prototype, 'transaction').get(() => transactionClient)
+
+    findByPubkeyStub = sandbox.stub()
+    upsertUserStub = sandbox.stub().resolves(1)
+    findInvoiceByIdForUpdateStub = sandbox.stub()
+    confirmInvoiceStub = sandbox.stub().resolves()
+    createLedgerEntryStub = sandbox.stub().resolves(1)
+    setAdmissionRemindedAtStub = sandbox.stub().resolves(1)
+    createEventStub = sandbox.stub().resolves(1)
+
+    sandbox.stub(eventModule, 'getRelayPrivateKey').returns(relayPrivkey)
+    broadcastEventStub = sandbox.stub(eventModule, 'broadcastEvent').callsFake(async (event) => event)
+
+    service = new PaymentsService(
+      dbClient,
+      {} as any,
+      {
+        findByPubkey: findByPubkeyStub,
+        upsert: upsertUserStub,
+        setAdmissionRemindedAt: setAdmissionRemindedAtStub,
+      } as unknown as IUserRepository,
+      {
+        findByIdForUpdate: findInvoiceByIdForUpdateStub,
+        confirmInvoice: confirmInvoiceStub,
+      } as unknown as IInvoiceRepository,
+      { create: createLedgerEntryStub } as unknown as ILedgerRepository,
+      { create: createEventStub } as unknown as IEventRepository,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('confirmInvoice', () => {
+    const confirmedAt = new Date('2023-04-01T00:00:00.000Z')
+    let invoice: Invoice
+
+    beforeEach(() => {
+      settings.payments.feeSchedules = {
+        admission: [{ enabled: true, amount: 1000n, duration: 86400 }],
+      }
+
+      invoice = {
+        id: 'invoice',
+        pubkey,
+        amountPaid: 1000n,
+        unit: InvoiceUnit.MSATS,
+        status: InvoiceStatus.COMPLETED,
+        confirmedAt,
+        description: 'Admission fee',
+      } as Invoice
+    })
+
+    it('admits user once if the same admission invoice is confirmed twice', async () => {
+      const storedInvoice = { id: 'invoice', pubkey, purpose: InvoicePurpose.ADMISSION, confirmedAt: null }
+      findInvoiceByIdForUpdateStub.onFirstCall().resolves(storedInvoice)
+      findInvoiceByIdForUpdateStub.onSecondCall().resolves({ ...storedInvoice, confirmedAt })
+      findByPubkeyStub.resolves(undefined)
+
+      await service.confirmInvoice(invoice)
+      await service.confirmInvoice(invoice)
+
+      expect(findInvoiceByIdForUpdateStub).to.have.been.calledTwice
+      expect(findInvoiceByIdForUpdateStub).to.have.always.been.calledWithExactly('invoice', transactionClient)
+      expect(confirmInvoiceStub).to.have.been.calledOnceWithExactly('invoice', 1000n, confirmedAt, transactionClient)
+      expect(createLedgerEntryStub).to.have.been.calledOnceWithExactly(
+        {
+          pubkey,
+          type: LedgerEntryType.InvoicePayment,
+          amount: 1000n,
+          invoiceId: 'invoice',
+          description: 'Admission fee',
+        },
+        transactionClient,
+      )
+      expect(upsertUserStub).to.have.been.calledOnce
+      expect(upsertUserStub.firstCall.args[0]).to.include({ pubkey, isAdmitted: true })
+      expect(commitStub).to.have.been.calledTwice
+    })
+
+    it('credits top-up once if the same top-up invoice is confirmed twice', async () => {
+      const storedInvoice = { id: 'invoice', pubkey, purpose: InvoicePurpose.TOP_UP, confirmedAt: null }
+      findInvoiceByIdForUpdateStub.onFirstCall().resolves(storedInvoice)
+      findInvoiceByIdForUpdateStub.onSecondCall().resolves({ ...storedInvoice, confirmedAt })
+
+      await service.confirmInvoice(invoice)
+      await service.confirmInvoice(invoice)
+
+      expect(confirmInvoiceStub).to.have.been.calledOnce
+      expect(createLedgerEntryStub).to.have.been.calledOnceWithExactly(
+        {
+          pubkey,
+          type: LedgerEntryType.InvoicePayment,
+          amount: 1000n,
+          invoiceId: 'invoice',
+          description: 'Admission fee',
+        },
+        transactionClient,
+      )
+      expect(upsertUserStub).not.to.have.been.called
+    })
+  })
+
+  describe('getAdmittedUntil', () => {
+    const now = new Date('2023-04-01T00:00:00.000Z')
+    const getAdmittedUntil = (feeSchedules: Partial<AdmissionFeeSchedule>[]): Promise<Date | null> =>
+      (service as any).getAdmittedUntil(pubkey, feeSchedules, now, dbClient)
+
+    it('returns null if a fee schedule has no duration', async () => {
+      expect(await getAdmittedUntil([{ duration: 86400 }, {}])).to.be.null
+      expect(findByPubkeyStub).not.to.have.been.called
+    })
+
+    it('returns null if user is already admitted permanently', async () => {
+      findByPubkeyStub.resolves({ pubkey, isAdmitted: true, admittedUntil: null })
+
+      expect(await getAdmittedUntil([{ duration: 86400 }])).to.be.null
+      expect(findByPubkeyStub).to.have.been.calledOnceWithExactly(pubkey, dbClient)
+    })
+
+    it('admits new user for the shortest duration', async () => {
+      findByPubkeyStub.resolves(undefined)
+
+      expect(await getAdmittedUntil([{ duration: 86400 }, { duration: 3600 }]))
+        .to.deep.equal(new Date('2023-04-01T01:00:00.000Z'))
+    })
+
+    it('extends unexpired admission', async () => {
+      findByPubkeyStub.resolves({ pubkey, isAdmitted: true, admittedUntil: new Date('2023-04-02T00:00:00.000Z') })
+
+      expect(await getAdmittedUntil([{ duration: 86400 }]))
+        .to.deep.equal(new Date('2023-04-03T00:00:00.000Z'))
+    })
+
+    it('restarts expired admission from now', async () => {
+      findByPubkeyStub.resolves({ pubkey, isAdmitted: true, admittedUntil: new Date('2023-03-01T00:00:00.000Z') })
+
+      expect(await getAdmittedUntil([{ duration: 86400 }]))
+        .to.deep.equal(new Date('2023-04-02T00:00:00.000Z'))
+    })
+  })
+
+  describe('sendAdmissionExpiryReminder', () => {
+    const admittedUntil = new Date('2023-04-02T00:00:00.000Z')
+    const user = { pubkey, isAdmitted: true, admittedUntil } as User
+
+    it('persists and broadcasts reminder signed by relay', async () => {
+      await service.sendAdmissionExpiryReminder(user)
+
+      expect(createEventStub).to.have.been.calledOnce
+      const event = createEventStub.firstCall.args[0]
+      expect(event).to.include({
+        pubkey: eventModule.getPublicKey(relayPrivkey),
+        kind: EventKinds.INVOICE_UPDATE,
+        [EventExpirationTimeMetadataKey]: admittedUntil.getTime() / 1000,
+      })
+      expect(event.tags).to.deep.equal([
+        [EventTags.Pubkey, pubkey],
+        [EventTags.Expiration, (admittedUntil.getTime() / 1000).toString()],
+      ])
+      expect(event.content).to.include('https://relay.your-domain.com/invoices')
+      expect(await eventModule.isEventSignatureValid(event)).to.be.true
+      expect(setAdmissionRemindedAtStub).to.have.been.calledOnceWith(pubkey)
+      expect(broadcastEventStub).to.have.been.calledOnceWithExactly(event)
+    })
+
+    it('does not mark user as reminded if reminder cannot be persisted', async () => {
+      sandbox.stub(console, 'error')
+      createEventStub.rejects(new Error('database unavailable'))
+
+      await service.sendAdmissionExpiryReminder(user)
+
+      expect(setAdmissionRemindedAtStub).not.to.have.been.called
+      expect(broadcastEventStub).not.to.have.been.called
+    })
+  })
+})
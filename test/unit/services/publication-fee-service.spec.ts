@@ -0,0 +1,186 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Sinon from 'sinon'
+
+chai.use(chaiAsPromised)
+
+import { ILedgerRepository, IUserRepository } from '../../../src/@types/repositories'
+import { DatabaseClient } from '../../../src/@types/base'
+import { Event } from '../../../src/@types/event'
+import { IPublicationFeeService } from '../../../src/@types/services'
+import { LedgerEntryType } from '../../../src/@types/ledger'
+import { PublicationFeeService } from '../../../src/services/publication-fee-service'
+import { Settings } from '../../../src/@types/settings'
+import { Transaction } from '../../../src/database/transaction'
+
+const { expect } = chai
+
+describe('PublicationFeeService', () => {
+  let settings: Settings
+  let event: Event
+  let dbClient: DatabaseClient
+  let transactionClient: DatabaseClient
+  let service: IPublicationFeeService
+
+  let adjustBalanceStub: Sinon.SinonStub
+  let createLedgerEntryStub: Sinon.SinonStub
+  let beginStub: Sinon.SinonStub
+  let commitStub: Sinon.SinonStub
+  let rollbackStub: Sinon.SinonStub
+  let writeStub: Sinon.SinonStub
+
+  let sandbox: Sinon.SinonSandbox
+
+  beforeEach(() => {
+    sandbox = Sinon.createSandbox()
+
+    settings = {
+      info: {
+        relay_url: 'wss://relay.your-domain.com',
+      },
+      payments: {
+        enabled: true,
+        feeSchedules: {
+          admission: [],
+          publication: [
+            { enabled: true, amount: 1000n },
+          ],
+        },
+      },
+    } as any
+
+    event = {
+      id: 'id',
+      pubkey: 'pubkey',
+      kind: 1,
+      content: 'hello',
+    } as any
+
+    dbClient = {} as any
+    transactionClient = {} as any
+
+    beginStub = sandbox.stub(Transaction.prototype, 'begin').resolves()
+    commitStub = sandbox.stub(Transaction.prototype, 'commit').resolves()
+    rollbackStub = sandbox.stub(Transaction.prototype, 'rollback').resolves()
+    sandbox.stub(Transaction.prototype, 'transaction').get(() => transactionClient)
+
+    adjustBalanceStub = sandbox.stub().resolves(0n)
+    createLedgerEntryStub = sandbox.stub().resolves(1)
+    writeStub = sandbox.stub().resolves(1)
+
+    service = new PublicationFeeService(
+      dbClient,
+      { adjustBalance: adjustBalanceStub } as unknown as IUserRepository,
+      { create: createLedgerEntryStub } as unknown as ILedgerRepository,
+      () => settings,
+    )
+  })
+
+  afterEach(() => {
+    sandbox.restore()
+  })
+
+  describe('getPublicationFee', () => {
+    it('returns 0 if payments are disabled', () => {
+      settings.payments.enabled = false
+
+      expect(service.getPublicationFee(event)).to.equal(0n)
+    })
+
+    it('returns sum of enabled fee schedules', () => {
+      settings.payments.feeSchedules.publication.push(
+        { enabled: true, amount: 500n },
+        { enabled: false, amount: 10000n },
+      )
+
+      expect(service.getPublicationFee(event)).to.equal(1500n)
+    })
+
+    it('charges per byte of content', () => {
+      settings.payments.feeSchedules.publication = [{ enabled: true, amount: 100n, amountPerByte: 2n }]
+      event.content = 'héllo'
+
+      expect(service.getPublicationFee(event)).to.equal(112n)
+    })
+
+    it('only applies fee schedules matching the event kind', () => {
+      settings.payments.feeSchedules.publication = [
+        { enabled: true, amount: 100n, kinds: [1] },
+        { enabled: true, amount: 200n, kinds: [[30000, 39999]] },
+      ]
+
+      expect(service.getPublicationFee(event)).to.equal(100n)
+
+      event.kind = 30023
+
+      expect(service.getPublicationFee(event)).to.equal(200n)
+    })
+
+    it('does not apply fee schedules to whitelisted pubkeys', () => {
+      settings.payments.feeSchedules.publication[0].whitelists = { pubkeys: ['pub'] }
+
+      expect(service.getPublicationFee(event)).to.equal(0n)
+    })
+  })
+
+  describe('chargePublicationFee', () => {
+    it('writes without transaction if there is no fee', async () => {
+      settings.payments.feeSchedules.publication = []
+
+      await expect(service.chargePublicationFee(event, writeStub)).to.eventually.equal(1)
+
+      expect(writeStub).to.have.been.calledOnceWithExactly(dbClient)
+      expect(beginStub).not.to.have.been.called
+      expect(adjustBalanceStub).not.to.have.been.called
+    })
+
+    it('debits balance, writes and records ledger entry in a transaction', async () => {
+      await expect(service.chargePublicationFee(event, writeStub)).to.eventually.equal(1)
+
+      expect(beginStub).to.have.been.calledOnce
+      expect(adjustBalanceStub).to.have.been.calledOnceWithExactly('pubkey', -1000n, transactionClient)
+      expect(writeStub).to.have.been.calledOnceWithExactly(transactionClient)
+      expect(createLedgerEntryStub).to.have.been.calledOnceWithExactly(
+        {
+          pubkey: 'pubkey',
+          type: LedgerEntryType.PublicationFee,
+          amount: -1000n,
+          eventId: 'id',
+        },
+        transactionClient,
+      )
+      expect(commitStub).to.have.been.calledOnce
+      expect(rollbackStub).not.to.have.been.called
+    })
+
+    it('resolves undefined without writing if balance is insufficient', async () => {
+      adjustBalanceStub.resolves(undefined)
+
+      await expect(service.chargePublicationFee(event, writeStub)).to.eventually.be.undefined
+
+      expect(writeStub).not.to.have.been.called
+      expect(createLedgerEntryStub).not.to.have.been.called
+      expect(rollbackStub).to.have.been.calledOnce
+    })
+
+    it('does not charge duplicate events', async () => {
+      writeStub.resolves(0)
+
+      await expect(service.chargePublicationFee(event, writeStub)).to.eventually.equal(0)
+
+      expect(createLedgerEntryStub).not.to.have.been.called
+      expect(commitStub).not.to.have.been.called
+      expect(rollbackStub).to.have.been.calledOnce
+    })
+
+    it('rolls back and rejects if write fails', async () => {
+      const error = new Error('failed')
+      writeStub.rejects(error)
+      sandbox.stub(console, 'error')
+
+      await expect(service.chargePublicationFee(event, writeStub)).to.eventually.be.rejectedWith(error)
+
+      expect(rollbackStub).to.have.been.calledOnce
+    })
+  })
+})
@@ -0,0 +1,176 @@
+import { expect } from 'chai'
+
+import { IRelayInformationService } from '../../../src/@types/services'
+import packageJson from '../../../package.json'
+import { RelayInformationService } from '../../../src/services/relay-information-service'
+import { Settings } from '../../../src/@types/settings'
+
+describe('RelayInformationService', () => {
+  let settings: Settings
+  let service: IRelayInformationService
+
+  beforeEach(() => {
+    settings = {
+      info: {
+        relay_url: 'wss://relay.your-domain.com',
+        name: 'relay',
+        description: 'a relay',
+        pubkey: 'a'.repeat(64),
+        contact: 'operator@your-domain.com',
+      },
+      network: {
+        maxPayloadSize: 131072,
+      },
+      limits: {
+        client: {
+          subscription: {
+            maxSubscriptions: 10,
+            maxFilters: 5,
+            maxFilterValues: 2500,
+            maxLimit: 5000,
+            maxSubscriptionIdLength: 256,
+            minPrefixLength: 4,
+          },
+        },
+        event: {
+          eventId: {
+            minLeadingZeroBits: 0,
+          },
+          content: [
+            { kinds: [0], maxLength: 10 },
+            { maxLength: 102400 },
+          ],
+          tags: [
+            { kinds: [3], maxTags: 10000 },
+            { maxTags: 2500 },
+          ],
+          createdAt: {
+            maxPositiveDelta: 900,
+            maxNegativeDelta: 0,
+          },
+        },
+      },
+    } as any
+
+    service = new RelayInformationService(() => settings)
+  })
+
+  describe('getRelayInformationDocument', () => {
+    it('returns relay information', () => {
+      const document = service.getRelayInformationDocument()
+
+      expect(document).to.include({
+        name: 'relay',
+        description: 'a relay',
+        pubkey: 'a'.repeat(64),
+        contact: 'operator@your-domain.com',
+        software: packageJson.repository.url,
+        version: packageJson.version,
+      })
+      expect(document.supported_nips).to.deep.equal(packageJson.supportedNips)
+    })
+
+    it('derives limitation from settings', () => {
+      expect(service.getRelayInformationDocument().limitation).to.deep.equal({
+        max_message_length: 131072,
+        max_subscriptions: 10,
+        max_filters: 5,
+        max_limit: 5000,
+        max_subid_length: 256,
+        min_prefix: 4,
+        max_event_tags: 2500,
+        max_content_length: 102400,
+        min_pow_difficulty: undefined,
+        auth_required: false,
+        payment_required: false,
+        restricted_writes: false,
+        created_at_lower_limit: undefined,
+        created_at_upper_limit: 900,
+      })
+    })
+
+    it('does not advertise max content length if all content limits are per kind', () => {
+      settings.limits.event.content = [{ kinds: [1], maxLength: 10 }]
+
+      expect(service.getRelayInformationDocument().limitation.max_content_length).to.be.undefined
+    })
+
+    it('advertises restricted writes if pubkey whitelist is set', () => {
+      settings.limits.event.pubkey = { whitelist: ['aa'] } as any
+
+      expect(service.getRelayInformationDocument().limitation.restricted_writes).to.be.true
+    })
+
+    it('advertises auth required if authentication is required', () => {
+      settings.authentication = { enabled: true, required: true }
+
+      expect(service.getRelayInformationDocument().limitation.auth_required).to.be.true
+    })
+
+    it('includes optional info fields', () => {
+      settings.info = {
+        ...settings.info,
+        icon: 'https://relay.your-domain.com/icon.png',
+        posting_policy: 'https://relay.your-domain.com/posting-policy.html',
+        relay_countries: ['CA'],
+        language_tags: ['en'],
+        tags: ['sfw-only'],
+        retention: [{ kinds: [0, [5, 7]], time: 3600 }],
+      }
+
+      expect(service.getRelayInformationDocument()).to.deep.include({
+        icon: 'https://relay.your-domain.com/icon.png',
+        posting_policy: 'https://relay.your-domain.com/posting-policy.html',
+        relay_countries: ['CA'],
+        language_tags: ['en'],
+        tags: ['sfw-only'],
+        retention: [{ kinds: [0, [5, 7]], time: 3600 }],
+      })
+    })
+
+    it('omits payments if payments are not configured', () => {
+      const document = service.getRelayInformationDocument()
+
+      expect(document).not.to.have.property('payments_url')
+      expect(document).not.to.have.property('fees')
+    })
+
+    it('includes payments url and enabled fees if payments are enabled', () => {
+      settings.payments = {
+        enabled: true,
+        processor: 'zebedee',
+        feeSchedules: {
+          admission: [
+            { enabled: true, amount: 1000000n },
+            { enabled: false, amount: 5000n },
+            { enabled: true, amount: 2000n, duration: 2592000 },
+          ],
+          publication: [],
+        },
+      }
+
+      const document = service.getRelayInformationDocument()
+
+      expect(document.limitation.payment_required).to.be.true
+      expect(document.limitation.restricted_writes).to.be.true
+      expect(document.payments_url).to.equal('https://relay.your-domain.com/invoices')
+      expect(document.fees).to.deep.equal({
+        admission: [{ amount: 1000000, unit: 'msats' }, { amount: 2000, unit: 'msats', period: 2592000 }],
+        publication: [],
+      })
+    })
+
+    it('caches document until settings are reloaded', () => {
+      const document = service.getRelayInformationDocument()
+
+      expect(service.getRelayInformationDocument()).to.equal(document)
+
+      settings = { ...settings, info: { ...settings.info, name: 'renamed' } }
+
+      const reloadedDocument = service.getRelayInformationDocument()
+
+      expect(reloadedDocument).not.to.equal(document)
+      expect(reloadedDocument.name).to.equal('renamed')
+    })
+  })
+})
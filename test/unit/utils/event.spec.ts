@@ -1,21 +1,24 @@
 import { expect } from 'chai'
 
 import { CanonicalEvent, Event } from '../../../src/@types/event'
+import { EventKinds, EventTags } from '../../../src/constants/base'
 import {
+  getEventAddress,
   getEventExpiration,
   isDelegatedEvent,
   isDelegatedEventValid,
   isDeleteEvent,
   isEphemeralEvent,
+  isEventAccessible,
   isEventIdValid,
   isEventMatchingFilter,
   isEventSignatureValid,
   isExpiredEvent,
   isParameterizedReplaceableEvent,
   isReplaceableEvent,
+  parseEventAddress,
   serializeEvent,
 } from '../../../src/utils/event'
-import { EventKinds } from '../../../src/constants/base'
 
 describe('NIP-01', () => {
   describe('serializeEvent', () => {
@@ -485,6 +488,44 @@ describe('NIP-09', () => {
       expect(isDeleteEvent(event)).to.be.false
     })
   })
+
+  describe('getEventAddress', () => {
+    it('returns address of parameterized replaceable event', () => {
+      const event: Event = {
+        kind: 30023,
+        pubkey: 'a'.repeat(64),
+        tags: [[EventTags.Deduplication, 'article']],
+      } as any
+
+      expect(getEventAddress(event)).to.equal(`30023:${'a'.repeat(64)}:article`)
+    })
+
+    it('returns address with empty identifier for replaceable event', () => {
+      const event: Event = {
+        kind: 0,
+        pubkey: 'a'.repeat(64),
+        tags: [[EventTags.Deduplication, 'ignored']],
+      } as any
+
+      expect(getEventAddress(event)).to.equal(`0:${'a'.repeat(64)}:`)
+    })
+  })
+
+  describe('parseEventAddress', () => {
+    it('returns kind, pubkey and identifier', () => {
+      expect(parseEventAddress(`30023:${'a'.repeat(64)}:with:colons`)).to.deep.equal({
+        kind: 30023,
+        pubkey: 'a'.repeat(64),
+        identifier: 'with:colons',
+      })
+    })
+
+    it('returns undefined if address is malformed', () => {
+      expect(parseEventAddress('30023:aa:article')).to.be.undefined
+      expect(parseEventAddress(`kind:${'a'.repeat(64)}:article`)).to.be.undefined
+      expect(parseEventAddress(`30023:${'a'.repeat(64)}`)).to.be.undefined
+    })
+  })
 })
 
 describe('NIP-33', () => {
@@ -564,4 +605,93 @@ describe('NIP-40', () => {
       expect(isExpiredEvent(event)).to.equal(true)
     })
   })
-})
\ No newline at end of file
+})
+
+describe('NIP-50', () => {
+  describe('isEventMatchingFilter', () => {
+    let event: Event
+
+    beforeEach(() => {
+      event = {
+        id: 'a'.repeat(64),
+        pubkey: 'b'.repeat(64),
+        created_at: 1648351380,
+        kind: 1,
+        tags: [],
+        content: 'What are the best Nostr apps? #nostr',
+        sig: 'c'.repeat(128),
+      }
+    })
+
+    it('returns true if content contains all search terms', () => {
+      expect(isEventMatchingFilter({ search: 'nostr BEST apps' })(event)).to.be.true
+    })
+
+    it('returns false if content is missing a search term', () => {
+      expect(isEventMatchingFilter({ search: 'nostr clients' })(event)).to.be.false
+    })
+
+    it('returns false if content contains an excluded search term', () => {
+      expect(isEventMatchingFilter({ search: 'nostr -apps' })(event)).to.be.false
+    })
+
+    it('ignores search extensions', () => {
+      expect(isEventMatchingFilter({ search: 'nostr include:spam' })(event)).to.be.true
+    })
+
+    it('returns true if content matches any alternative', () => {
+      expect(isEventMatchingFilter({ search: 'clients or apps' })(event)).to.be.true
+      expect(isEventMatchingFilter({ search: 'nostr clients OR best relays' })(event)).to.be.false
+    })
+
+    it('returns true if content contains quoted phrase', () => {
+      expect(isEventMatchingFilter({ search: '"best nostr apps"' })(event)).to.be.true
+      expect(isEventMatchingFilter({ search: '"nostr best apps"' })(event)).to.be.false
+    })
+
+    it('returns false if content contains an excluded phrase', () => {
+      expect(isEventMatchingFilter({ search: 'nostr -"best nostr"' })(event)).to.be.false
+      expect(isEventMatchingFilter({ search: 'nostr -"best apps"' })(event)).to.be.true
+    })
+
+    it('returns true if search has no terms', () => {
+      expect(isEventMatchingFilter({ search: 'or include:spam' })(event)).to.be.true
+    })
+  })
+})
+
+describe('NIP-42', () => {
+  describe('isEventAccessible', () => {
+    const author = 'a'.repeat(64)
+    const recipient = 'b'.repeat(64)
+    let event: Event
+
+    beforeEach(() => {
+      event = {
+        pubkey: author,
+        kind: EventKinds.ENCRYPTED_DIRECT_MESSAGE,
+        tags: [[EventTags.Pubkey, recipient]],
+      } as any
+    })
+
+    it('returns true if event kind is not protected', () => {
+      expect(isEventAccessible([EventKinds.TEXT_NOTE], [])(event)).to.be.true
+    })
+
+    it('returns false if event kind is protected and no pubkeys are given', () => {
+      expect(isEventAccessible([EventKinds.ENCRYPTED_DIRECT_MESSAGE], [])(event)).to.be.false
+    })
+
+    it('returns false if event kind range is protected and pubkeys are unrelated', () => {
+      expect(isEventAccessible([[0, 10]], ['c'.repeat(64)])(event)).to.be.false
+    })
+
+    it('returns true if event kind is protected and pubkeys include author', () => {
+      expect(isEventAccessible([EventKinds.ENCRYPTED_DIRECT_MESSAGE], [author])(event)).to.be.true
+    })
+
+    it('returns true if event kind is protected and pubkeys include recipient', () => {
+      expect(isEventAccessible([EventKinds.ENCRYPTED_DIRECT_MESSAGE], [recipient])(event)).to.be.true
+    })
+  })
+})
@@ -1,6 +1,12 @@
 import { expect } from 'chai'
 
-import { createEndOfStoredEventsNoticeMessage, createNoticeMessage, createOutgoingEventMessage } from '../../../src/utils/messages'
+import {
+  createAuthChallengeMessage,
+  createCountResultMessage,
+  createEndOfStoredEventsNoticeMessage,
+  createNoticeMessage,
+  createOutgoingEventMessage,
+} from '../../../src/utils/messages'
 import { Event } from '../../../src/@types/event'
 import { MessageType } from '../../../src/@types/messages'
 
@@ -25,3 +31,14 @@ describe('createEndOfStoredEventsNoticeMessage', () => {
   })
 })
 
+describe('createAuthChallengeMessage', () => {
+  it('returns an AUTH message', () => {
+    expect(createAuthChallengeMessage('challenge')).to.deep.equal([MessageType.AUTH, 'challenge'])
+  })
+})
+
+describe('createCountResultMessage', () => {
+  it('returns a COUNT message', () => {
+    expect(createCountResultMessage('subscriptionId', 10)).to.deep.equal([MessageType.COUNT, 'subscriptionId', { count: 10 }])
+  })
+})
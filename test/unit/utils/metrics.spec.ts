@@ -0,0 +1,215 @@
+import { expect } from 'chai'
+import Sinon from 'sinon'
+
+import {
+  getEventKindLabel,
+  getWebSocketConnectionsByWorker,
+  handleMetricsMessage,
+  mergeMetricSnapshots,
+  MetricsRegistry,
+  serializeMetricSnapshots,
+} from '../../../src/utils/metrics'
+import { MetricsEvent } from '../../../src/constants/metrics'
+import { MetricSnapshot } from '../../../src/@types/metrics'
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry
+
+  beforeEach(() => {
+    registry = new MetricsRegistry()
+  })
+
+  it('counts by labels', () => {
+    const counter = registry.counter('events_total', 'Events')
+
+    counter.inc({ kind: '1' })
+    counter.inc({ kind: '1' }, 2)
+    counter.inc({ kind: '7' })
+
+    expect(registry.getSnapshots()).to.deep.equal([
+      {
+        name: 'events_total',
+        help: 'Events',
+        type: 'counter',
+        samples: [
+          { labels: { kind: '1' }, value: 3 },
+          { labels: { kind: '7' }, value: 1 },
+        ],
+      },
+    ])
+  })
+
+  it('replaces gauge values', () => {
+    const gauge = registry.gauge('connections', 'Connections')
+
+    gauge.set({ worker: '1' }, 10)
+    gauge.set({ worker: '1' }, 4)
+
+    expect(registry.getSnapshots()[0].samples).to.deep.equal([{ labels: { worker: '1' }, value: 4 }])
+  })
+
+  it('observes histogram values into cumulative buckets', () => {
+    const histogram = registry.histogram('duration_seconds', 'Duration', [0.1, 1])
+
+    histogram.observe({}, 0.05)
+    histogram.observe({}, 0.5)
+    histogram.observe({}, 5)
+
+    expect(registry.getSnapshots()[0]).to.deep.include({
+      buckets: [0.1, 1],
+      samples: [{ labels: {}, bucketCounts: [1, 2], sum: 5.55, count: 3 }],
+    })
+  })
+})
+
+describe('mergeMetricSnapshots', () => {
+  it('sums samples with the same labels', () => {
+    const snapshots: MetricSnapshot[][] = [
+      [
+        { name: 'events_total', help: 'Events', type: 'counter', samples: [{ labels: { kind: '1' }, value: 1 }] },
+        {
+          name: 'duration_seconds',
+          help: 'Duration',
+          type: 'histogram',
+          buckets: [1],
+          samples: [{ labels: {}, bucketCounts: [1], sum: 0.5, count: 1 }],
+        },
+      ],
+      [
+        {
+          name: 'events_total',
+          help: 'Events',
+          type: 'counter',
+          samples: [{ labels: { kind: '1' }, value: 2 }, { labels: { kind: '7' }, value: 1 }],
+        },
+        {
+          name: 'duration_seconds',
+          help: 'Duration',
+          type: 'histogram',
+          buckets: [1],
+          samples: [{ labels: {}, bucketCounts: [0], sum: 2, count: 1 }],
+        },
+      ],
+    ]
+
+    expect(mergeMetricSnapshots(snapshots)).to.deep.equal([
+      {
+        name: 'events_total',
+        help: 'Events',
+        type: 'counter',
+        samples: [{ labels: { kind: '1' }, value: 3 }, { labels: { kind: '7' }, value: 1 }],
+      },
+      {
+        name: 'duration_seconds',
+        help: 'Duration',
+        type: 'histogram',
+        buckets: [1],
+        samples: [{ labels: {}, bucketCounts: [1], sum: 2.5, count: 2 }],
+      },
+    ])
+    expect(snapshots[0][0].samples[0]).to.deep.equal({ labels: { kind: '1' }, value: 1 })
+  })
+})
+
+describe('getEventKindLabel', () => {
+  it('returns known kinds as is', () => {
+    expect(getEventKindLabel(1)).to.equal('1')
+    expect(getEventKindLabel(22242)).to.equal('22242')
+  })
+
+  it('buckets unknown kinds by range', () => {
+    expect(getEventKindLabel(1000)).to.equal('regular')
+    expect(getEventKindLabel(10002)).to.equal('replaceable')
+    expect(getEventKindLabel(20001)).to.equal('ephemeral')
+    expect(getEventKindLabel(30023)).to.equal('parameterized_replaceable')
+    expect(getEventKindLabel(40000)).to.equal('other')
+    expect(getEventKindLabel(Number.MAX_SAFE_INTEGER)).to.equal('other')
+  })
+
+  it('does not return range bounds as known kinds', () => {
+    expect(getEventKindLabel(10000)).to.equal('replaceable')
+    expect(getEventKindLabel(39999)).to.equal('parameterized_replaceable')
+  })
+})
+
+describe('getWebSocketConnectionsByWorker', () => {
+  it('returns connections of each worker', () => {
+    const snapshots: MetricSnapshot[] = [
+      {
+        name: 'nostream_events_received_total',
+        help: 'help',
+        type: 'counter',
+        samples: [{ labels: { worker: '1' }, value: 10 }],
+      },
+      {
+        name: 'nostream_websocket_connections',
+        help: 'help',
+        type: 'gauge',
+        samples: [{ labels: { worker: '1' }, value: 3 }, { labels: { worker: '2' }, value: 0 }],
+      },
+    ]
+
+    expect(getWebSocketConnectionsByWorker(snapshots)).to.deep.equal({ '1': 3, '2': 0 })
+  })
+
+  it('returns no workers if no connections were reported', () => {
+    expect(getWebSocketConnectionsByWorker([])).to.deep.equal({})
+  })
+})
+
+describe('serializeMetricSnapshots', () => {
+  it('serializes counters and histograms', () => {
+    const output = serializeMetricSnapshots([
+      {
+        name: 'events_total',
+        help: 'Events',
+        type: 'counter',
+        samples: [{ labels: { kind: '1', reason: 'say "hi"' }, value: 3 }],
+      },
+      {
+        name: 'duration_seconds',
+        help: 'Duration',
+        type: 'histogram',
+        buckets: [0.1, 1],
+        samples: [{ labels: {}, bucketCounts: [1, 2], sum: 5.55, count: 3 }],
+      },
+    ])
+
+    expect(output).to.equal([
+      '# HELP events_total Events',
+      '# TYPE events_total counter',
+      'events_total{kind="1",reason="say \\"hi\\""} 3',
+      '# HELP duration_seconds Duration',
+      '# TYPE duration_seconds histogram',
+      'duration_seconds_bucket{le="0.1"} 1',
+      'duration_seconds_bucket{le="1"} 2',
+      'duration_seconds_bucket{le="+Inf"} 3',
+      'duration_seconds_sum 5.55',
+      'duration_seconds_count 3',
+      '',
+    ].join('\n'))
+  })
+})
+
+describe('handleMetricsMessage', () => {
+  let process: NodeJS.Process
+  let sendStub: Sinon.SinonStub
+
+  beforeEach(() => {
+    sendStub = Sinon.stub()
+    process = { send: sendStub } as unknown as NodeJS.Process
+  })
+
+  it('reports metrics when collecting', () => {
+    expect(handleMetricsMessage(process, { eventName: MetricsEvent.Collect, requestId: 'id' } as any)).to.be.true
+
+    expect(sendStub).to.have.been.calledOnceWith(Sinon.match({ eventName: MetricsEvent.Report, requestId: 'id' }))
+    expect(sendStub.firstCall.args[0].metrics).to.be.an('array')
+  })
+
+  it('ignores other messages', () => {
+    expect(handleMetricsMessage(process, { eventName: 'broadcast' })).to.be.false
+
+    expect(sendStub).not.to.have.been.called
+  })
+})
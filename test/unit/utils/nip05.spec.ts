@@ -0,0 +1,61 @@
+import chai from 'chai'
+import Sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+
+import { createNip05Fetcher, parseNip05Identifier } from '../../../src/utils/nip05'
+
+chai.use(sinonChai)
+
+const { expect } = chai
+
+describe('NIP-05', () => {
+  describe('parseNip05Identifier', () => {
+    it('returns name and domain', () => {
+      expect(parseNip05Identifier('Bob@Example.com')).to.deep.equal({ name: 'bob', domain: 'example.com' })
+      expect(parseNip05Identifier('bob@sub-domain.example.co.uk'))
+        .to.deep.equal({ name: 'bob', domain: 'sub-domain.example.co.uk' })
+    })
+
+    it('returns root name given identifier without local part', () => {
+      expect(parseNip05Identifier('example.com')).to.deep.equal({ name: '_', domain: 'example.com' })
+    })
+
+    it('returns undefined given invalid identifier', () => {
+      expect(parseNip05Identifier('bob@alice@example.com')).to.be.undefined
+      expect(parseNip05Identifier('b o b@example.com')).to.be.undefined
+      expect(parseNip05Identifier('bob@example.com/path')).to.be.undefined
+      expect(parseNip05Identifier('bob@-example.com')).to.be.undefined
+      expect(parseNip05Identifier('bob@example..com')).to.be.undefined
+    })
+
+    it('returns undefined given domain with port', () => {
+      expect(parseNip05Identifier('bob@example.com:8080')).to.be.undefined
+    })
+
+    it('returns undefined given ip address', () => {
+      expect(parseNip05Identifier('bob@127.0.0.1')).to.be.undefined
+      expect(parseNip05Identifier('bob@169.254.169.254')).to.be.undefined
+      expect(parseNip05Identifier('bob@[::1]')).to.be.undefined
+    })
+
+    it('returns undefined given single-label or local host', () => {
+      expect(parseNip05Identifier('bob@localhost')).to.be.undefined
+      expect(parseNip05Identifier('bob@intranet')).to.be.undefined
+      expect(parseNip05Identifier('bob@relay.localhost')).to.be.undefined
+    })
+  })
+
+  describe('createNip05Fetcher', () => {
+    it('fetches nostr.json document for name from domain over https', async () => {
+      const document = { names: { bob: 'b'.repeat(64) } }
+      const getStub = Sinon.stub().resolves({ data: document })
+      const fetchNostrJson = createNip05Fetcher({ get: getStub } as any)
+
+      expect(await fetchNostrJson('example.com', 'bob')).to.deep.equal(document)
+      expect(getStub).to.have.been.calledOnceWithExactly(
+        'https://example.com/.well-known/nostr.json',
+        { params: { name: 'bob' } },
+      )
+    })
+  })
+})
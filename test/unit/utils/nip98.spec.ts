@@ -0,0 +1,118 @@
+import { createHash } from 'crypto'
+import { expect } from 'chai'
+
+import { getNip98AuthorizationEvent, isNip98AuthorizationEventValid } from '../../../src/utils/nip98'
+import { getPublicKey, identifyEvent, signEvent } from '../../../src/utils/event'
+import { Event } from '../../../src/@types/event'
+import { EventKinds } from '../../../src/constants/base'
+import { Tag } from '../../../src/@types/base'
+
+describe('NIP-98', () => {
+  const privkey = 'a'.repeat(64)
+  const pubkey = getPublicKey(privkey)
+  const url = 'https://relay.example.com/admin/bans'
+
+  const createHttpAuthEvent = async (
+    tags: Tag[] = [['u', url], ['method', 'GET']],
+    kind = EventKinds.HTTP_AUTH,
+    createdAt = Math.floor(Date.now() / 1000),
+  ): Promise<Event> => {
+    const unsignedEvent = await identifyEvent({
+      pubkey,
+      created_at: createdAt,
+      kind,
+      tags,
+      content: '',
+    })
+
+    return signEvent(privkey)(unsignedEvent)
+  }
+
+  const toAuthorization = (event: Event) => `Nostr ${Buffer.from(JSON.stringify(event)).toString('base64')}`
+
+  describe('getNip98AuthorizationEvent', () => {
+    it('returns event from authorization header', async () => {
+      const event = await createHttpAuthEvent()
+
+      expect(getNip98AuthorizationEvent(toAuthorization(event))).to.deep.equal(event)
+    })
+
+    it('returns undefined if authorization header is missing', () => {
+      expect(getNip98AuthorizationEvent(undefined)).to.be.undefined
+    })
+
+    it('returns undefined if authorization scheme is not Nostr', async () => {
+      const event = await createHttpAuthEvent()
+
+      expect(getNip98AuthorizationEvent(toAuthorization(event).replace('Nostr', 'Bearer'))).to.be.undefined
+    })
+
+    it('returns undefined if authorization is not a base64 encoded event', () => {
+      expect(getNip98AuthorizationEvent(`Nostr ${Buffer.from('{}').toString('base64')}`)).to.be.undefined
+      expect(getNip98AuthorizationEvent('Nostr !!!')).to.be.undefined
+    })
+  })
+
+  describe('isNip98AuthorizationEventValid', () => {
+    it('returns undefined if event is valid', async () => {
+      const event = await createHttpAuthEvent()
+
+      expect(await isNip98AuthorizationEventValid(event, url, 'GET')).to.be.undefined
+    })
+
+    it('returns reason if kind is not http auth', async () => {
+      const event = await createHttpAuthEvent(undefined, EventKinds.AUTH)
+
+      expect(await isNip98AuthorizationEventValid(event, url, 'GET')).to.equal('invalid: event kind must be 27235')
+    })
+
+    it('returns reason if created_at is too far from current time', async () => {
+      const event = await createHttpAuthEvent(undefined, undefined, Math.floor(Date.now() / 1000) - 61)
+
+      expect(await isNip98AuthorizationEventValid(event, url, 'GET')).to.equal(
+        'invalid: created_at must be within 60 seconds of the current time',
+      )
+    })
+
+    it('returns reason if url does not match', async () => {
+      const event = await createHttpAuthEvent()
+
+      expect(await isNip98AuthorizationEventValid(event, 'https://relay.example.com/admin/users', 'GET')).to.equal(
+        'invalid: url does not match',
+      )
+    })
+
+    it('returns reason if method does not match', async () => {
+      const event = await createHttpAuthEvent()
+
+      expect(await isNip98AuthorizationEventValid(event, url, 'DELETE')).to.equal('invalid: method does not match')
+    })
+
+    it('returns undefined if payload matches', async () => {
+      const payload = Buffer.from('{"method":"supportedmethods","params":[]}')
+      const event = await createHttpAuthEvent([
+        ['u', url],
+        ['method', 'POST'],
+        ['payload', createHash('sha256').update(payload).digest('hex')],
+      ])
+
+      expect(await isNip98AuthorizationEventValid(event, url, 'POST', payload)).to.be.undefined
+    })
+
+    it('returns reason if payload does not match', async () => {
+      const event = await createHttpAuthEvent([['u', url], ['method', 'POST'], ['payload', 'a'.repeat(64)]])
+
+      expect(await isNip98AuthorizationEventValid(event, url, 'POST', Buffer.from('{}'))).to.equal(
+        'invalid: payload does not match',
+      )
+    })
+
+    it('returns reason if signature is invalid', async () => {
+      const event = await createHttpAuthEvent()
+
+      expect(
+        await isNip98AuthorizationEventValid({ ...event, sig: 'f'.repeat(128) }, url, 'GET')
+      ).to.equal('invalid: event signature verification failed')
+    })
+  })
+})
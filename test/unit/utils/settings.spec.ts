@@ -265,4 +265,63 @@ describe('SettingsStatic', () => {
       )
     })
   })
+
+  describe('.saveSettingsOverrides', () => {
+    let existsSyncStub: Sinon.SinonStub
+    let writeFileSyncStub: Sinon.SinonStub
+    let settingsFileTypeStub: Sinon.SinonStub
+    let loadSettingsStub: Sinon.SinonStub
+
+    let sandbox: Sinon.SinonSandbox
+
+    beforeEach(() => {
+      sandbox = Sinon.createSandbox()
+
+      existsSyncStub = sandbox.stub(fs, 'existsSync').returns(true)
+      writeFileSyncStub = sandbox.stub(fs, 'writeFileSync')
+      sandbox.stub(SettingsStatic, 'getSettingsFileBasePath').returns('/some/path')
+      settingsFileTypeStub = sandbox.stub(SettingsStatic, 'settingsFileType').returns(SettingsFileTypes.yaml)
+      loadSettingsStub = sandbox.stub(SettingsStatic, 'loadSettings').returns({ info: { name: 'old' } })
+    })
+
+    afterEach(() => {
+      sandbox.restore()
+    })
+
+    it('saves overrides on top of settings file', () => {
+      SettingsStatic.saveSettingsOverrides([[['info', 'description'], 'description']])
+
+      expect(loadSettingsStub).to.have.been.calledOnceWithExactly('/some/path/settings.yaml', SettingsFileTypes.yaml)
+      expect(writeFileSyncStub).to.have.been.calledOnceWithExactly(
+        '/some/path/settings.yaml',
+        'info:\n  name: old\n  description: description\n',
+        { encoding: 'utf-8' }
+      )
+    })
+
+    it('saves overrides to settings.json if in use', () => {
+      settingsFileTypeStub.returns(SettingsFileTypes.json)
+
+      SettingsStatic.saveSettingsOverrides([[['info', 'name'], 'new']])
+
+      expect(writeFileSyncStub).to.have.been.calledOnceWithExactly(
+        '/some/path/settings.json',
+        JSON.stringify({ info: { name: 'new' } }, null, 2),
+        { encoding: 'utf-8' }
+      )
+    })
+
+    it('saves only overrides if settings file is missing', () => {
+      existsSyncStub.returns(false)
+
+      SettingsStatic.saveSettingsOverrides([[['info', 'name'], 'new']])
+
+      expect(loadSettingsStub).not.to.have.been.called
+      expect(writeFileSyncStub).to.have.been.calledOnceWithExactly(
+        '/some/path/settings.yaml',
+        'info:\n  name: new\n',
+        { encoding: 'utf-8' }
+      )
+    })
+  })
 })
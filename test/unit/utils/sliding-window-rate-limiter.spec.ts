@@ -38,6 +38,8 @@ describe('SlidingWindowRateLimiter', () => {
       getKey: getKeyStub,
       hasKey: hasKeyStub,
       setKey: setKeyStub,
+      setKeyIfNotExists: sandbox.stub(),
+      deleteKey: sandbox.stub(),
     }
     rateLimiter = new SlidingWindowRateLimiter(cache)
   })
@@ -1,6 +1,7 @@
 import { expect } from 'chai'
 
-import { fromBuffer, toBuffer, toJSON } from '../../../src/utils/transform'
+import { fromBuffer, toBuffer, toInvoiceStatus, toJSON } from '../../../src/utils/transform'
+import { InvoiceStatus } from '../../../src/@types/invoice'
 
 
 describe('toJSON', () => {
@@ -20,3 +21,20 @@ describe('fromBuffer', () => {
     expect(fromBuffer(Buffer.from('aa55', 'hex'))).to.equal('aa55')
   })
 })
+
+describe('toInvoiceStatus', () => {
+  it('returns invoice statuses as is', () => {
+    expect(toInvoiceStatus('completed')).to.equal(InvoiceStatus.COMPLETED)
+    expect(toInvoiceStatus('cancelled')).to.equal(InvoiceStatus.CANCELLED)
+  })
+
+  it('returns cancelled given failed processor statuses', () => {
+    expect(toInvoiceStatus('error')).to.equal(InvoiceStatus.CANCELLED)
+    expect(toInvoiceStatus('failed')).to.equal(InvoiceStatus.CANCELLED)
+    expect(toInvoiceStatus('canceled')).to.equal(InvoiceStatus.CANCELLED)
+  })
+
+  it('returns pending given unknown statuses', () => {
+    expect(toInvoiceStatus('unknown')).to.equal(InvoiceStatus.PENDING)
+  })
+})